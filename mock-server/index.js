@@ -0,0 +1,402 @@
+/**
+ * Stand-in for the FastAPI validation and problems service
+ *
+ * Implements the endpoints used by src/utils/validationApi.ts with
+ * deterministic canned responses, so the UI can be developed without the
+ * Python service. Problems are loaded from fixtures.json and kept in memory;
+ * changes are lost on restart.
+ *
+ * Batch validation rules (per line, case-insensitive):
+ *   contains "wrong" -> invalid
+ *   contains "check" -> needs_review
+ *   anything else    -> valid
+ * The work counts as finished when the last line contains "done" or matches
+ * the fixture answer of a problem with the same equations/expression.
+ *
+ * Usage: npm run mock-server (PORT defaults to 8000)
+ */
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT || 8000);
+const fixtures = JSON.parse(readFileSync(new URL('./fixtures.json', import.meta.url), 'utf8'));
+
+const problems = new Map(fixtures.problems.map(problem => [problem.problem_code, problem]));
+const PROBLEM_TYPES = ['substitution', 'simplify', 'factor', 'arithmetic'];
+const HINT_LEVELS = ['gentle', 'moderate', 'strong'];
+
+class HttpError extends Error {
+  constructor(status, code, message, detail) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+const normalize = text => String(text ?? '').replace(/\\left|\\right|\\,|\\quad|\s/g, '').toLowerCase();
+
+const toRecord = problem => {
+  const { answer: _answer, ...rest } = problem;
+  return {
+    ...rest,
+    problemData: {
+      title: rest.title,
+      description: rest.description,
+      equations: rest.equations,
+      expression: rest.expression,
+      metadata: rest.metadata,
+    },
+  };
+};
+
+const findFixtureProblem = problemData => {
+  if (!problemData) return undefined;
+  const equations = (problemData.equations || []).map(normalize).join('|');
+  const expression = normalize(problemData.expression);
+  return fixtures.problems.find(problem =>
+    equations
+      ? (problem.equations || []).map(normalize).join('|') === equations
+      : expression && normalize(problem.expression) === expression
+  );
+};
+
+const answerToLatex = answer =>
+  Object.entries(answer || {})
+    .map(([name, value]) => (name === 'answer' ? value : `${name}=${value}`))
+    .join(',');
+
+const readBody = request =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    request.on('data', chunk => {
+      raw += chunk;
+    });
+    request.on('end', () => {
+      if (!raw) {
+        resolve({});
+        return;
+      }
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new HttpError(400, 'invalid_json', 'Request body is not valid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+
+const paginate = (items, query) => {
+  const page = Math.max(1, Number(query.get('page')) || 1);
+  const pageSize = Math.max(1, Number(query.get('page_size')) || 20);
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  return {
+    items: items.slice((page - 1) * pageSize, page * pageSize).map(toRecord),
+    total_count: items.length,
+    page,
+    page_size: pageSize,
+    total_pages: totalPages,
+    has_next: page < totalPages,
+    has_previous: page > 1,
+  };
+};
+
+const sortedProblems = () =>
+  Array.from(problems.values()).sort((a, b) => a.problem_code.localeCompare(b.problem_code));
+
+const requireProblem = code => {
+  const problem = problems.get(code);
+  if (!problem) {
+    throw new HttpError(404, 'not_found', `Problem "${code}" not found`);
+  }
+  return problem;
+};
+
+const validateProblemPayload = (body, { partial }) => {
+  const fields = [];
+  if (!partial && !body.problem_code) {
+    fields.push({ loc: ['body', 'problem_code'], msg: 'field required', type: 'value_error.missing' });
+  }
+  if ((!partial || body.type !== undefined) && !PROBLEM_TYPES.includes(body.type)) {
+    fields.push({
+      loc: ['body', 'type'],
+      msg: `must be one of: ${PROBLEM_TYPES.join(', ')}`,
+      type: 'value_error.enum',
+    });
+  }
+  if (body.equations !== undefined && !Array.isArray(body.equations)) {
+    fields.push({ loc: ['body', 'equations'], msg: 'must be a list of strings', type: 'type_error.list' });
+  }
+  if (fields.length > 0) {
+    throw new HttpError(422, 'validation_error', 'Invalid problem payload', fields);
+  }
+};
+
+const batchLine = (original, index, options) => {
+  const text = original.toLowerCase();
+  const status = text.includes(fixtures.batch.invalidMarker)
+    ? 'invalid'
+    : text.includes(fixtures.batch.reviewMarker)
+    ? 'needs_review'
+    : 'valid';
+  const plainMath = original.replace(/\\cdot|\\times/g, '*').replace(/[{}\\]/g, '');
+
+  return {
+    index,
+    lineIndex: index,
+    original,
+    plainMath,
+    operation: index === 0 ? 'substitute' : 'simplify',
+    status,
+    feedback:
+      status === 'valid'
+        ? 'This step follows from the previous one.'
+        : status === 'invalid'
+        ? 'This step does not follow from the previous one.'
+        : 'This step could not be verified automatically.',
+    errorCode: status === 'invalid' ? 'ALGEBRA_ERROR' : status === 'needs_review' ? 'UNVERIFIED' : undefined,
+    diagnostics:
+      status === 'valid'
+        ? { explanation: 'Both sides were transformed consistently.' }
+        : {
+            errorExplanation: 'The two sides no longer balance.',
+            explanation: 'Compare this line with the one above it.',
+            alternative: 'Try distributing before combining like terms.',
+            alternativeExplanation: 'Distribute first, then collect like terms.',
+          },
+    telemetry: options.includeTelemetry ? { parseMs: 1, simplifyMs: 2 } : undefined,
+    confidence: status === 'valid' ? 0.95 : status === 'invalid' ? 0.9 : 0.5,
+    sympy: { simplified: plainMath, normalized: plainMath.replace(/\s/g, ''), symbolsTouched: ['x', 'y'] },
+    llm:
+      options.llmAnalysis === 'per_line'
+        ? { summary: `Line ${index + 1} looks ${status.replace('_', ' ')}.`, nextStepHint: 'Isolate one variable.' }
+        : undefined,
+  };
+};
+
+const validateBatch = (problemType, body) => {
+  const options = body.options || {};
+  const studentWork = Array.isArray(body.studentWork) ? body.studentWork : [];
+  const lines = studentWork.map((line, index) => batchLine(String(line), index, options));
+  const fixtureProblem = findFixtureProblem(body.problemData);
+  const expected = fixtureProblem?.answer;
+  const lastLine = studentWork[studentWork.length - 1] || '';
+  const invalidSteps = lines.filter(line => line.status === 'invalid').length;
+  const matchesAnswer = expected && normalize(lastLine) === normalize(answerToLatex(expected));
+  const finished =
+    invalidSteps === 0 && lines.length > 0 && (matchesAnswer || lastLine.toLowerCase().includes(fixtures.batch.finishedMarker));
+
+  const discrepancies = finished ? [] : invalidSteps > 0 ? [`${invalidSteps} step(s) need fixing`] : ['No final answer yet'];
+
+  return {
+    lines,
+    overall: {
+      validSteps: lines.filter(line => line.status === 'valid').length,
+      invalidSteps,
+      readyForAnswerCheck: lines.length > 0 && invalidSteps === 0,
+      finished,
+      finalAnswer:
+        lines.length === 0
+          ? null
+          : {
+              isCorrect: finished,
+              feedback: finished ? 'Great job! Your final answer is correct.' : 'Keep going: the final answer is not there yet.',
+              student: { answer: lastLine },
+              expected: expected || {},
+            },
+      recommendedNextAction: finished ? null : invalidSteps > 0 ? 'Fix the highlighted step.' : 'Continue to the next step.',
+      sympyCheck: {
+        isSolved: finished,
+        studentAssignments: { answer: lastLine },
+        expectedSolution: expected ? [expected] : [],
+        discrepancies,
+      },
+    },
+    telemetry: options.includeTelemetry ? { problemType, engine: 'mock-server', lineCount: lines.length } : undefined,
+    chat_response:
+      options.llmAnalysis && options.llmAnalysis !== 'none'
+        ? finished
+          ? 'Excellent work, the problem is solved!'
+          : `I checked ${lines.length} line(s): ${invalidSteps} need another look.`
+        : undefined,
+  };
+};
+
+const routes = [
+  ['POST', /^\/api\/validate\/line$/, async (_match, body) => {
+    const status = batchLine(String(body.currentLine || ''), body.lineIndex || 0, {}).status;
+    return {
+      isValid: status !== 'invalid',
+      isCorrect: status === 'valid',
+      feedback: status === 'valid' ? 'Looks good.' : 'Check this line.',
+      hint: status === 'valid' ? null : 'Compare with the previous line.',
+      errors: status === 'invalid' ? ['ALGEBRA_ERROR'] : [],
+      warnings: status === 'needs_review' ? ['UNVERIFIED'] : [],
+    };
+  }],
+  ['POST', /^\/api\/validate\/step$/, async (_match, body) => {
+    const isCorrect = !String(body.currentExpression || '').toLowerCase().includes(fixtures.batch.invalidMarker);
+    return {
+      isValid: true,
+      isCorrect,
+      feedback: isCorrect ? 'Valid step.' : 'This step changes the equation.',
+      hint: null,
+      explanation: `Operation: ${body.operation || 'unspecified'}`,
+      alternativeSteps: isCorrect ? [] : [String(body.previousExpression || '')],
+    };
+  }],
+  ['POST', /^\/api\/validate\/equivalence$/, async (_match, body) => {
+    const areEquivalent = normalize(body.expression1) === normalize(body.expression2);
+    return {
+      areEquivalent,
+      simplified1: normalize(body.expression1),
+      simplified2: normalize(body.expression2),
+      proof: areEquivalent ? 'The expressions are identical after normalization.' : 'The normalized expressions differ.',
+    };
+  }],
+  ['POST', /^\/api\/validate\/parse$/, async (_match, body) => {
+    const expression = String(body.expression || '');
+    const isValid = expression.trim().length > 0 && !expression.includes('\\text');
+    return {
+      parsed: isValid ? expression.replace(/[{}\\]/g, '') : '',
+      normalized: body.normalize === false ? undefined : normalize(expression),
+      latex: expression,
+      isValid,
+    };
+  }],
+  ['POST', /^\/api\/validate\/problem\/([^/]+)\/batch$/, async (match, body) => {
+    if (!PROBLEM_TYPES.includes(match[1])) {
+      throw new HttpError(404, 'unknown_problem_type', `Unknown problem type "${match[1]}"`);
+    }
+    return validateBatch(match[1], body);
+  }],
+  ['POST', /^\/api\/validate\/answer$/, async (_match, body) => {
+    const expected = findFixtureProblem(body.problemData)?.answer;
+    if (!expected) {
+      return { isCorrect: false, feedback: 'No fixture answer for this problem.' };
+    }
+    const student = body.studentAnswer || {};
+    const isCorrect = Object.entries(expected).every(([name, value]) => normalize(student[name]) === normalize(value));
+    return {
+      isCorrect,
+      expectedAnswer: expected,
+      feedback: isCorrect ? 'Correct!' : 'That answer does not match.',
+      verification: `Compared ${Object.keys(expected).join(', ')}`,
+    };
+  }],
+  ['POST', /^\/api\/hints$/, async (_match, body) => {
+    const hints = fixtures.hints[body.problemType] || fixtures.hints.substitution;
+    const level = Math.min(HINT_LEVELS.length - 1, (body.previousLines || []).length);
+    return {
+      hint: hints[level],
+      level: HINT_LEVELS[level],
+      nextStep: hints[Math.min(level + 1, hints.length - 1)],
+    };
+  }],
+  ['POST', /^\/math-calculator\/calculate$/, async (_match, body) => {
+    const expression = String(body.expression || '');
+    const type = body.calculation_type || 'simplify';
+    const result = fixtures.calculations[expression]?.[type];
+    return {
+      success: result !== undefined,
+      result: result ?? '',
+      latex_result: body.latex_output && result !== undefined ? result.replace(/\*\*/g, '^') : undefined,
+      calculation_type: type,
+      original_expression: expression,
+      error_message: result === undefined ? `No canned ${type} result for "${expression}"` : null,
+      metadata: { precision: body.precision ?? 15 },
+    };
+  }],
+  ['GET', /^\/problems$/, async (_match, _body, query) => paginate(sortedProblems(), query)],
+  ['GET', /^\/problems\/type\/([^/]+)$/, async (match, _body, query) =>
+    paginate(sortedProblems().filter(problem => problem.type === match[1]), query)],
+  ['POST', /^\/problems$/, async (_match, body) => {
+    validateProblemPayload(body, { partial: false });
+    if (problems.has(body.problem_code)) {
+      throw new HttpError(409, 'duplicate_problem_code', `Problem "${body.problem_code}" already exists`);
+    }
+    const now = new Date().toISOString();
+    const problem = { ...body, created_at: now, updated_at: now };
+    problems.set(problem.problem_code, problem);
+    return [201, toRecord(problem)];
+  }],
+  ['GET', /^\/problems\/([^/]+)$/, async match => toRecord(requireProblem(match[1]))],
+  ['PATCH', /^\/problems\/([^/]+)$/, async (match, body) => {
+    const existing = requireProblem(match[1]);
+    validateProblemPayload(body, { partial: true });
+    const problem = { ...existing, ...body, problem_code: existing.problem_code, updated_at: new Date().toISOString() };
+    problems.set(problem.problem_code, problem);
+    return toRecord(problem);
+  }],
+  ['DELETE', /^\/problems\/([^/]+)$/, async match => {
+    requireProblem(match[1]);
+    problems.delete(match[1]);
+    return [204, null];
+  }],
+];
+
+const send = (response, status, payload) => {
+  response.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    ...(payload === null ? {} : { 'Content-Type': 'application/json' }),
+  });
+  response.end(payload === null ? undefined : JSON.stringify(payload));
+};
+
+const decodePathSegment = part => {
+  try {
+    return decodeURIComponent(part);
+  } catch (error) {
+    if (error instanceof URIError) {
+      throw new HttpError(400, 'invalid_path', `Malformed escape in path segment "${part}"`);
+    }
+    throw error;
+  }
+};
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url || '/', `http://${request.headers.host || 'localhost'}`);
+
+  if (request.method === 'OPTIONS') {
+    send(response, 204, null);
+    return;
+  }
+
+  try {
+    for (const [method, pattern, handler] of routes) {
+      const match = url.pathname.match(pattern);
+      if (!match || method !== request.method) continue;
+      const segments = match.map((part, i) => (i === 0 ? part : decodePathSegment(part)));
+      const body = method === 'GET' || method === 'DELETE' ? {} : await readBody(request);
+      // Every route reads fields off the body, so anything but an object is rejected up front
+      if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+        throw new HttpError(400, 'invalid_body', 'Request body must be a JSON object', [
+          { loc: ['body'], msg: 'must be a JSON object', type: 'type_error.dict' },
+        ]);
+      }
+      const result = await handler(segments, body, url.searchParams);
+      const [status, payload] = Array.isArray(result) ? result : [200, result];
+      send(response, status, payload);
+      console.log(`${request.method} ${url.pathname} -> ${status}`);
+      return;
+    }
+    throw new HttpError(404, 'not_found', `No route for ${request.method} ${url.pathname}`);
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    send(response, status, {
+      error: {
+        code: error instanceof HttpError ? error.code : 'internal_error',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      ...(error instanceof HttpError && error.detail ? { detail: error.detail } : {}),
+    });
+    console.log(`${request.method} ${url.pathname} -> ${status}`);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock validation API listening on http://localhost:${PORT}`);
+});
@@ -1,8 +1,11 @@
 import { BrowserRouter as Router, Routes, Route, Link, useLocation } from 'react-router-dom';
 import Homepage from './components/Homepage';
 import SubstitutionProblemWithChat from './components/SubstitutionProblemWithChat';
+import ProblemPage from './components/ProblemPage';
 import ProblemInputPage from './components/ProblemInputPage';
 import ProblemCompletionPage from './components/ProblemCompletionPage';
+import AttemptHistoryPage from './components/AttemptHistoryPage';
+import AttemptReplayPage from './components/AttemptReplayPage';
 import MathWhiteboard from './components/MathWhiteboard';
 import WhiteboardIframe from './components/WhiteboardIframe';
 import './App.css';
@@ -28,7 +31,11 @@ function App() {
       <Routes>
         <Route path="/" element={<ProblemInputPage />} />
         <Route path="/problem-chat" element={<SubstitutionProblemWithChat />} />
+        <Route path="/problem-inline" element={<ProblemPage />} />
+        <Route path="/problem/:problemCode" element={<ProblemPage />} />
         <Route path="/problem-completion" element={<ProblemCompletionPage />} />
+        <Route path="/history" element={<AttemptHistoryPage />} />
+        <Route path="/history/:attemptId" element={<AttemptReplayPage />} />
         <Route path="/home" element={<Homepage />} />
         <Route path="/whiteboard" element={<MathWhiteboard />} />
         <Route path="/iframe" element={<WhiteboardIframe />} />
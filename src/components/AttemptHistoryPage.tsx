@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  attemptDuration,
+  attemptProblemPath,
+  deleteAttempt,
+  formatDuration,
+  listAttempts,
+  type AttemptRecord,
+} from '../utils/attemptHistoryStore';
+import './Demo.css';
+
+const summarizeProblem = ({ problem }: AttemptRecord) =>
+  problem.equations && problem.equations.length > 0 ? problem.equations.join(';  ') : problem.expression ?? '';
+
+const linkButtonStyle = (backgroundColor: string): React.CSSProperties => ({
+  padding: '0.4rem 0.75rem',
+  backgroundColor,
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '0.9rem',
+  textDecoration: 'none',
+});
+
+const AttemptHistoryPage = () => {
+  const [attempts, setAttempts] = useState<AttemptRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listAttempts()
+      .then(setAttempts)
+      .catch(err => {
+        console.error('Loading attempt history failed:', err);
+        setError('Your attempt history could not be read from this browser.');
+        setAttempts([]);
+      });
+  }, []);
+
+  const handleDelete = async (attempt: AttemptRecord) => {
+    if (!window.confirm(`Delete this attempt at "${attempt.problem.title || attempt.problem.type}"?`)) {
+      return;
+    }
+    try {
+      await deleteAttempt(attempt.id);
+      setAttempts(prev => prev?.filter(item => item.id !== attempt.id) ?? null);
+    } catch (err) {
+      console.error('Deleting attempt failed:', err);
+      setError('The attempt could not be deleted.');
+    }
+  };
+
+  return (
+    <div className="demo-container">
+      <div className="demo-content">
+        <div className="input-section" style={{ maxWidth: '900px', margin: '0 auto' }}>
+          <h1>Attempt History</h1>
+          <p style={{ marginBottom: '1.5rem', color: 'rgba(31, 41, 55, 0.8)' }}>
+            Every time you validate your work it is logged here, so you can replay how a solution came together.
+          </p>
+
+          {error && (
+            <div
+              style={{
+                padding: '0.75rem',
+                marginBottom: '1rem',
+                borderRadius: '6px',
+                backgroundColor: 'rgba(244, 67, 54, 0.15)',
+                border: '1px solid rgba(244, 67, 54, 0.4)',
+                color: '#ff9e9e',
+              }}
+            >
+              {error}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            {attempts === null && <div style={{ color: 'rgba(31, 41, 55, 0.8)' }}>Loading attempts…</div>}
+
+            {attempts?.length === 0 && !error && (
+              <div style={{ color: 'rgba(31, 41, 55, 0.8)' }}>
+                No attempts yet. <Link to="/">Pick a problem</Link> and validate your work to start one.
+              </div>
+            )}
+
+            {attempts?.map(attempt => {
+              const isSolved = attempt.solvedAt !== null;
+              return (
+                <div
+                  key={attempt.id}
+                  style={{
+                    padding: '1rem',
+                    borderRadius: '8px',
+                    border: '1px solid #e5e7eb',
+                    backgroundColor: '#ffffff',
+                    boxShadow: '0 1px 2px rgba(0, 0, 0, 0.04)',
+                  }}
+                >
+                  <div
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      gap: '0.75rem',
+                    }}
+                  >
+                    <div style={{ minWidth: 0 }}>
+                      <div style={{ fontWeight: 'bold', fontSize: '1rem' }}>
+                        {attempt.problem.title || '(Untitled)'}{' '}
+                        <span
+                          style={{
+                            marginLeft: '0.5rem',
+                            padding: '0.1rem 0.5rem',
+                            borderRadius: '999px',
+                            fontSize: '0.8rem',
+                            fontWeight: 'normal',
+                            color: 'white',
+                            backgroundColor: isSolved ? '#4caf50' : '#ff9800',
+                          }}
+                        >
+                          {isSolved ? 'Solved' : 'In progress'}
+                        </span>
+                      </div>
+                      <div style={{ fontFamily: 'monospace', fontSize: '0.9rem', color: 'rgba(55, 65, 81, 0.85)' }}>
+                        {summarizeProblem(attempt)}
+                      </div>
+                      <div style={{ fontSize: '0.85rem', color: 'rgba(55, 65, 81, 0.85)', marginTop: '0.25rem' }}>
+                        {new Date(attempt.startedAt).toLocaleString()} · {attempt.runs.length} validation
+                        {attempt.runs.length === 1 ? ' run' : ' runs'} · {attempt.hints.length}
+                        {attempt.hints.length === 1 ? ' hint' : ' hints'} ·{' '}
+                        {isSolved ? 'solved in ' : 'active for '}
+                        {formatDuration(attemptDuration(attempt))}
+                      </div>
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+                      <Link to={`/history/${encodeURIComponent(attempt.id)}`} style={linkButtonStyle('#646cff')}>
+                        ⏯ Replay
+                      </Link>
+                      <Link to={attemptProblemPath(attempt)} style={linkButtonStyle('#4caf50')}>
+                        ▶ Open problem
+                      </Link>
+                      <button onClick={() => void handleDelete(attempt)} style={linkButtonStyle('#f44336')}>
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttemptHistoryPage;
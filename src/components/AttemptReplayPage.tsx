@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import MathLiveMultilineEditor, { type LineDecoration } from './MathLiveMultilineEditor';
+import {
+  attemptDuration,
+  attemptProblemPath,
+  formatDuration,
+  getAttempt,
+  type AttemptRecord,
+  type AttemptRun,
+} from '../utils/attemptHistoryStore';
+import './Demo.css';
+
+const STATUS_LABELS: Record<string, { label: string; color: string }> = {
+  valid: { label: '✓ Correct', color: '#4caf50' },
+  needs_review: { label: '? Needs review', color: '#ff9800' },
+  invalid: { label: '✗ Incorrect', color: '#f44336' },
+};
+
+const messageStyle: React.CSSProperties = {
+  maxWidth: '600px',
+  margin: '4rem auto',
+  textAlign: 'center',
+};
+
+const cardStyle: React.CSSProperties = {
+  padding: '1rem',
+  borderRadius: '8px',
+  border: '1px solid #e5e7eb',
+  backgroundColor: '#ffffff',
+  marginBottom: '1rem',
+};
+
+const toLineDecorations = (run: AttemptRun) =>
+  new Map(
+    run.results.flatMap(({ status, feedback }, index): [number, LineDecoration][] =>
+      status ? [[index, { status, feedback: feedback ?? undefined }]] : []
+    )
+  );
+
+/**
+ * Steps through the validation runs of one logged attempt
+ */
+const AttemptReplayPage = () => {
+  const { attemptId } = useParams();
+  // Result of the last load, tagged with the id it belongs to
+  const [loaded, setLoaded] = useState<{ id: string; attempt: AttemptRecord | null } | null>(null);
+  const [step, setStep] = useState(0);
+
+  useEffect(() => {
+    if (!attemptId) return;
+    let cancelled = false;
+    getAttempt(attemptId)
+      .then(attempt => {
+        if (cancelled) return;
+        setLoaded({ id: attemptId, attempt });
+        setStep(attempt ? Math.max(0, attempt.runs.length - 1) : 0);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Loading attempt failed:', error);
+        setLoaded({ id: attemptId, attempt: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attemptId]);
+
+  const attempt = loaded && loaded.id === attemptId ? loaded.attempt : undefined;
+  const run = attempt?.runs[step];
+  const lineDecorations = useMemo(() => (run ? toLineDecorations(run) : undefined), [run]);
+
+  if (attempt === undefined) {
+    return (
+      <div className="demo-container">
+        <div style={messageStyle}>
+          <p>Loading attempt…</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (attempt === null) {
+    return (
+      <div className="demo-container">
+        <div style={messageStyle}>
+          <h2>Attempt not found</h2>
+          <p>It may have been deleted, or it was recorded in another browser.</p>
+          <p>
+            <Link to="/history">Back to history</Link>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const previousRunAt = step > 0 ? attempt.runs[step - 1].at : attempt.startedAt;
+  // Hints requested between the previous run and this one
+  const hints = run ? attempt.hints.filter(hint => hint.at > previousRunAt && hint.at <= run.at) : [];
+  const isSolved = attempt.solvedAt !== null;
+
+  return (
+    <div className="demo-container">
+      <div className="demo-content">
+        <div className="input-section" style={{ maxWidth: '900px', margin: '0 auto' }}>
+          <p style={{ marginBottom: '0.5rem' }}>
+            <Link to="/history">← All attempts</Link>
+          </p>
+          <h1>{attempt.problem.title || 'Attempt replay'}</h1>
+          {attempt.problem.description && (
+            <p style={{ color: 'rgba(31, 41, 55, 0.8)' }}>{attempt.problem.description}</p>
+          )}
+          <p style={{ color: 'rgba(31, 41, 55, 0.8)', marginBottom: '1.5rem' }}>
+            Started {new Date(attempt.startedAt).toLocaleString()} ·{' '}
+            {isSolved
+              ? `solved in ${formatDuration(attemptDuration(attempt))}`
+              : `not solved yet, active for ${formatDuration(attemptDuration(attempt))}`}{' '}
+            · {attempt.hints.length} {attempt.hints.length === 1 ? 'hint' : 'hints'} ·{' '}
+            <Link to={attemptProblemPath(attempt)}>Open problem</Link>
+          </p>
+
+          {attempt.runs.length === 0 || !run ? (
+            <div style={cardStyle}>No validation runs were recorded for this attempt.</div>
+          ) : (
+            <>
+              <div style={{ ...cardStyle, display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                <button
+                  onClick={() => setStep(current => current - 1)}
+                  disabled={step === 0}
+                  style={{ padding: '0.4rem 0.75rem', borderRadius: '6px', fontSize: '0.9rem' }}
+                >
+                  ◀ Prev
+                </button>
+                <input
+                  type="range"
+                  min={0}
+                  max={attempt.runs.length - 1}
+                  value={step}
+                  onChange={event => setStep(Number(event.target.value))}
+                  style={{ flex: 1 }}
+                  aria-label="Validation run"
+                />
+                <button
+                  onClick={() => setStep(current => current + 1)}
+                  disabled={step === attempt.runs.length - 1}
+                  style={{ padding: '0.4rem 0.75rem', borderRadius: '6px', fontSize: '0.9rem' }}
+                >
+                  Next ▶
+                </button>
+                <span style={{ fontSize: '0.9rem', color: 'rgba(31, 41, 55, 0.8)', whiteSpace: 'nowrap' }}>
+                  Run {step + 1} of {attempt.runs.length} · +{formatDuration(run.at - attempt.startedAt)}
+                </span>
+              </div>
+
+              {hints.length > 0 && (
+                <div style={{ ...cardStyle, backgroundColor: 'rgba(255, 193, 7, 0.1)', borderColor: '#ffc107' }}>
+                  <strong>Hints requested before this run</strong>
+                  {hints.map(hint => (
+                    <div key={hint.at} style={{ marginTop: '0.5rem', fontSize: '0.9rem' }}>
+                      <span style={{ color: 'rgba(31, 41, 55, 0.6)' }}>{hint.level} hint:</span> {hint.hint}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div style={{ marginBottom: '1rem' }}>
+                <MathLiveMultilineEditor
+                  // Remount per run so the read-only editor shows exactly what was submitted
+                  key={run.at}
+                  initialEquations={run.lines}
+                  notes={run.notes}
+                  showAnnotations={run.notes.some(note => note.trim() !== '')}
+                  onChange={() => {}} // Read-only
+                  lineDecorations={lineDecorations}
+                  containerStyle={{ pointerEvents: 'none', opacity: 0.9 }}
+                  virtualKeyboard={false}
+                />
+              </div>
+
+              <div style={cardStyle}>
+                <strong>Line feedback</strong>
+                {run.results.every(result => !result.status) ? (
+                  <div style={{ marginTop: '0.5rem', fontSize: '0.9rem' }}>No lines were checked in this run.</div>
+                ) : (
+                  run.results.map((result, index) =>
+                    result.status ? (
+                      <div key={index} style={{ marginTop: '0.5rem', fontSize: '0.9rem' }}>
+                        <span style={{ color: STATUS_LABELS[result.status].color, fontWeight: 'bold' }}>
+                          Line {index + 1}: {STATUS_LABELS[result.status].label}
+                        </span>
+                        {result.feedback && <span> — {result.feedback}</span>}
+                      </div>
+                    ) : null
+                  )
+                )}
+                {run.answerFeedback && (
+                  <div style={{ marginTop: '0.75rem', fontSize: '0.9rem' }}>
+                    <strong>Answer:</strong> {run.answerFeedback}
+                  </div>
+                )}
+                {run.isSolved && (
+                  <div style={{ marginTop: '0.75rem', color: '#4caf50', fontWeight: 'bold' }}>
+                    🎉 Solved with this run
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttemptReplayPage;
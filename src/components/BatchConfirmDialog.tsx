@@ -0,0 +1,130 @@
+import type { ReactNode } from 'react';
+
+interface BatchConfirmDialogProps {
+  title: string;
+  /** Codes of every problem the action will change */
+  problemCodes: string[];
+  confirmLabel: string;
+  confirmColor: string;
+  /** Extra inputs for the action, shown above the list of codes */
+  children?: ReactNode;
+  /** Set while the action runs; the dialog can then no longer be dismissed */
+  progress: { done: number; total: number } | null;
+  confirmDisabled?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const buttonStyle = (backgroundColor: string, disabled = false): React.CSSProperties => ({
+  padding: '0.5rem 0.9rem',
+  backgroundColor,
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontSize: '0.9rem',
+  opacity: disabled ? 0.6 : 1,
+});
+
+/**
+ * Asks before a batch action runs, listing every problem it will change
+ */
+const BatchConfirmDialog = ({
+  title,
+  problemCodes,
+  confirmLabel,
+  confirmColor,
+  children,
+  progress,
+  confirmDisabled = false,
+  onConfirm,
+  onCancel,
+}: BatchConfirmDialogProps) => {
+  const isRunning = progress !== null;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={title}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 1000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '1rem',
+        backgroundColor: 'rgba(17, 24, 39, 0.45)',
+      }}
+    >
+      <div
+        style={{
+          width: 'min(520px, 100%)',
+          maxHeight: '85vh',
+          overflowY: 'auto',
+          padding: '1.25rem',
+          borderRadius: '8px',
+          backgroundColor: '#ffffff',
+          color: '#111827',
+          boxShadow: '0 10px 30px rgba(0, 0, 0, 0.25)',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '1rem',
+        }}
+      >
+        <h2 style={{ margin: 0 }}>{title}</h2>
+
+        {children}
+
+        <div>
+          <div style={{ marginBottom: '0.35rem', fontSize: '0.9rem', color: 'rgba(31, 41, 55, 0.8)' }}>
+            {problemCodes.length} {problemCodes.length === 1 ? 'problem' : 'problems'}:
+          </div>
+          <ul
+            style={{
+              margin: 0,
+              padding: '0.5rem 0.75rem 0.5rem 1.75rem',
+              maxHeight: '200px',
+              overflowY: 'auto',
+              border: '1px solid #e5e7eb',
+              borderRadius: '6px',
+              backgroundColor: '#f9fafb',
+              fontFamily: 'monospace',
+              fontSize: '0.85rem',
+            }}
+          >
+            {problemCodes.map(code => (
+              <li key={code}>{code}</li>
+            ))}
+          </ul>
+        </div>
+
+        {progress && (
+          <div style={{ fontSize: '0.9rem' }}>
+            Working… {progress.done} of {progress.total}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '0.5rem' }}>
+          <button
+            onClick={onCancel}
+            disabled={isRunning}
+            style={{ ...buttonStyle('#f3f4f6', isRunning), color: '#111827', border: '1px solid #e5e7eb' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={isRunning || confirmDisabled}
+            style={buttonStyle(confirmColor, isRunning || confirmDisabled)}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchConfirmDialog;
@@ -0,0 +1,100 @@
+import { useState, useSyncExternalStore } from 'react';
+import {
+  clearContractDrift,
+  getContractDriftReports,
+  subscribeToContractDrift,
+} from '../utils/contractDrift';
+
+/**
+ * Dev-only badge listing API responses that did not match their schema.
+ * Hidden until the first drift report arrives.
+ */
+const ContractDriftOverlay = () => {
+  const reports = useSyncExternalStore(subscribeToContractDrift, getContractDriftReports);
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (reports.length === 0) {
+    return null;
+  }
+
+  const total = reports.reduce((sum, report) => sum + report.count, 0);
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        right: '1rem',
+        bottom: '1rem',
+        zIndex: 10000,
+        maxWidth: 'min(480px, calc(100vw - 2rem))',
+        fontFamily: 'monospace',
+        fontSize: '0.8rem',
+      }}
+    >
+      {isOpen && (
+        <div
+          style={{
+            marginBottom: '0.5rem',
+            maxHeight: '50vh',
+            overflowY: 'auto',
+            padding: '0.75rem',
+            backgroundColor: '#1f2937',
+            color: '#f9fafb',
+            borderRadius: '8px',
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.5rem' }}>
+            <strong>API contract drift</strong>
+            <button
+              onClick={clearContractDrift}
+              style={{
+                padding: '0.1rem 0.5rem',
+                backgroundColor: 'transparent',
+                color: '#f9fafb',
+                border: '1px solid rgba(249, 250, 251, 0.4)',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '0.75rem',
+              }}
+            >
+              Clear
+            </button>
+          </div>
+          {reports.map(report => (
+            <div
+              key={`${report.endpoint}|${report.path}|${report.message}`}
+              style={{ padding: '0.4rem 0', borderTop: '1px solid rgba(249, 250, 251, 0.15)' }}
+            >
+              <div style={{ color: '#fbbf24' }}>
+                {report.endpoint}
+                {report.count > 1 && ` ×${report.count}`}
+              </div>
+              <div>
+                <span style={{ color: '#93c5fd' }}>{report.path}</span> {report.message}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          float: 'right',
+          padding: '0.4rem 0.75rem',
+          backgroundColor: '#f59e0b',
+          color: '#111827',
+          border: 'none',
+          borderRadius: '999px',
+          cursor: 'pointer',
+          fontWeight: 'bold',
+          boxShadow: '0 2px 6px rgba(0, 0, 0, 0.25)',
+        }}
+      >
+        ⚠ {total} contract drift{total === 1 ? '' : 's'}
+      </button>
+    </div>
+  );
+};
+
+export default ContractDriftOverlay;
@@ -1,276 +1,60 @@
 import { useState } from 'react';
 import MathLiveMultilineEditor from './MathLiveMultilineEditor';
-import { 
-  validateProblemBatch, 
-  getHint, 
-  validateAnswer,
-  type HintResponse,
-  type BatchValidationLine,
-  type ValidationLineStatus,
-} from '../utils/validationApi';
+import { useProblemValidation, type LineFeedback } from '../utils/useProblemValidation';
+import type { AnnotatedLine } from '../utils/lineOperations';
 import './Demo.css';
 
-interface LineFeedback {
-  isValid: boolean;
-  isCorrect: boolean;
-  feedback?: string;
-  nextExpectedStep?: string;
-  status?: ValidationLineStatus;
-  operation?: string;
-  errorCode?: string;
-  errorExplanation?: string;
-  alternativeExplanation?: string;
-  diagnostics?: Record<string, any>;
-  hint?: string | null;
-  confidence?: number | null;
-  sympySimplified?: string;
-  sympyNormalized?: string;
-}
+const problem = {
+  type: 'factor',
+  title: 'Difference of Squares',
+  description: 'Factor the following expression using the difference of squares pattern:',
+  expression: 'x^2 - 16',
+  solution: [
+    'Step 1: Identify the pattern',
+    'x^2 - 16 = x^2 - 4^2',
+    'Step 2: Apply difference of squares formula',
+    'a^2 - b^2 = (a + b)(a - b)',
+    'Step 3: Substitute a = x and b = 4',
+    'x^2 - 16 = (x + 4)(x - 4)',
+    'Step 4: Final answer',
+    '(x + 4)(x - 4)',
+  ],
+};
+
+// A last line with parentheses is taken as the factored answer
+const extractFactoredAnswer = (lines: string[]) => {
+  const lastLine = lines[lines.length - 1];
+  return lastLine.includes('(') && lastLine.includes(')') ? { factored: lastLine } : null;
+};
 
 const DifferenceOfSquaresProblem = () => {
-  const [work, setWork] = useState<string[]>(['']);
+  const {
+    work,
+    notes,
+    updateWork,
+    lineFeedback,
+    overallProgress,
+    solutionCheck,
+    answerFeedback,
+    isAnswerCorrect,
+    isValidating,
+    hint,
+    hintLevel,
+    validateAll,
+    requestHint,
+    clearHint,
+  } = useProblemValidation({ problem, extractAnswer: extractFactoredAnswer });
   const [showSolution, setShowSolution] = useState(false);
-  const [lineFeedback, setLineFeedback] = useState<Map<number, LineFeedback>>(new Map());
-  const [overallProgress, setOverallProgress] = useState<{
-    stepsCompleted: number;
-    totalSteps: number;
-    onTrack: boolean;
-  } | null>(null);
-  const [isValidating, setIsValidating] = useState(false);
-  const [hint, setHint] = useState<string | null>(null);
-  const [hintLevel, setHintLevel] = useState<'gentle' | 'moderate' | 'strong' | null>(null);
-  const [answerFeedback, setAnswerFeedback] = useState<string | null>(null);
-  const [isAnswerCorrect, setIsAnswerCorrect] = useState<boolean | null>(null);
   const [expandedFeedbackLines, setExpandedFeedbackLines] = useState<Set<number>>(new Set());
-  const [solutionCheck, setSolutionCheck] = useState<{
-    isSolved: boolean;
-    discrepancies: string[];
-    recommendedAction: string | null;
-  } | null>(null);
-
-  const problem = {
-    type: 'factor',
-    title: 'Difference of Squares',
-    description: 'Factor the following expression using the difference of squares pattern:',
-    expression: 'x^2 - 16',
-    solution: [
-      'Step 1: Identify the pattern',
-      'x^2 - 16 = x^2 - 4^2',
-      'Step 2: Apply difference of squares formula',
-      'a^2 - b^2 = (a + b)(a - b)',
-      'Step 3: Substitute a = x and b = 4',
-      'x^2 - 16 = (x + 4)(x - 4)',
-      'Step 4: Final answer',
-      '(x + 4)(x - 4)',
-    ],
-  };
 
   const handleValidateAll = async () => {
-    const nonEmptyLines = work.filter(line => line.trim().length > 0);
-
-    if (nonEmptyLines.length === 0) {
-      setLineFeedback(new Map());
-      setOverallProgress(null);
-      setAnswerFeedback(null);
-      setIsAnswerCorrect(null);
-      setSolutionCheck(null);
-      return;
-    }
-
-    setIsValidating(true);
     setExpandedFeedbackLines(new Set());
-    setAnswerFeedback(null);
-    setIsAnswerCorrect(null);
-
-    try {
-      const batchResult = await validateProblemBatch(
-        problem.type,
-        { expression: problem.expression },
-        nonEmptyLines,
-        {
-          includeTelemetry: true,
-          requestHints: false,
-          llmAnalysis: 'summary',
-        }
-      );
-
-      const feedbackEntries = new Map<number, LineFeedback>();
-      const responseLines = batchResult.lines ?? [];
-
-      responseLines.forEach((line: BatchValidationLine, idx) => {
-        const resolvedIndex =
-          typeof line.index === 'number'
-            ? line.index
-            : typeof line.lineIndex === 'number'
-            ? line.lineIndex
-            : idx;
-
-        feedbackEntries.set(resolvedIndex, {
-          isValid: line.status !== 'invalid',
-          isCorrect: line.status === 'valid',
-          feedback: line.feedback || line.llm?.summary,
-          nextExpectedStep: line.llm?.nextStepHint,
-          status: line.status,
-          operation: line.operation,
-          errorCode: line.errorCode,
-          errorExplanation: line.diagnostics?.errorExplanation || line.diagnostics?.explanation,
-          alternativeExplanation: line.diagnostics?.alternative || line.diagnostics?.alternativeExplanation || line.llm?.summary,
-          diagnostics: line.diagnostics,
-          hint: line.llm?.nextStepHint || null,
-          confidence: line.confidence ?? null,
-          sympySimplified: line.sympy?.simplified,
-          sympyNormalized: line.sympy?.normalized,
-        });
-      });
-
-      // Enhance feedback with solution-level insights from sympyCheck
-      if (batchResult.overall?.sympyCheck) {
-        const sympyCheck = batchResult.overall.sympyCheck;
-        const discrepancies = sympyCheck.discrepancies;
-        
-        // If solution is not complete, try to identify problematic lines
-        if (!sympyCheck.isSolved && discrepancies && discrepancies.length > 0) {
-          responseLines.forEach((line: BatchValidationLine, idx) => {
-            const resolvedIndex =
-              typeof line.index === 'number'
-                ? line.index
-                : typeof line.lineIndex === 'number'
-                ? line.lineIndex
-                : idx;
-            
-            const existingFeedback = feedbackEntries.get(resolvedIndex);
-            if (existingFeedback) {
-              // If line has needs_review or invalid status, it's likely problematic
-              if (line.status === 'needs_review' || line.status === 'invalid') {
-                const llmSummary = line.llm?.summary;
-                // Enhance feedback with discrepancy context if LLM identified it
-                if (llmSummary && discrepancies.some(d => 
-                  llmSummary.toLowerCase().includes(d.toLowerCase().substring(0, 20))
-                )) {
-                  feedbackEntries.set(resolvedIndex, {
-                    ...existingFeedback,
-                    feedback: existingFeedback.feedback 
-                      ? `${existingFeedback.feedback} (${discrepancies.join('; ')})`
-                      : discrepancies.join('; '),
-                    // Preserve error and alternative explanation fields
-                    errorCode: existingFeedback.errorCode || line.errorCode,
-                    errorExplanation: existingFeedback.errorExplanation || line.diagnostics?.errorExplanation || line.diagnostics?.explanation,
-                    alternativeExplanation: existingFeedback.alternativeExplanation || line.diagnostics?.alternative || line.diagnostics?.alternativeExplanation || llmSummary,
-                  });
-                }
-              }
-            }
-          });
-        }
-      }
-
-      const orderedFeedback = new Map(
-        Array.from(feedbackEntries.entries()).sort((a, b) => a[0] - b[0])
-      );
-
-      setLineFeedback(orderedFeedback);
-
-      if (batchResult.overall) {
-        const stepsCompleted =
-          batchResult.overall.validSteps ??
-          responseLines.filter(line => line.status === 'valid').length;
-
-        setOverallProgress({
-          stepsCompleted,
-          totalSteps: responseLines.length || nonEmptyLines.length,
-          onTrack: (batchResult.overall.invalidSteps ?? 0) === 0,
-        });
-
-        // Use sympyCheck for solution-level validation
-        if (batchResult.overall.sympyCheck) {
-          const sympyCheck = batchResult.overall.sympyCheck;
-          setSolutionCheck({
-            isSolved: sympyCheck.isSolved ?? false,
-            discrepancies: sympyCheck.discrepancies ?? [],
-            recommendedAction: batchResult.overall.recommendedNextAction ?? null,
-          });
-
-          // If sympyCheck says it's solved, mark as correct
-          if (sympyCheck.isSolved) {
-            setIsAnswerCorrect(true);
-            setAnswerFeedback('Perfect! Your solution is correct and complete.');
-          } else if (sympyCheck.discrepancies && sympyCheck.discrepancies.length > 0) {
-            setIsAnswerCorrect(false);
-            setAnswerFeedback(
-              `Solution incomplete: ${sympyCheck.discrepancies.join('. ')}`
-            );
-          }
-        } else if (batchResult.overall.finalAnswer) {
-          // Fallback to finalAnswer if sympyCheck not available
-          setIsAnswerCorrect(batchResult.overall.finalAnswer.isCorrect ?? null);
-          setAnswerFeedback(batchResult.overall.finalAnswer.feedback ?? null);
-        }
-      } else {
-        setOverallProgress(null);
-        setSolutionCheck(null);
-      }
-
-      // Fallback answer check for factored form
-      if (!batchResult.overall?.finalAnswer && !batchResult.overall?.sympyCheck) {
-        const lastLine = plainMathLines[plainMathLines.length - 1] || '';
-        if (lastLine && lastLine.includes('(') && lastLine.includes(')')) {
-          try {
-            const answerResult = await validateAnswer(
-              problem.type,
-              { expression: problem.expression },
-              {
-                factored: lastLine,
-              }
-            );
-            
-            setIsAnswerCorrect(answerResult.isCorrect);
-            setAnswerFeedback(answerResult.feedback || null);
-          } catch (error) {
-            console.error('Answer validation error:', error);
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Validation error:', error);
-      setLineFeedback(new Map());
-      setOverallProgress(null);
-      setSolutionCheck(null);
-    } finally {
-      setIsValidating(false);
-    }
+    await validateAll();
   };
 
-  const handleWorkChange = (newWork: string[]) => {
-    setWork(newWork);
-    setHint(null);
-    setHintLevel(null);
-    setAnswerFeedback(null);
-    setIsAnswerCorrect(null);
-    setLineFeedback(new Map());
-    setOverallProgress(null);
+  const handleWorkChange = (newWork: string[], lines: AnnotatedLine[]) => {
+    updateWork(newWork, lines);
     setExpandedFeedbackLines(new Set());
-    setSolutionCheck(null);
-  };
-
-  const handleGetHint = async () => {
-    const nonEmptyLines = work.filter(line => line.trim().length > 0);
-    if (nonEmptyLines.length === 0) return;
-
-    // Convert LaTeX to plain math before sending to API
-    const lastLine = nonEmptyLines[nonEmptyLines.length - 1] || '';
-    
-    try {
-      const hintResult: HintResponse = await getHint(
-        problem.type,
-        lastLine,
-        nonEmptyLines.slice(0, -1)
-      );
-      setHint(hintResult.hint);
-      setHintLevel(hintResult.level);
-    } catch (error) {
-      console.error('Error getting hint:', error);
-      setHint('Unable to generate hint at this time. Please try again.');
-    }
   };
 
   const getFeedbackColor = (feedback: LineFeedback) => {
@@ -395,7 +179,7 @@ const DifferenceOfSquaresProblem = () => {
                 <strong>💡 Hint ({hintLevel}):</strong> {hint}
               </div>
               <button
-                onClick={() => setHint(null)}
+                onClick={clearHint}
                 style={{
                   background: 'none',
                   border: 'none',
@@ -486,7 +270,7 @@ const DifferenceOfSquaresProblem = () => {
                 </span>
               )}
               <button
-                onClick={handleGetHint}
+                onClick={() => void requestHint()}
                 style={{
                   padding: '0.5rem 1rem',
                   backgroundColor: '#ff9800',
@@ -536,8 +320,10 @@ const DifferenceOfSquaresProblem = () => {
           <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-start' }}>
             <div style={{ flex: 1 }}>
               <MathLiveMultilineEditor
-                initialEquations={work}
+                value={work}
                 onChange={handleWorkChange}
+                notes={notes}
+                showAnnotations={true}
                 minLines={1}
                 showLineNumbers={true}
                 virtualKeyboard={true}
@@ -0,0 +1,27 @@
+import type { ProblemDifficulty } from '../utils/validationApi';
+
+const DIFFICULTY_COLORS: Record<ProblemDifficulty, string> = {
+  easy: '#4caf50',
+  medium: '#ff9800',
+  hard: '#f44336',
+};
+
+const DifficultyBadge = ({ difficulty }: { difficulty: ProblemDifficulty }) => (
+  <span
+    style={{
+      display: 'inline-block',
+      padding: '0.1rem 0.5rem',
+      borderRadius: '999px',
+      fontSize: '0.75rem',
+      fontWeight: 'bold',
+      color: 'white',
+      backgroundColor: DIFFICULTY_COLORS[difficulty],
+      textTransform: 'capitalize',
+      verticalAlign: 'middle',
+    }}
+  >
+    {difficulty}
+  </span>
+);
+
+export default DifficultyBadge;
@@ -1,5 +1,9 @@
-import { useState } from 'react';
-import MathLiveMultilineEditor from './MathLiveMultilineEditor';
+import { useRef, useState } from 'react';
+import MathLiveMultilineEditor, {
+  type LineHistoryState,
+  type MathLiveMultilineEditorHandle,
+} from './MathLiveMultilineEditor';
+import { formatAlignBlock } from '../utils/mathClipboard';
 import './Demo.css';
 
 const MathLiveMultilineDemo = () => {
@@ -8,6 +12,16 @@ const MathLiveMultilineDemo = () => {
     'y = mx + b',
     'E = mc^2',
   ]);
+  const editorRef = useRef<MathLiveMultilineEditorHandle>(null);
+  const [history, setHistory] = useState<LineHistoryState>({ canUndo: false, canRedo: false });
+  const [alignEquals, setAlignEquals] = useState(false);
+
+  const historyButtonStyle = (enabled: boolean): React.CSSProperties => ({
+    padding: '0.25rem 0.75rem',
+    fontSize: '0.85rem',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5,
+  });
 
   const handleLatexChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const lines = e.target.value.split('\n');
@@ -24,9 +38,34 @@ const MathLiveMultilineDemo = () => {
       <div className="demo-content">
         <div className="input-section">
           <h2>Equations</h2>
+          <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
+            <button
+              onClick={() => editorRef.current?.undo()}
+              disabled={!history.canUndo}
+              title="Undo (Ctrl+Z)"
+              style={historyButtonStyle(history.canUndo)}
+            >
+              ↶ Undo
+            </button>
+            <button
+              onClick={() => editorRef.current?.redo()}
+              disabled={!history.canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              style={historyButtonStyle(history.canRedo)}
+            >
+              ↷ Redo
+            </button>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', marginLeft: 'auto', fontSize: '0.85rem' }}>
+              <input type="checkbox" checked={alignEquals} onChange={e => setAlignEquals(e.target.checked)} />
+              Align =
+            </label>
+          </div>
           <MathLiveMultilineEditor
-            initialEquations={equations}
+            ref={editorRef}
+            value={equations}
             onChange={setEquations}
+            onHistoryChange={setHistory}
+            alignEquals={alignEquals}
             minLines={1}
             showLineNumbers={true}
             virtualKeyboard={true}
@@ -37,14 +76,18 @@ const MathLiveMultilineDemo = () => {
         </div>
 
         <div className="output-section">
-          <h2>LaTeX Output (one per line)</h2>
-          <textarea
-            value={equations.join('\n')}
-            onChange={handleLatexChange}
-            className="latex-output"
-            rows={6}
-            placeholder="Enter LaTeX equations, one per line..."
-          />
+          <h2>{alignEquals ? 'LaTeX Output (align*)' : 'LaTeX Output (one per line)'}</h2>
+          {alignEquals ? (
+            <textarea value={formatAlignBlock(equations)} readOnly className="latex-output" rows={6} />
+          ) : (
+            <textarea
+              value={equations.join('\n')}
+              onChange={handleLatexChange}
+              className="latex-output"
+              rows={6}
+              placeholder="Enter LaTeX equations, one per line..."
+            />
+          )}
         </div>
 
         <div className="info-section">
@@ -52,6 +95,12 @@ const MathLiveMultilineDemo = () => {
           <ul>
             <li>Press Enter to create a new equation line</li>
             <li>Press Backspace on empty line to delete it</li>
+            <li>Backspace at the start of a line joins it with the line above</li>
+            <li>Ctrl+Z / Ctrl+Shift+Z undo and redo across lines</li>
+            <li>Alt+↑/↓ moves a line, Shift+Alt+↑/↓ duplicates it</li>
+            <li>Click line numbers to select lines (Shift+click for a range), drag them to reorder</li>
+            <li>Delete, Ctrl+C and Ctrl+X act on the selected lines as a block</li>
+            <li>Align mode lines up the = signs; start a line with = to continue the derivation</li>
             <li>Numbered lines for easy reference</li>
             <li>Document-like seamless editing experience</li>
             <li>Virtual keyboard support (click keyboard icon in field)</li>
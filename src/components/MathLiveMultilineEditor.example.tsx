@@ -5,8 +5,9 @@
  * component in your own pages/components.
  */
 
-import { useState } from 'react';
-import MathLiveMultilineEditor from './MathLiveMultilineEditor';
+import { useRef, useState } from 'react';
+import MathLiveMultilineEditor, { type MathLiveMultilineEditorHandle } from './MathLiveMultilineEditor';
+import type { AnnotatedLine } from '../utils/lineOperations';
 
 // Example 1: Basic usage
 export const BasicExample = () => {
@@ -16,7 +17,7 @@ export const BasicExample = () => {
     <div>
       <h2>Basic Example</h2>
       <MathLiveMultilineEditor
-        initialEquations={equations}
+        value={equations}
         onChange={setEquations}
       />
       <pre>{JSON.stringify(equations, null, 2)}</pre>
@@ -32,7 +33,7 @@ export const StyledExample = () => {
     <div>
       <h2>Styled Example</h2>
       <MathLiveMultilineEditor
-        initialEquations={equations}
+        value={equations}
         onChange={setEquations}
         className="my-custom-editor"
         containerStyle={{
@@ -53,7 +54,7 @@ export const NoLineNumbersExample = () => {
     <div>
       <h2>No Line Numbers</h2>
       <MathLiveMultilineEditor
-        initialEquations={equations}
+        value={equations}
         onChange={setEquations}
         showLineNumbers={false}
       />
@@ -69,7 +70,7 @@ export const MinLinesExample = () => {
     <div>
       <h2>Minimum 3 Lines</h2>
       <MathLiveMultilineEditor
-        initialEquations={equations}
+        value={equations}
         onChange={setEquations}
         minLines={3}
       />
@@ -85,7 +86,7 @@ export const NoKeyboardExample = () => {
     <div>
       <h2>No Virtual Keyboard</h2>
       <MathLiveMultilineEditor
-        initialEquations={equations}
+        value={equations}
         onChange={setEquations}
         virtualKeyboard={false}
       />
@@ -111,7 +112,7 @@ export const ControlledExample = () => {
       <button onClick={handleReset}>Reset</button>
       <button onClick={handleAddLine}>Add Line</button>
       <MathLiveMultilineEditor
-        initialEquations={equations}
+        value={equations}
         onChange={setEquations}
       />
       <div>
@@ -126,3 +127,50 @@ export const ControlledExample = () => {
   );
 };
 
+// Example 7: Driving the editor through its ref
+export const ImperativeExample = () => {
+  const [equations, setEquations] = useState(['2x + 3 = 7']);
+  const editorRef = useRef<MathLiveMultilineEditorHandle>(null);
+
+  const handleNextStep = () => {
+    const line = editorRef.current?.getSelection()?.line ?? equations.length - 1;
+    editorRef.current?.insertLineAfter(line, '2x = 4');
+    editorRef.current?.focusLine(line + 1);
+  };
+
+  return (
+    <div>
+      <h2>Imperative Handle</h2>
+      <button onClick={handleNextStep}>Insert next step</button>
+      <button onClick={() => editorRef.current?.executeCommand('selectAll', 0)}>Select first line</button>
+      <button onClick={() => editorRef.current?.setLine(0, '3x - 1 = 8')}>Replace first line</button>
+      <MathLiveMultilineEditor
+        ref={editorRef}
+        value={equations}
+        onChange={setEquations}
+      />
+    </div>
+  );
+};
+
+// Example 8: Step annotations
+export const AnnotatedExample = () => {
+  const [lines, setLines] = useState<AnnotatedLine[]>([
+    { latex: '2x + 3 = 7', note: 'Given' },
+    { latex: '2x = 4', note: 'Subtract 3 from both sides' },
+  ]);
+
+  return (
+    <div>
+      <h2>Step Annotations</h2>
+      <MathLiveMultilineEditor
+        value={lines.map(line => line.latex)}
+        notes={lines.map(line => line.note)}
+        onChange={(_, nextLines) => setLines(nextLines)}
+        showAnnotations={true}
+        annotationOptions={['Given', 'Subtract 3 from both sides', 'Divide both sides by 2']}
+      />
+      <pre>{JSON.stringify(lines, null, 2)}</pre>
+    </div>
+  );
+};
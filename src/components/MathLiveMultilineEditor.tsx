@@ -1,15 +1,154 @@
-import { useRef, useEffect, useState, useCallback } from 'react';
+import { useRef, useEffect, useLayoutEffect, useState, useCallback, useId, useImperativeHandle } from 'react';
 import 'mathlive';
-import { MathfieldElement } from 'mathlive';
+import { MathfieldElement, type Offset, type Range, type Selector } from 'mathlive';
+import {
+  EMPTY_LINE_HISTORY,
+  recordLineChange,
+  redoLineChange,
+  undoLineChange,
+  type LineChangeKind,
+  type LineHistory,
+} from '../utils/lineHistory';
+import {
+  duplicateLineRange,
+  moveLineRange,
+  normalizeRange,
+  removeLineRange,
+  toAnnotatedLines,
+  type AnnotatedLine,
+  type LineRange,
+} from '../utils/lineOperations';
+import {
+  formatAlignBlock,
+  formatLinesForClipboard,
+  isPlainTextMath,
+  isRelationLatex,
+  splitPastedMath,
+  toLatexLine,
+} from '../utils/mathClipboard';
 import './Demo.css';
 
 interface MathFieldRef {
-  element: HTMLElement;
+  element: MathfieldElement;
+  /** Value last written to or read from the field, so syncing never clobbers the caret */
+  lastValue: string;
   index: number;
   wrapper: HTMLElement;
   lineNumber: HTMLElement;
+  statusIcon: HTMLElement;
+  popover: HTMLElement;
+  /** Popover stays open after the status icon was clicked */
+  popoverPinned: boolean;
+  noteInput: HTMLInputElement;
+  /** Extra left padding (px) that lines the row's relation up with the others in align mode */
+  alignShift: number;
 }
 
+export type LineDecorationStatus = 'valid' | 'needs_review' | 'invalid' | 'info';
+
+export interface LineDecoration {
+  status: LineDecorationStatus;
+  feedback?: string;
+  errorCode?: string;
+  hint?: string | null;
+  sympySimplified?: string;
+}
+
+const SELECTED_LINE_BACKGROUND = 'rgba(100, 108, 255, 0.2)';
+const DROP_INDICATOR_COLOR = '#646cff';
+
+/** Justifications offered in the annotation column; students may also type their own */
+const DEFAULT_ANNOTATION_OPTIONS = [
+  'Given',
+  'Simplify',
+  'Expand',
+  'Factor',
+  'Combine like terms',
+  'Add to both sides',
+  'Subtract from both sides',
+  'Multiply both sides',
+  'Divide both sides',
+  'Substitute',
+  'Solve for a variable',
+];
+
+const DECORATION_STYLES: Record<LineDecorationStatus, { icon: string; color: string }> = {
+  valid: { icon: '✓', color: '#4caf50' },
+  needs_review: { icon: '⚠', color: '#ff9800' },
+  invalid: { icon: '✗', color: '#f44336' },
+  info: { icon: 'ℹ', color: '#2196f3' },
+};
+
+const appendPopoverRow = (popover: HTMLElement, label: string, text: string, monospace = false) => {
+  const row = document.createElement('div');
+  row.style.marginTop = popover.childElementCount > 0 ? '0.4rem' : '0';
+  const strong = document.createElement('strong');
+  strong.textContent = `${label}: `;
+  const value = document.createElement('span');
+  value.textContent = text;
+  if (monospace) value.style.fontFamily = 'monospace';
+  row.append(strong, value);
+  popover.appendChild(row);
+};
+
+/** Show (or clear) a line's status icon, left border and popover content */
+const applyLineDecoration = (fieldRef: MathFieldRef, decoration?: LineDecoration) => {
+  const { wrapper, statusIcon, popover } = fieldRef;
+  popover.replaceChildren();
+
+  if (!decoration) {
+    wrapper.style.borderLeft = '3px solid transparent';
+    statusIcon.textContent = '';
+    statusIcon.style.cursor = 'default';
+    statusIcon.removeAttribute('title');
+    fieldRef.popoverPinned = false;
+    popover.style.display = 'none';
+    return;
+  }
+
+  const { icon, color } = DECORATION_STYLES[decoration.status];
+  wrapper.style.borderLeft = `3px solid ${color}`;
+  statusIcon.textContent = icon;
+  statusIcon.style.color = color;
+  statusIcon.style.cursor = 'pointer';
+  statusIcon.title = decoration.feedback || 'Click for details';
+
+  if (decoration.feedback) appendPopoverRow(popover, 'Feedback', decoration.feedback);
+  if (decoration.errorCode) appendPopoverRow(popover, 'Error', decoration.errorCode, true);
+  if (decoration.hint) appendPopoverRow(popover, 'Hint', decoration.hint);
+  if (decoration.sympySimplified) appendPopoverRow(popover, 'Simplified', decoration.sympySimplified, true);
+  popover.style.borderColor = color;
+  popover.style.display = fieldRef.popoverPinned && popover.childElementCount > 0 ? 'block' : 'none';
+};
+
+const FIELD_PADDING_LEFT = '0.75rem';
+
+const setAlignShift = (fieldRef: MathFieldRef, shift: number) => {
+  if (Math.abs(fieldRef.alignShift - shift) < 0.5) return;
+  fieldRef.alignShift = shift;
+  fieldRef.element.style.paddingLeft = shift > 0 ? `calc(${FIELD_PADDING_LEFT} + ${shift}px)` : FIELD_PADDING_LEFT;
+};
+
+/**
+ * Where the row's first top-level relation starts and where its content ends,
+ * in px from the field's left edge without any align shift
+ */
+const measureRow = (fieldRef: MathFieldRef): { relationX: number | null; width: number } => {
+  const field = fieldRef.element;
+  const left = field.getBoundingClientRect().left + fieldRef.alignShift;
+  let relationX: number | null = null;
+  let width = 0;
+  for (let offset = 1; offset <= field.lastOffset; offset++) {
+    const info = field.getElementInfo(offset);
+    if (info?.depth !== 0 || !info.bounds) continue;
+    if (relationX === null && info.latex && isRelationLatex(info.latex)) {
+      relationX = info.bounds.left - left;
+    }
+    width = Math.max(width, info.bounds.right - left);
+  }
+  return { relationX, width };
+};
+
 // Disable MathLive sound assets (avoids requests to plonk.wav and related files)
 MathfieldElement.soundsDirectory = null;
 MathfieldElement.plonkSound = null;
@@ -20,11 +159,67 @@ MathfieldElement.keypressSound = {
   spacebar: null,
 };
 
+export interface MathLiveEditorSelection {
+  /** Index of the focused line */
+  line: number;
+  /** Caret offset within the line */
+  position: Offset;
+  ranges: Range[];
+  /** LaTeX of the selected fragment, empty when the selection is collapsed */
+  selectedLatex: string;
+}
+
+/** Imperative API exposed through the editor's ref */
+export interface MathLiveMultilineEditorHandle {
+  focusLine: (index: number) => void;
+  /** Insert a line after index (use -1 to insert at the top) */
+  insertLineAfter: (index: number, value?: string) => void;
+  setLine: (index: number, value: string) => void;
+  /** Caret and selection of the focused line, or null when no line has focus */
+  getSelection: () => MathLiveEditorSelection | null;
+  scrollToLine: (index: number) => void;
+  /** Run a MathLive command on a line (default: the focused line) */
+  executeCommand: (selector: Selector | [Selector, ...unknown[]], line?: number) => boolean;
+  /** Step through the editor-wide history; false when there was nothing to undo/redo */
+  undo: () => boolean;
+  redo: () => boolean;
+  /** Move lines start..end before line insertBefore (the line count appends) */
+  moveLines: (start: number, end: number, insertBefore: number) => void;
+  /** Insert a copy of lines start..end right below them */
+  duplicateLines: (start: number, end: number) => void;
+  /** Select a block of lines as in the line-number gutter */
+  selectLines: (anchor: number, head: number) => void;
+  getSelectedLines: () => LineRange | null;
+  clearLineSelection: () => void;
+  /** Set the annotation of a line */
+  setNote: (index: number, note: string) => void;
+  /**
+   * Put every line on the clipboard as an align* block plus plain text.
+   * Rejects when there is no clipboard access, e.g. outside a secure context.
+   */
+  copyAll: () => Promise<void>;
+  /** All lines as an align* environment, aligned on their relations */
+  getAlignedLatex: () => string;
+}
+
+export interface LineHistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
 export interface MathLiveMultilineEditorProps {
-  /** Initial equations/expressions */
+  /** Lines to show in controlled mode; every edit is reported through onChange */
+  value?: string[];
+  /** Initial equations/expressions when uncontrolled */
   initialEquations?: string[];
-  /** Callback when equations change */
-  onChange?: (equations: string[]) => void;
+  /** Callback when equations or annotations change; lines pairs each equation with its annotation */
+  onChange?: (equations: string[], lines: AnnotatedLine[]) => void;
+  /** Annotation of each line in controlled mode (parallel to value); uncontrolled otherwise */
+  notes?: string[];
+  /** Show a justification field next to every line (default: false) */
+  showAnnotations?: boolean;
+  /** Suggestions for the justification field (default: common algebra steps) */
+  annotationOptions?: string[];
   /** Minimum number of lines (default: 1) */
   minLines?: number;
   /** Show line numbers (default: true) */
@@ -37,71 +232,395 @@ export interface MathLiveMultilineEditorProps {
   virtualKeyboard?: boolean;
   /** Font size for math fields (default: '20px') */
   fontSize?: string;
+  /** Status shown in the gutter of each line, keyed by line index */
+  lineDecorations?: Map<number, LineDecoration>;
+  /** Called when undo/redo availability changes, e.g. to enable toolbar buttons */
+  onHistoryChange?: (state: LineHistoryState) => void;
+  /**
+   * Line up the relations (=, <, \le, ...) of all rows like an align* block (default: false).
+   * Rows starting with a relation continue the derivation above them.
+   */
+  alignEquals?: boolean;
+  ref?: React.Ref<MathLiveMultilineEditorHandle>;
 }
 
+const EMPTY_EQUATIONS = [''];
+
+const withAtLeastOneLine = (equations: string[]) => (equations.length > 0 ? equations : EMPTY_EQUATIONS);
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+const EMPTY_NOTES: string[] = [];
+
+/** Notes for exactly these lines; missing annotations are empty */
+const notesFor = (lines: string[], notes: string[]) => lines.map((_, i) => notes[i] ?? '');
+
+const joinNotes = (first: string, second: string) => [first, second].filter(note => note.trim()).join('; ');
+
 const MathLiveMultilineEditor: React.FC<MathLiveMultilineEditorProps> = ({
-  initialEquations = [''],
+  value,
+  initialEquations = EMPTY_EQUATIONS,
   onChange,
+  notes,
+  showAnnotations = false,
+  annotationOptions = DEFAULT_ANNOTATION_OPTIONS,
   minLines = 1,
   showLineNumbers = true,
   className = '',
   containerStyle = {},
   virtualKeyboard = true,
   fontSize = '20px',
+  lineDecorations,
+  onHistoryChange,
+  alignEquals = false,
+  ref,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const fieldRefsRef = useRef<Map<number, MathFieldRef>>(new Map());
-  const isUpdatingFromInputRef = useRef(false);
-  const [equations, setEquations] = useState<string[]>(
-    initialEquations.length > 0 ? initialEquations : ['']
+  const isControlled = value !== undefined;
+  const [internalEquations, setInternalEquations] = useState<string[]>(() => withAtLeastOneLine(initialEquations));
+  const [syncedInitialEquations, setSyncedInitialEquations] = useState(initialEquations);
+  const [internalNotes, setInternalNotes] = useState<string[]>(EMPTY_NOTES);
+  const areNotesControlled = notes !== undefined;
+  const annotationListId = useId();
+
+  // Uncontrolled: start over when the parent passes different initial lines
+  if (!isControlled && initialEquations !== syncedInitialEquations) {
+    setSyncedInitialEquations(initialEquations);
+    if (!sameLines(initialEquations, internalEquations)) {
+      setInternalEquations(withAtLeastOneLine(initialEquations));
+      setInternalNotes(EMPTY_NOTES);
+    }
+  }
+
+  const equations = isControlled ? withAtLeastOneLine(value) : internalEquations;
+  const lineNotes = areNotesControlled ? notes : internalNotes;
+
+  // Field event handlers outlive renders, so they read the latest props through refs
+  const equationsRef = useRef(equations);
+  const onChangeRef = useRef(onChange);
+  const onHistoryChangeRef = useRef(onHistoryChange);
+  const isControlledRef = useRef(isControlled);
+  const notesRef = useRef(lineNotes);
+  const areNotesControlledRef = useRef(areNotesControlled);
+  const historyRef = useRef<LineHistory>(EMPTY_LINE_HISTORY);
+  const publishedHistoryRef = useRef<LineHistoryState>({ canUndo: false, canRedo: false });
+  // Line to focus once its field exists
+  const pendingFocusRef = useRef<number | null>(null);
+
+  const setHistory = useCallback((history: LineHistory) => {
+    historyRef.current = history;
+    const state = { canUndo: history.past.length > 0, canRedo: history.future.length > 0 };
+    const published = publishedHistoryRef.current;
+    if (state.canUndo !== published.canUndo || state.canRedo !== published.canRedo) {
+      publishedHistoryRef.current = state;
+      onHistoryChangeRef.current?.(state);
+    }
+  }, []);
+
+  useLayoutEffect(() => {
+    // Lines replaced by the parent rather than edited here; old snapshots no longer apply
+    if (!sameLines(equationsRef.current, equations)) {
+      setHistory(EMPTY_LINE_HISTORY);
+    }
+    equationsRef.current = equations;
+    notesRef.current = lineNotes;
+    areNotesControlledRef.current = areNotesControlled;
+    onChangeRef.current = onChange;
+    onHistoryChangeRef.current = onHistoryChange;
+    isControlledRef.current = isControlled;
+  });
+
+  const currentNotes = useCallback(() => notesFor(equationsRef.current, notesRef.current), []);
+
+  const applyEquations = useCallback((nextEquations: string[], nextNotes: string[]) => {
+    equationsRef.current = nextEquations;
+    notesRef.current = nextNotes;
+    if (!isControlledRef.current) {
+      setInternalEquations(nextEquations);
+    }
+    if (!areNotesControlledRef.current) {
+      setInternalNotes(nextNotes);
+    }
+    onChangeRef.current?.(nextEquations, toAnnotatedLines(nextEquations, nextNotes));
+  }, []);
+
+  /**
+   * Apply an edit and record it in the history; line is the line the edit started on.
+   * Edits that add, remove or reorder lines pass the notes rearranged the same way.
+   */
+  const commitEquations = useCallback(
+    (nextEquations: string[], kind: LineChangeKind, line: number, nextNotes: string[] = currentNotes()) => {
+      const previousNotes = currentNotes();
+      if (sameLines(nextEquations, equationsRef.current) && sameLines(nextNotes, previousNotes)) return;
+      setHistory(
+        recordLineChange(
+          historyRef.current,
+          { lines: equationsRef.current, notes: previousNotes, focusLine: line },
+          kind
+        )
+      );
+      applyEquations(nextEquations, nextNotes);
+    },
+    [applyEquations, currentNotes, setHistory]
   );
 
   const updateEquation = useCallback(
-    (index: number, value: string) => {
-      isUpdatingFromInputRef.current = true;
-      setEquations(prev => {
-        const newEquations = [...prev];
-        newEquations[index] = value;
-        const finalEquations = newEquations;
-        if (onChange) {
-          onChange(finalEquations);
-        }
-        return finalEquations;
-      });
-      // Reset flag after state update
-      setTimeout(() => {
-        isUpdatingFromInputRef.current = false;
-      }, 0);
+    (index: number, nextValue: string, kind: LineChangeKind = 'edit') => {
+      const newEquations = [...equationsRef.current];
+      newEquations[index] = nextValue;
+      commitEquations(newEquations, kind, index);
+    },
+    [commitEquations]
+  );
+
+  const updateNote = useCallback(
+    (index: number, note: string, kind: LineChangeKind = 'annotate') => {
+      const newNotes = currentNotes();
+      newNotes[index] = note;
+      commitEquations(equationsRef.current, kind, index, newNotes);
     },
-    [onChange]
+    [commitEquations, currentNotes]
   );
 
   const insertEquation = useCallback(
-    (index: number) => {
-      setEquations(prev => {
-        const newEquations = [...prev];
-        newEquations.splice(index + 1, 0, '');
-        if (onChange) {
-          onChange(newEquations);
-        }
-        return newEquations;
-      });
+    (index: number, nextValue = '') => {
+      const newEquations = [...equationsRef.current];
+      const newNotes = currentNotes();
+      newEquations.splice(index + 1, 0, nextValue);
+      newNotes.splice(index + 1, 0, '');
+      commitEquations(newEquations, 'insert', Math.max(index, 0), newNotes);
     },
-    [onChange]
+    [commitEquations, currentNotes]
   );
 
   const removeEquation = useCallback(
     (index: number) => {
-      if (equations.length <= minLines) return;
-      setEquations(prev => {
-        const filtered = prev.filter((_, i) => i !== index);
-        if (onChange) {
-          onChange(filtered);
-        }
-        return filtered;
+      if (equationsRef.current.length <= minLines) return;
+      commitEquations(
+        equationsRef.current.filter((_, i) => i !== index),
+        'remove',
+        index,
+        currentNotes().filter((_, i) => i !== index)
+      );
+    },
+    [minLines, commitEquations, currentNotes]
+  );
+
+  /** Append a line to the one above it */
+  const mergeWithPrevious = useCallback(
+    (index: number) => {
+      if (index <= 0 || equationsRef.current.length <= minLines) return;
+      const newEquations = [...equationsRef.current];
+      const newNotes = currentNotes();
+      newEquations[index - 1] = `${newEquations[index - 1]}${newEquations[index]}`;
+      newEquations.splice(index, 1);
+      newNotes[index - 1] = joinNotes(newNotes[index - 1], newNotes[index]);
+      newNotes.splice(index, 1);
+      commitEquations(newEquations, 'merge', index, newNotes);
+    },
+    [minLines, commitEquations, currentNotes]
+  );
+
+  const focusLine = useCallback((index: number) => {
+    const field = fieldRefsRef.current.get(index);
+    if (field) {
+      pendingFocusRef.current = null;
+      field.element.focus();
+    } else {
+      pendingFocusRef.current = index;
+    }
+  }, []);
+
+  const focusedField = () =>
+    Array.from(fieldRefsRef.current.values()).find(fieldRef => fieldRef.element.hasFocus());
+
+  const stepHistory = useCallback(
+    (direction: 'undo' | 'redo') => {
+      const step = direction === 'undo' ? undoLineChange : redoLineChange;
+      const focusedIndex = focusedField()?.index ?? 0;
+      const result = step(historyRef.current, {
+        lines: equationsRef.current,
+        notes: currentNotes(),
+        focusLine: focusedIndex,
       });
+      if (!result) return false;
+      setHistory(result.history);
+      applyEquations(result.snapshot.lines, result.snapshot.notes);
+      focusLine(Math.min(result.snapshot.focusLine, result.snapshot.lines.length - 1));
+      return true;
+    },
+    [applyEquations, currentNotes, focusLine, setHistory]
+  );
+
+  // Block picked in the line-number gutter; the container holds focus while it is selected
+  const lineSelectionRef = useRef<{ anchor: number; head: number } | null>(null);
+  // Lines being dragged by their line-number handle
+  const dragRangeRef = useRef<LineRange | null>(null);
+
+  const getSelectedLines = useCallback(() => {
+    const selection = lineSelectionRef.current;
+    return selection ? normalizeRange(selection.anchor, selection.head) : null;
+  }, []);
+
+  const paintLineSelection = useCallback(() => {
+    const range = getSelectedLines();
+    fieldRefsRef.current.forEach(fieldRef => {
+      const isSelected = range !== null && fieldRef.index >= range.start && fieldRef.index <= range.end;
+      fieldRef.wrapper.dataset.selected = isSelected ? 'true' : '';
+      if (!fieldRef.element.hasFocus()) {
+        fieldRef.wrapper.style.backgroundColor = isSelected ? SELECTED_LINE_BACKGROUND : 'transparent';
+      }
+    });
+  }, [getSelectedLines]);
+
+  const selectLines = useCallback(
+    (anchor: number, head: number) => {
+      const last = equationsRef.current.length - 1;
+      const clamp = (index: number) => Math.min(Math.max(index, 0), last);
+      lineSelectionRef.current = { anchor: clamp(anchor), head: clamp(head) };
+      paintLineSelection();
+    },
+    [paintLineSelection]
+  );
+
+  const clearLineSelection = useCallback(() => {
+    if (!lineSelectionRef.current) return;
+    lineSelectionRef.current = null;
+    paintLineSelection();
+  }, [paintLineSelection]);
+
+  /** Move a block before insertBefore; returns where it ended up */
+  const moveLines = useCallback(
+    (range: LineRange, insertBefore: number): LineRange => {
+      const target = Math.min(Math.max(insertBefore, 0), equationsRef.current.length);
+      const result = moveLineRange(equationsRef.current, range, target);
+      commitEquations(result.lines, 'move', range.start, moveLineRange(currentNotes(), range, target).lines);
+      return { start: result.start, end: result.start + range.end - range.start };
+    },
+    [commitEquations, currentNotes]
+  );
+
+  /** Move a block one line up or down; returns where it ended up */
+  const shiftLines = useCallback(
+    (range: LineRange, direction: -1 | 1): LineRange => {
+      if (direction < 0 ? range.start === 0 : range.end >= equationsRef.current.length - 1) return range;
+      return moveLines(range, direction < 0 ? range.start - 1 : range.end + 2);
+    },
+    [moveLines]
+  );
+
+  /** Copy a block below itself; returns the copy's range */
+  const duplicateLines = useCallback(
+    (range: LineRange): LineRange => {
+      const result = duplicateLineRange(equationsRef.current, range);
+      commitEquations(result.lines, 'duplicate', range.start, duplicateLineRange(currentNotes(), range).lines);
+      return { start: result.start, end: result.start + range.end - range.start };
+    },
+    [commitEquations, currentNotes]
+  );
+
+  const copyLines = useCallback((range: LineRange) => {
+    const text = formatLinesForClipboard(equationsRef.current.slice(range.start, range.end + 1));
+    navigator.clipboard?.writeText(text).catch(error => console.error('Copying lines failed:', error));
+  }, []);
+
+  /** Put pasted rows on separate lines, starting at line index */
+  const pasteLines = useCallback(
+    (index: number, pastedLines: string[]) => {
+      const newEquations = [...equationsRef.current];
+      const newNotes = currentNotes();
+      // An empty line takes the first pasted row instead of keeping a blank above it
+      const replaceCurrent = newEquations[index].trim() === '';
+      const start = replaceCurrent ? index : index + 1;
+      newEquations.splice(start, replaceCurrent ? 1 : 0, ...pastedLines);
+      // Pasted rows start without annotations; a replaced empty line keeps its own
+      const keptNote = replaceCurrent ? newNotes[index] : '';
+      newNotes.splice(start, replaceCurrent ? 1 : 0, ...pastedLines.map((_, i) => (i === 0 ? keptNote : '')));
+      commitEquations(newEquations, 'paste', index, newNotes);
+      return start + pastedLines.length - 1;
+    },
+    [commitEquations, currentNotes]
+  );
+
+  const deleteLines = useCallback(
+    (range: LineRange) => {
+      commitEquations(
+        removeLineRange(equationsRef.current, range, minLines),
+        'remove',
+        range.start,
+        removeLineRange(currentNotes(), range, minLines)
+      );
     },
-    [equations.length, minLines, onChange]
+    [commitEquations, currentNotes, minLines]
+  );
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      focusLine,
+      insertLineAfter: (index, nextValue = '') => insertEquation(index, nextValue),
+      setLine: (index, nextValue) => {
+        if (index < 0 || index >= equationsRef.current.length) return;
+        updateEquation(index, nextValue, 'replace');
+      },
+      getSelection: () => {
+        const fieldRef = focusedField();
+        if (!fieldRef) return null;
+        const { element } = fieldRef;
+        return {
+          line: fieldRef.index,
+          position: element.position,
+          ranges: element.selection.ranges,
+          selectedLatex: element.selectionIsCollapsed ? '' : element.getValue(element.selection, 'latex'),
+        };
+      },
+      scrollToLine: index => {
+        fieldRefsRef.current.get(index)?.wrapper.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+      },
+      executeCommand: (selector, line) => {
+        const fieldRef = line === undefined ? focusedField() : fieldRefsRef.current.get(line);
+        if (!fieldRef) return false;
+        // Narrowed so each call matches one of MathLive's overloads
+        return Array.isArray(selector)
+          ? fieldRef.element.executeCommand(selector)
+          : fieldRef.element.executeCommand(selector);
+      },
+      undo: () => stepHistory('undo'),
+      redo: () => stepHistory('redo'),
+      moveLines: (start, end, insertBefore) => {
+        moveLines(normalizeRange(start, end), insertBefore);
+      },
+      duplicateLines: (start, end) => {
+        duplicateLines(normalizeRange(start, end));
+      },
+      selectLines,
+      getSelectedLines,
+      clearLineSelection,
+      setNote: (index, note) => {
+        if (index < 0 || index >= equationsRef.current.length) return;
+        updateNote(index, note, 'replace');
+      },
+      copyAll: async () => {
+        if (!navigator.clipboard) {
+          throw new Error('The clipboard is not available on this page');
+        }
+        await navigator.clipboard.writeText(formatLinesForClipboard(equationsRef.current));
+      },
+      getAlignedLatex: () => formatAlignBlock(equationsRef.current),
+    }),
+    [
+      focusLine,
+      insertEquation,
+      updateEquation,
+      updateNote,
+      stepHistory,
+      moveLines,
+      duplicateLines,
+      selectLines,
+      getSelectedLines,
+      clearLineSelection,
+    ]
   );
 
   // Create or remove fields when count changes
@@ -134,34 +653,176 @@ const MathLiveMultilineEditor: React.FC<MathLiveMultilineEditorProps> = ({
         lineNumber.style.fontFamily = 'monospace';
         lineNumber.style.userSelect = 'none';
         lineNumber.style.display = showLineNumbers ? 'block' : 'none';
+        lineNumber.style.cursor = 'grab';
+        lineNumber.draggable = true;
+        lineNumber.title = 'Click to select, Shift+click to extend, drag to move';
+
+        const statusIcon = document.createElement('div');
+        statusIcon.className = 'mathlive-line-status';
+        statusIcon.style.minWidth = '1.5rem';
+        statusIcon.style.textAlign = 'center';
+        statusIcon.style.fontSize = '1.2rem';
+        statusIcon.style.userSelect = 'none';
+        statusIcon.style.display = 'none';
 
         const fieldContainer = document.createElement('div');
         fieldContainer.style.flex = '1';
         fieldContainer.style.position = 'relative';
 
-        const mathField = document.createElement('math-field');
-        (mathField as any).value = equations[i] || '';
+        const popover = document.createElement('div');
+        popover.className = 'mathlive-line-popover';
+        popover.style.display = 'none';
+        popover.style.position = 'absolute';
+        popover.style.top = '100%';
+        popover.style.left = '0';
+        popover.style.zIndex = '10';
+        popover.style.maxWidth = '100%';
+        popover.style.padding = '0.5rem 0.75rem';
+        popover.style.backgroundColor = '#1f2937';
+        popover.style.color = 'rgba(255, 255, 255, 0.9)';
+        popover.style.border = '1px solid';
+        popover.style.borderRadius = '6px';
+        popover.style.boxShadow = '0 4px 12px rgba(0, 0, 0, 0.3)';
+        popover.style.fontSize = '0.9rem';
+        popover.style.whiteSpace = 'pre-wrap';
+
+        const mathField = document.createElement('math-field') as MathfieldElement;
+        mathField.value = equations[i] || '';
         mathField.setAttribute(
           'virtual-keyboard-mode',
           virtualKeyboard ? 'manual' : 'off'
         );
         mathField.style.width = '100%';
         mathField.style.fontSize = fontSize;
-        mathField.style.padding = '0.5rem 0.75rem';
+        mathField.style.padding = `0.5rem 0.75rem 0.5rem ${FIELD_PADDING_LEFT}`;
         mathField.style.border = 'none';
         mathField.style.borderRadius = '4px';
         mathField.style.backgroundColor = 'transparent';
         mathField.style.minHeight = '40px';
         mathField.style.outline = 'none';
 
+        const noteInput = document.createElement('input');
+        noteInput.className = 'mathlive-line-note';
+        noteInput.type = 'text';
+        noteInput.value = notesRef.current[i] ?? '';
+        noteInput.placeholder = 'Why? (optional)';
+        noteInput.title = 'Justify this step, e.g. "divide both sides by 2"';
+        noteInput.setAttribute('list', annotationListId);
+        noteInput.style.width = '12rem';
+        noteInput.style.flexShrink = '0';
+        noteInput.style.padding = '0.35rem 0.5rem';
+        noteInput.style.fontSize = '0.85rem';
+        noteInput.style.color = 'rgba(255, 255, 255, 0.85)';
+        noteInput.style.backgroundColor = 'transparent';
+        noteInput.style.border = '1px solid rgba(255, 255, 255, 0.15)';
+        noteInput.style.borderRadius = '4px';
+        noteInput.style.display = showAnnotations ? 'block' : 'none';
+
         const fieldRef: MathFieldRef = {
           element: mathField,
+          lastValue: equations[i] || '',
           index: i,
           wrapper,
           lineNumber,
+          statusIcon,
+          popover,
+          popoverPinned: false,
+          noteInput,
+          alignShift: 0,
         };
         fieldRefsRef.current.set(i, fieldRef);
 
+        // Hovering the status icon previews the popover, clicking pins it open
+        const showPopover = (visible: boolean) => {
+          popover.style.display = visible && popover.childElementCount > 0 ? 'block' : 'none';
+        };
+        statusIcon.addEventListener('mouseenter', () => showPopover(true));
+        statusIcon.addEventListener('mouseleave', () => showPopover(fieldRef.popoverPinned));
+        statusIcon.addEventListener('click', (evt: MouseEvent) => {
+          // Keep the container from moving focus to the last line
+          evt.stopPropagation();
+          fieldRef.popoverPinned = !fieldRef.popoverPinned;
+          showPopover(fieldRef.popoverPinned);
+        });
+
+        // Line-number gutter: click selects, Shift+click extends, dragging moves the line or selected block
+        lineNumber.addEventListener('click', (evt: MouseEvent) => {
+          evt.stopPropagation();
+          const selection = lineSelectionRef.current;
+          selectLines(evt.shiftKey && selection ? selection.anchor : fieldRef.index, fieldRef.index);
+          containerRef.current?.focus();
+        });
+        lineNumber.addEventListener('dragstart', (evt: DragEvent) => {
+          const selected = getSelectedLines();
+          const range =
+            selected && fieldRef.index >= selected.start && fieldRef.index <= selected.end
+              ? selected
+              : { start: fieldRef.index, end: fieldRef.index };
+          dragRangeRef.current = range;
+          if (evt.dataTransfer) {
+            evt.dataTransfer.effectAllowed = 'copyMove';
+            evt.dataTransfer.setData('text/plain', equationsRef.current.slice(range.start, range.end + 1).join('\n'));
+          }
+        });
+        lineNumber.addEventListener('dragend', () => {
+          dragRangeRef.current = null;
+          fieldRefsRef.current.forEach(other => {
+            other.wrapper.style.boxShadow = '';
+          });
+        });
+
+        const isLowerHalf = (evt: DragEvent) => {
+          const rect = wrapper.getBoundingClientRect();
+          return evt.clientY > rect.top + rect.height / 2;
+        };
+        // Capture phase so a line drop never lands inside the math-field as text
+        wrapper.addEventListener(
+          'dragover',
+          (evt: DragEvent) => {
+            if (!dragRangeRef.current) return;
+            evt.preventDefault();
+            wrapper.style.boxShadow = `inset 0 ${isLowerHalf(evt) ? -2 : 2}px 0 ${DROP_INDICATOR_COLOR}`;
+          },
+          true
+        );
+        wrapper.addEventListener('dragleave', () => {
+          wrapper.style.boxShadow = '';
+        });
+        wrapper.addEventListener(
+          'drop',
+          (evt: DragEvent) => {
+            const range = dragRangeRef.current;
+            if (!range) return;
+            evt.preventDefault();
+            evt.stopPropagation();
+            wrapper.style.boxShadow = '';
+            dragRangeRef.current = null;
+            const moved = moveLines(range, fieldRef.index + (isLowerHalf(evt) ? 1 : 0));
+            selectLines(moved.start, moved.end);
+            containerRef.current?.focus();
+          },
+          true
+        );
+
+        noteInput.addEventListener('input', () => updateNote(fieldRef.index, noteInput.value));
+        // Keep the container from moving focus to the last line
+        noteInput.addEventListener('click', (evt: MouseEvent) => evt.stopPropagation());
+        noteInput.addEventListener('keydown', (evt: KeyboardEvent) => {
+          const key = evt.key.toLowerCase();
+          if (evt.key === 'Enter') {
+            evt.preventDefault();
+            if (fieldRef.index < equationsRef.current.length - 1) {
+              focusLine(fieldRef.index + 1);
+            } else {
+              insertEquation(fieldRef.index);
+              focusLine(fieldRef.index + 1);
+            }
+          } else if ((evt.ctrlKey || evt.metaKey) && !evt.altKey && (key === 'z' || key === 'y')) {
+            evt.preventDefault();
+            stepHistory(key === 'z' && !evt.shiftKey ? 'undo' : 'redo');
+          }
+        });
+
         // Handle input - use current index from fieldRef to avoid closure issues
         const inputHandler = (evt: any) => {
           const currentIndex = fieldRef.index;
@@ -170,6 +831,7 @@ const MathLiveMultilineEditor: React.FC<MathLiveMultilineEditorProps> = ({
               ? (mathField as any).getValue('latex-expanded')
               : undefined;
           const nextValue = expanded ?? (evt?.target as any)?.value ?? '';
+          fieldRef.lastValue = nextValue;
           updateEquation(currentIndex, nextValue);
         };
         mathField.addEventListener('input', inputHandler);
@@ -181,34 +843,79 @@ const MathLiveMultilineEditor: React.FC<MathLiveMultilineEditorProps> = ({
             evt.preventDefault();
             evt.stopPropagation();
             insertEquation(currentIndex);
-            // Focus the new field after it's created
-            setTimeout(() => {
-              const newField = fieldRefsRef.current.get(currentIndex + 1);
-              if (newField?.element) {
-                (newField.element as any).focus();
-              }
-            }, 50);
+            // Focus the new field once it's created
+            focusLine(currentIndex + 1);
           } else if (
             evt.key === 'Backspace' &&
-            (mathField as any).value === '' &&
+            mathField.value === '' &&
             currentIndex >= minLines
           ) {
             evt.preventDefault();
             removeEquation(currentIndex);
             // Focus the previous field
-            setTimeout(() => {
-              const targetIndex = currentIndex > 0 ? currentIndex - 1 : 0;
-              const field = fieldRefsRef.current.get(targetIndex);
-              if (field?.element) {
-                (field.element as any).focus();
-              }
-            }, 50);
+            focusLine(currentIndex > 0 ? currentIndex - 1 : 0);
+          } else if (
+            evt.key === 'Backspace' &&
+            currentIndex > 0 &&
+            mathField.position === 0 &&
+            mathField.selectionIsCollapsed
+          ) {
+            evt.preventDefault();
+            mergeWithPrevious(currentIndex);
+            focusLine(currentIndex - 1);
           }
         };
         mathField.addEventListener('keydown', keydownHandler);
 
+        // Several pasted rows become separate lines; plain-text math is pasted as LaTeX.
+        // A single row copied from MathLive (application/x-latex) is left to MathLive.
+        const pasteHandler = (evt: ClipboardEvent) => {
+          const latex = evt.clipboardData?.getData('application/x-latex') ?? '';
+          const text = latex || evt.clipboardData?.getData('text/plain') || '';
+          const rows = splitPastedMath(text);
+          if (rows.length === 0 || (rows.length === 1 && (latex || !isPlainTextMath(text.trim())))) return;
+
+          evt.preventDefault();
+          evt.stopPropagation();
+          if (rows.length === 1) {
+            mathField.insert(toLatexLine(text), { format: 'latex' });
+            return;
+          }
+          focusLine(pasteLines(fieldRef.index, rows));
+        };
+        mathField.addEventListener('paste', pasteHandler, true);
+
+        // Editor shortcuts; capture phase so MathLive never sees the keys
+        const shortcutKeyHandler = (evt: KeyboardEvent) => {
+          // Alt+Up/Down moves the line, Shift+Alt+Up/Down duplicates it
+          if (evt.altKey && !evt.ctrlKey && !evt.metaKey && (evt.key === 'ArrowUp' || evt.key === 'ArrowDown')) {
+            evt.preventDefault();
+            evt.stopPropagation();
+            const line = { start: fieldRef.index, end: fieldRef.index };
+            const direction = evt.key === 'ArrowUp' ? -1 : 1;
+            if (evt.shiftKey) {
+              const copy = duplicateLines(line);
+              focusLine(direction < 0 ? line.start : copy.start);
+            } else {
+              focusLine(shiftLines(line, direction).start);
+            }
+            return;
+          }
+
+          // Undo/redo across lines instead of MathLive's per-field undo
+          if (!(evt.ctrlKey || evt.metaKey) || evt.altKey) return;
+          const key = evt.key.toLowerCase();
+          const direction = key === 'z' ? (evt.shiftKey ? 'redo' : 'undo') : key === 'y' ? 'redo' : null;
+          if (!direction) return;
+          evt.preventDefault();
+          evt.stopPropagation();
+          stepHistory(direction);
+        };
+        mathField.addEventListener('keydown', shortcutKeyHandler, true);
+
         // Handle focus
         const focusHandler = () => {
+          clearLineSelection();
           wrapper.style.backgroundColor = 'rgba(100, 108, 255, 0.1)';
           lineNumber.style.color = 'rgba(100, 108, 255, 0.8)';
         };
@@ -223,7 +930,7 @@ const MathLiveMultilineEditor: React.FC<MathLiveMultilineEditorProps> = ({
             evt.stopPropagation();
             return;
           }
-          wrapper.style.backgroundColor = 'transparent';
+          wrapper.style.backgroundColor = wrapper.dataset.selected ? SELECTED_LINE_BACKGROUND : 'transparent';
           lineNumber.style.color = 'rgba(255, 255, 255, 0.4)';
         };
         mathField.addEventListener('blur', blurHandler, true); // Use capture phase
@@ -265,8 +972,11 @@ const MathLiveMultilineEditor: React.FC<MathLiveMultilineEditorProps> = ({
         }
 
         fieldContainer.appendChild(mathField);
+        fieldContainer.appendChild(popover);
         wrapper.appendChild(lineNumber);
+        wrapper.appendChild(statusIcon);
         wrapper.appendChild(fieldContainer);
+        wrapper.appendChild(noteInput);
         if (containerRef.current) {
           containerRef.current.appendChild(wrapper);
         }
@@ -296,41 +1006,96 @@ const MathLiveMultilineEditor: React.FC<MathLiveMultilineEditorProps> = ({
     fieldRefsRef.current.forEach((fieldRef, index) => {
       fieldRef.lineNumber.textContent = `${index + 1}`;
       fieldRef.lineNumber.style.display = showLineNumbers ? 'block' : 'none';
+      fieldRef.noteInput.style.display = showAnnotations ? 'block' : 'none';
     });
   }, [
     equations.length,
     updateEquation,
+    updateNote,
     insertEquation,
     removeEquation,
+    mergeWithPrevious,
+    focusLine,
+    stepHistory,
+    selectLines,
+    getSelectedLines,
+    clearLineSelection,
+    moveLines,
+    shiftLines,
+    duplicateLines,
+    pasteLines,
     showLineNumbers,
+    showAnnotations,
+    annotationListId,
     virtualKeyboard,
     fontSize,
     minLines,
   ]);
 
-  // Update field values only when changed externally (not from input events)
+  // Write lines into fields whose content changed outside of typing
   useEffect(() => {
-    if (isUpdatingFromInputRef.current) return;
-    if (!containerRef.current) return;
-
     fieldRefsRef.current.forEach((fieldRef, index) => {
-      if (equations[index] !== undefined) {
-        const currentValue = (fieldRef.element as any).value;
-        if (currentValue !== equations[index]) {
-          (fieldRef.element as any).value = equations[index];
-        }
+      const nextValue = equations[index] ?? '';
+      if (fieldRef.lastValue !== nextValue) {
+        fieldRef.element.value = nextValue;
+        fieldRef.lastValue = nextValue;
+      }
+      const nextNote = lineNotes[index] ?? '';
+      if (fieldRef.noteInput.value !== nextNote) {
+        fieldRef.noteInput.value = nextNote;
       }
     });
-  }, [equations]);
 
-  // Sync with external changes to initialEquations
+    const pendingFocus = pendingFocusRef.current;
+    if (pendingFocus !== null && fieldRefsRef.current.has(pendingFocus)) {
+      pendingFocusRef.current = null;
+      fieldRefsRef.current.get(pendingFocus)?.element.focus();
+    }
+  }, [equations, lineNotes]);
+
+  // Align mode: pad each row so its relation starts in the same column. Rows without
+  // a relation end at that column, as they would in the first column of align*.
   useEffect(() => {
-    if (JSON.stringify(initialEquations) !== JSON.stringify(equations)) {
-      setEquations(
-        initialEquations.length > 0 ? initialEquations : ['']
-      );
+    const fieldRefs = Array.from(fieldRefsRef.current.values());
+    if (!alignEquals) {
+      fieldRefs.forEach(fieldRef => setAlignShift(fieldRef, 0));
+      return;
     }
-  }, [initialEquations]);
+
+    const alignRows = () => {
+      const rows = fieldRefs.map(measureRow);
+      const relations = rows.flatMap(row => (row.relationX === null ? [] : [row.relationX]));
+      const column = relations.length > 0 ? Math.max(...relations) : 0;
+      fieldRefs.forEach((fieldRef, i) => {
+        const { relationX, width } = rows[i];
+        setAlignShift(fieldRef, relationX === null ? Math.max(0, column - width) : column - relationX);
+      });
+    };
+
+    // Measure once MathLive has rendered the new content, and again when its fonts arrive
+    let cancelled = false;
+    const frame = requestAnimationFrame(alignRows);
+    document.fonts.ready.then(() => {
+      if (!cancelled) alignRows();
+    });
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+    };
+  }, [alignEquals, equations, fontSize]);
+
+  // Reflect validation status in each line's gutter; editors without decorations keep no gutter
+  useEffect(() => {
+    fieldRefsRef.current.forEach((fieldRef, index) => {
+      if (!lineDecorations) {
+        fieldRef.statusIcon.style.display = 'none';
+        fieldRef.wrapper.style.borderLeft = '';
+        return;
+      }
+      fieldRef.statusIcon.style.display = 'block';
+      applyLineDecoration(fieldRef, lineDecorations.get(index));
+    });
+  }, [lineDecorations, equations.length]);
 
   const handleContainerClick = () => {
     // Focus the last field if clicking on empty space
@@ -342,6 +1107,58 @@ const MathLiveMultilineEditor: React.FC<MathLiveMultilineEditorProps> = ({
     }
   };
 
+  // Keys for a block selected in the gutter (the container has focus then, not a math-field)
+  const handleContainerKeyDown = (evt: React.KeyboardEvent<HTMLDivElement>) => {
+    const selection = lineSelectionRef.current;
+    if (evt.target !== containerRef.current || !selection) return;
+    const range = normalizeRange(selection.anchor, selection.head);
+    const key = evt.key.toLowerCase();
+    const isModified = evt.ctrlKey || evt.metaKey;
+    let handled = true;
+
+    if (evt.key === 'Escape') {
+      clearLineSelection();
+    } else if (evt.key === 'Delete' || evt.key === 'Backspace') {
+      deleteLines(range);
+      clearLineSelection();
+      focusLine(Math.min(range.start, equationsRef.current.length - 1));
+    } else if (isModified && (key === 'c' || key === 'x')) {
+      copyLines(range);
+      if (key === 'x') {
+        deleteLines(range);
+        clearLineSelection();
+        focusLine(Math.min(range.start, equationsRef.current.length - 1));
+      }
+    } else if (isModified && (key === 'z' || key === 'y')) {
+      clearLineSelection();
+      stepHistory(key === 'z' && !evt.shiftKey ? 'undo' : 'redo');
+    } else if (evt.key === 'ArrowUp' || evt.key === 'ArrowDown') {
+      const direction = evt.key === 'ArrowUp' ? -1 : 1;
+      if (evt.altKey && evt.shiftKey) {
+        const copy = duplicateLines(range);
+        // Shift+Alt+Up keeps the selection on the upper copy
+        const target = direction < 0 ? range : copy;
+        selectLines(target.start, target.end);
+      } else if (evt.altKey) {
+        const moved = shiftLines(range, direction);
+        selectLines(moved.start, moved.end);
+      } else if (evt.shiftKey) {
+        selectLines(selection.anchor, selection.head + direction);
+      } else {
+        selectLines(selection.head + direction, selection.head + direction);
+      }
+    } else if (evt.key === 'Enter') {
+      clearLineSelection();
+      focusLine(selection.head);
+    } else {
+      handled = false;
+    }
+
+    if (handled) {
+      evt.preventDefault();
+    }
+  };
+
   const defaultContainerStyle: React.CSSProperties = {
     minHeight: '300px',
     padding: '1rem',
@@ -349,16 +1166,28 @@ const MathLiveMultilineEditor: React.FC<MathLiveMultilineEditorProps> = ({
     borderRadius: '8px',
     backgroundColor: 'rgba(255, 255, 255, 0.02)',
     cursor: 'text',
+    outline: 'none',
     ...containerStyle,
   };
 
   return (
-    <div
-      ref={containerRef}
-      onClick={handleContainerClick}
-      className={`mathlive-multiline-editor ${className}`}
-      style={defaultContainerStyle}
-    />
+    <>
+      <div
+        ref={containerRef}
+        onClick={handleContainerClick}
+        onKeyDown={handleContainerKeyDown}
+        tabIndex={-1}
+        className={`mathlive-multiline-editor ${className}`}
+        style={defaultContainerStyle}
+      />
+      {showAnnotations && (
+        <datalist id={annotationListId}>
+          {annotationOptions.map(option => (
+            <option key={option} value={option} />
+          ))}
+        </datalist>
+      )}
+    </>
   );
 };
 
@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import MathLiveMultilineEditor from './MathLiveMultilineEditor';
+import { useRef, useState } from 'react';
+import MathLiveMultilineEditor, { type MathLiveMultilineEditorHandle } from './MathLiveMultilineEditor';
 
 /**
  * Normalizes LaTeX fractions so "\frac32" becomes "\frac{3}{2}".
@@ -10,6 +10,8 @@ const normalizeLatexFractions = (line: string) =>
 
 const MathWhiteboard = () => {
   const [lines, setLines] = useState<string[]>(['']);
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const editorRef = useRef<MathLiveMultilineEditorHandle>(null);
 
   const filteredLines = lines.filter(line => line.trim().length > 0);
   const normalizedLines = filteredLines.map(normalizeLatexFractions);
@@ -27,6 +29,17 @@ const MathWhiteboard = () => {
   const handleSendWork = () => send('whiteboard_submit');
   const handleRequestHint = () => send('whiteboard_hint');
 
+  const handleCopyAll = async () => {
+    try {
+      await editorRef.current?.copyAll();
+      setCopyStatus('copied');
+    } catch (error) {
+      console.error('[MathWhiteboard] copy failed', error);
+      setCopyStatus('failed');
+    }
+    setTimeout(() => setCopyStatus('idle'), 2000);
+  };
+
   return (
     <div
       style={{
@@ -41,16 +54,35 @@ const MathWhiteboard = () => {
       <h2 style={{ margin: 0, color: '#1f2937' }}>Math Whiteboard</h2>
       <p style={{ margin: 0, color: 'rgba(31, 41, 55, 0.8)' }}>
         Type your steps below. We’ll send LaTeX (normalized fractions) to the host app.
+        Pasting several lines (or an align block) splits them into separate steps.
       </p>
 
       <MathLiveMultilineEditor
-        initialEquations={lines}
+        ref={editorRef}
+        value={lines}
         onChange={setLines}
         minLines={1}
         showLineNumbers
       />
 
       <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end', flexWrap: 'wrap' }}>
+        <button
+          onClick={() => void handleCopyAll()}
+          disabled={filteredLines.length === 0}
+          title="Copy as an align* block plus plain text"
+          style={{
+            padding: '0.75rem 1.25rem',
+            backgroundColor: '#f3f4f6',
+            color: '#111827',
+            border: '1px solid #e5e7eb',
+            borderRadius: '8px',
+            cursor: filteredLines.length === 0 ? 'not-allowed' : 'pointer',
+            opacity: filteredLines.length === 0 ? 0.6 : 1,
+            fontWeight: 600,
+          }}
+        >
+          {copyStatus === 'copied' ? '✓ Copied' : copyStatus === 'failed' ? '✗ Copy failed' : '📋 Copy all'}
+        </button>
         <button
           onClick={handleRequestHint}
           style={{
@@ -1,15 +1,50 @@
-import { useEffect, useMemo, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
-  deleteProblem,
-  listProblems,
-  listProblemsByType,
-  updateProblem,
+  isAbortError,
+  type ProblemDifficulty,
   type ProblemRecord,
   type ProblemType,
+  type ProblemUpdate,
 } from '../utils/validationApi';
-
-type FilterType = ProblemType | 'all';
+import { NotFoundError, ValidationError, type FieldErrors } from '../utils/apiErrors';
+import { useValidationBackend } from '../utils/validationBackend';
+import { problemPath } from '../utils/problemRoutes';
+import {
+  EMPTY_PROBLEM_FILTERS,
+  PAGE_SIZES,
+  PROBLEM_DIFFICULTIES,
+  formatLabelList,
+  listAllProblems,
+  needsClientQuery,
+  parseLabelList,
+  queryProblems,
+  readProblemQuery,
+  writeProblemQuery,
+  type ProblemDateField,
+  type ProblemFilters,
+  type ProblemQuery,
+  type ProblemSortKey,
+} from '../utils/problemFilters';
+import {
+  UNDO_WINDOW_MS,
+  changeProblemTypes,
+  deleteProblems,
+  describeBatchFailures,
+  restoreProblems,
+  retagProblems,
+  type BatchOutcome,
+  type TagChangeMode,
+} from '../utils/problemBatch';
+import {
+  downloadTextFile,
+  problemsToCsv,
+  problemsToJson,
+  type ProblemFileFormat,
+} from '../utils/problemTransfer';
+import BatchConfirmDialog from './BatchConfirmDialog';
+import DifficultyBadge from './DifficultyBadge';
+import ProblemImportDialog from './ProblemImportDialog';
 
 interface EditFormState {
   title: string;
@@ -17,24 +52,87 @@ interface EditFormState {
   type: ProblemType;
   equationsText: string;
   expression: string;
+  difficulty: ProblemDifficulty | '';
+  gradeLevelText: string;
+  tagsText: string;
+  skillsText: string;
   metadataText: string;
 }
 
+type BatchAction = 'delete' | 'retag' | 'type';
+
+interface PendingBatch {
+  action: BatchAction;
+  records: ProblemRecord[];
+}
+
 const problemTypes: ProblemType[] = ['substitution', 'simplify', 'factor', 'arithmetic'];
 
-const isEquationType = (type: ProblemType) => type === 'substitution';
+// Inputs of the edit form that can show a field error returned by the API
+const EDIT_FIELDS = [
+  'title',
+  'type',
+  'description',
+  'difficulty',
+  'gradeLevel',
+  'tags',
+  'skills',
+  'equations',
+  'expression',
+  'metadata',
+];
 
-const mapProblemRecordToProblemData = (problem: ProblemRecord) => {
-  const data = problem.problemData || {};
-  return {
-    type: problem.type,
-    title: problem.title ?? data.title,
-    description: problem.description ?? data.description,
-    equations: data.equations ?? problem.equations,
-    expression: data.expression ?? problem.expression,
-  };
+const SORT_OPTIONS: { value: ProblemSortKey; label: string }[] = [
+  { value: 'default', label: 'Default order' },
+  { value: 'code-asc', label: 'Code: A → Z' },
+  { value: 'code-desc', label: 'Code: Z → A' },
+  { value: 'title-asc', label: 'Title: A → Z' },
+  { value: 'title-desc', label: 'Title: Z → A' },
+  { value: 'updated-desc', label: 'Recently updated' },
+  { value: 'updated-asc', label: 'Least recently updated' },
+  { value: 'difficulty-asc', label: 'Difficulty: easiest first' },
+  { value: 'difficulty-desc', label: 'Difficulty: hardest first' },
+  { value: 'grade-asc', label: 'Grade: lowest first' },
+  { value: 'grade-desc', label: 'Grade: highest first' },
+];
+
+// Kindergarten through grade 12
+const GRADE_LEVELS = Array.from({ length: 13 }, (_, grade) => grade);
+
+const gradeLabel = (grade: number) => (grade === 0 ? 'Kindergarten' : `Grade ${grade}`);
+
+const controlStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '0.6rem',
+  borderRadius: '6px',
+  border: '1px solid #e5e7eb',
+  backgroundColor: '#f9fafb',
+  color: '#111827',
 };
 
+const labelChipStyle = (backgroundColor: string, color: string): React.CSSProperties => ({
+  display: 'inline-block',
+  padding: '0.1rem 0.5rem',
+  borderRadius: '999px',
+  fontSize: '0.75rem',
+  backgroundColor,
+  color,
+});
+
+const isEquationType = (type: ProblemType) => type === 'substitution';
+
+const pluralProblems = (count: number) => `${count} ${count === 1 ? 'problem' : 'problems'}`;
+
+const batchButtonStyle = (backgroundColor: string, color = 'white'): React.CSSProperties => ({
+  padding: '0.4rem 0.75rem',
+  backgroundColor,
+  color,
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '0.9rem',
+});
+
 const buildEditState = (problem: ProblemRecord): EditFormState => {
   const data = problem.problemData || {};
   return {
@@ -43,60 +141,208 @@ const buildEditState = (problem: ProblemRecord): EditFormState => {
     type: problem.type,
     equationsText: (data.equations ?? problem.equations ?? []).join('\n'),
     expression: data.expression ?? problem.expression ?? '',
+    difficulty: problem.difficulty ?? '',
+    gradeLevelText: problem.gradeLevel === undefined ? '' : String(problem.gradeLevel),
+    tagsText: formatLabelList(problem.tags),
+    skillsText: formatLabelList(problem.skills),
     metadataText: JSON.stringify(data.metadata ?? problem.metadata ?? {}, null, 2),
   };
 };
 
 const ProblemBrowser = () => {
+  const { createProblem, deleteProblem, listProblems, listProblemsByType, updateProblem } = useValidationBackend();
   const navigate = useNavigate();
 
+  // The query lives in the URL so a filtered view can be shared or bookmarked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => readProblemQuery(searchParams), [searchParams]);
+  const { filters, page, pageSize, sort } = query;
+
   const [problems, setProblems] = useState<ProblemRecord[]>([]);
-  const [page, setPage] = useState(1);
-  const [pageSize] = useState(10);
   const [totalPages, setTotalPages] = useState(1);
   const [totalCount, setTotalCount] = useState(0);
-  const [filterType, setFilterType] = useState<FilterType>('all');
+  // Text inputs apply to the query after a pause in typing
+  const [searchDraft, setSearchDraft] = useState(filters.search);
+  const [tagDraft, setTagDraft] = useState(filters.tag);
+  // The URL values the drafts were last synced to, so a link or back/forward can replace them
+  const [syncedText, setSyncedText] = useState({ search: filters.search, tag: filters.tag });
+  const [reloadCount, setReloadCount] = useState(0);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ProblemFileFormat | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [editingCode, setEditingCode] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<EditFormState | null>(null);
+  const [editErrors, setEditErrors] = useState<FieldErrors>({});
   const [savingCode, setSavingCode] = useState<string | null>(null);
-  const [deletingCode, setDeletingCode] = useState<string | null>(null);
+  // Selected problems by code; kept across pages and filter changes
+  const [selected, setSelected] = useState<Map<string, ProblemRecord>>(new Map());
+  const [isSelectingMatching, setIsSelectingMatching] = useState(false);
+  const [pendingBatch, setPendingBatch] = useState<PendingBatch | null>(null);
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null);
+  const [tagMode, setTagMode] = useState<TagChangeMode>('add');
+  const [tagText, setTagText] = useState('');
+  const [batchType, setBatchType] = useState<ProblemType>('substitution');
+  // Records removed by the last deletes, re-created if the user hits Undo in time
+  const [deletedSnapshot, setDeletedSnapshot] = useState<ProblemRecord[] | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
 
-  const fetchProblems = async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const response =
-        filterType === 'all'
-          ? await listProblems(page, pageSize)
-          : await listProblemsByType(filterType, page, pageSize);
-
-      setProblems(response.items || []);
-      setTotalPages(response.total_pages || 1);
-      setTotalCount(response.total_count || 0);
-    } catch (err) {
-      console.error('Failed to load problems', err);
-      setError(err instanceof Error ? err.message : 'Unable to load problems.');
-    } finally {
-      setLoading(false);
-    }
-  };
+  if (filters.search !== syncedText.search || filters.tag !== syncedText.tag) {
+    setSyncedText({ search: filters.search, tag: filters.tag });
+    setSearchDraft(filters.search);
+    setTagDraft(filters.tag);
+  }
+
+  const filterType = filters.types.length === 1 ? filters.types[0] : 'all';
 
+  /**
+   * Every problem matching the current filters, in the current order
+   */
+  const loadMatchingProblems = async () =>
+    queryProblems(await listAllProblems({ listProblems, listProblemsByType }, filterType), query);
+
+  /**
+   * Write a new query to the URL; any change other than paging goes back to page 1
+   */
+  const updateQuery = useCallback(
+    (changes: Partial<ProblemQuery>) => {
+      setSearchParams(
+        prev => {
+          const current = readProblemQuery(prev);
+          return writeProblemQuery(prev, { ...current, page: 1, ...changes });
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const updateFilters = useCallback(
+    (changes: Partial<ProblemFilters>) => {
+      setSearchParams(
+        prev => {
+          const current = readProblemQuery(prev);
+          return writeProblemQuery(prev, { ...current, page: 1, filters: { ...current.filters, ...changes } });
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  // Load the current page; a newer query aborts this one so its results never land
   useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const showPage = (items: ProblemRecord[], pages: number, count: number) => {
+      setProblems(items);
+      setTotalPages(pages);
+      setTotalCount(count);
+      // Deleting can leave the page past the end, e.g. after emptying the last page
+      if (query.page > pages) {
+        updateQuery({ page: pages });
+      }
+    };
+
+    const fetchProblems = async () => {
+      setLoading(true);
+      setError(null);
+      const { page, pageSize } = query;
+      const filterType = query.filters.types.length === 1 ? query.filters.types[0] : 'all';
+      try {
+        // The API only filters by a single type; anything more is done over the whole list here
+        if (needsClientQuery(query)) {
+          const all = await listAllProblems({ listProblems, listProblemsByType }, filterType, { signal });
+          if (signal.aborted) return;
+          const matching = queryProblems(all, query);
+          showPage(
+            matching.slice((page - 1) * pageSize, page * pageSize),
+            Math.max(1, Math.ceil(matching.length / pageSize)),
+            matching.length
+          );
+          return;
+        }
+
+        const response =
+          filterType === 'all'
+            ? await listProblems(page, pageSize, { signal })
+            : await listProblemsByType(filterType, page, pageSize, { signal });
+        if (signal.aborted) return;
+
+        showPage(response.items || [], response.total_pages || 1, response.total_count || 0);
+      } catch (err) {
+        if (isAbortError(err) || signal.aborted) return;
+        console.error('Failed to load problems', err);
+        setError(err instanceof Error ? err.message : 'Unable to load problems.');
+      } finally {
+        if (!signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
     void fetchProblems();
-  }, [page, filterType]);
+    return () => controller.abort();
+  }, [query, reloadCount, listProblems, listProblemsByType, updateQuery]);
+
+  useEffect(() => {
+    if (!deletedSnapshot) return;
+    const timer = window.setTimeout(() => setDeletedSnapshot(null), UNDO_WINDOW_MS);
+    return () => window.clearTimeout(timer);
+  }, [deletedSnapshot]);
+
+  useEffect(() => {
+    if (searchDraft === filters.search && tagDraft === filters.tag) return;
+    const timer = window.setTimeout(() => updateFilters({ search: searchDraft, tag: tagDraft }), 300);
+    return () => window.clearTimeout(timer);
+  }, [searchDraft, tagDraft, filters.search, filters.tag, updateFilters]);
+
+  const toggleType = (type: ProblemType) => {
+    updateFilters({
+      types: filters.types.includes(type)
+        ? filters.types.filter(selected => selected !== type)
+        : problemTypes.filter(candidate => candidate === type || filters.types.includes(candidate)),
+    });
+  };
+
+  const clearFilters = () => {
+    setSearchDraft('');
+    setTagDraft('');
+    updateQuery({ filters: { ...EMPTY_PROBLEM_FILTERS, dateField: filters.dateField } });
+  };
 
   const startEdit = (problem: ProblemRecord) => {
     setEditingCode(problem.problem_code);
     setEditForm(buildEditState(problem));
+    setEditErrors({});
   };
 
   const cancelEdit = () => {
     setEditingCode(null);
     setEditForm(null);
+    setEditErrors({});
   };
 
+  const updateEditField = (field: keyof EditFormState, errorField: string, value: string) => {
+    if (!editForm) {
+      return;
+    }
+    setEditForm({ ...editForm, [field]: value });
+    if (editErrors[errorField]) {
+      setEditErrors(Object.fromEntries(Object.entries(editErrors).filter(([name]) => name !== errorField)));
+    }
+  };
+
+  const editBorder = (field: string) => `1px solid ${editErrors[field] ? '#f44336' : '#e5e7eb'}`;
+
+  const renderEditError = (field: string) =>
+    editErrors[field] && (
+      <small style={{ display: 'block', marginTop: '0.35rem', color: '#f44336' }}>
+        {editErrors[field]}
+      </small>
+    );
+
   const handleSaveEdit = async () => {
     if (!editingCode || !editForm) {
       return;
@@ -107,20 +353,31 @@ const ProblemBrowser = () => {
       try {
         metadata = JSON.parse(editForm.metadataText);
       } catch (err) {
-        setError('Metadata must be valid JSON.');
+        setEditErrors({ metadata: 'Metadata must be valid JSON.' });
         return;
       }
     }
 
+    // Emptied fields are sent as null so the stored value is cleared
+    const gradeLevel = editForm.gradeLevelText.trim() ? Number(editForm.gradeLevelText) : null;
+    if (gradeLevel !== null && !(Number.isInteger(gradeLevel) && gradeLevel >= 0)) {
+      setEditErrors({ gradeLevel: 'Grade level must be a whole number (0 for kindergarten).' });
+      return;
+    }
+
     const equations = editForm.equationsText
       .split('\n')
       .map(eq => eq.trim())
       .filter(Boolean);
 
-    const payload: Partial<ProblemRecord> = {
+    const payload: ProblemUpdate = {
       title: editForm.title.trim() || undefined,
       description: editForm.description.trim() || undefined,
       type: editForm.type,
+      difficulty: editForm.difficulty || null,
+      gradeLevel,
+      tags: parseLabelList(editForm.tagsText),
+      skills: parseLabelList(editForm.skillsText),
       metadata,
     };
 
@@ -134,75 +391,265 @@ const ProblemBrowser = () => {
 
     setSavingCode(editingCode);
     setError(null);
+    setEditErrors({});
     try {
       const updated = await updateProblem(editingCode, payload);
       setProblems(prev =>
         prev.map(problem => (problem.problem_code === editingCode ? updated : problem))
       );
+      setSelected(prev => (prev.has(editingCode) ? new Map(prev).set(editingCode, updated) : prev));
       cancelEdit();
     } catch (err) {
       console.error('Update failed', err);
-      setError(err instanceof Error ? err.message : 'Failed to update problem.');
+      if (err instanceof ValidationError && Object.keys(err.fieldErrors).length > 0) {
+        setEditErrors(err.fieldErrors);
+        const unmapped = Object.entries(err.fieldErrors).filter(([field]) => !EDIT_FIELDS.includes(field));
+        if (unmapped.length > 0) {
+          setError(`${err.message}: ${unmapped.map(([field, message]) => `${field}: ${message}`).join('; ')}`);
+        }
+      } else if (err instanceof NotFoundError) {
+        setError(`Problem "${editingCode}" no longer exists.`);
+        setProblems(prev => prev.filter(problem => problem.problem_code !== editingCode));
+        cancelEdit();
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to update problem.');
+      }
     } finally {
       setSavingCode(null);
     }
   };
 
-  const handleDelete = async (problemCode: string) => {
-    setDeletingCode(problemCode);
+  const isPageSelected = problems.length > 0 && problems.every(problem => selected.has(problem.problem_code));
+  const isPagePartlySelected = !isPageSelected && problems.some(problem => selected.has(problem.problem_code));
+
+  const toggleSelected = (problem: ProblemRecord) => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      if (!next.delete(problem.problem_code)) {
+        next.set(problem.problem_code, problem);
+      }
+      return next;
+    });
+  };
+
+  const togglePageSelected = () => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      problems.forEach(problem =>
+        isPageSelected ? next.delete(problem.problem_code) : next.set(problem.problem_code, problem)
+      );
+      return next;
+    });
+  };
+
+  const selectAllMatching = async () => {
+    setIsSelectingMatching(true);
     setError(null);
     try {
-      await deleteProblem(problemCode);
-      setProblems(prev => prev.filter(problem => problem.problem_code !== problemCode));
+      const matching = await loadMatchingProblems();
+      setSelected(new Map(matching.map(problem => [problem.problem_code, problem])));
     } catch (err) {
-      console.error('Delete failed', err);
-      setError(err instanceof Error ? err.message : 'Failed to delete problem.');
+      console.error('Failed to select matching problems', err);
+      setError(err instanceof Error ? err.message : 'Unable to load the matching problems.');
     } finally {
-      setDeletingCode(null);
+      setIsSelectingMatching(false);
+    }
+  };
+
+  const clearSelection = () => setSelected(new Map());
+
+  const openBatch = (action: BatchAction, records: ProblemRecord[]) => {
+    setPendingBatch({ action, records });
+    setTagMode('add');
+    setTagText('');
+  };
+
+  const runPendingBatch = async () => {
+    if (!pendingBatch) {
+      return;
+    }
+    const { action, records } = pendingBatch;
+    const onProgress = (done: number, total: number) => setBatchProgress({ done, total });
+    setBatchProgress({ done: 0, total: records.length });
+    setError(null);
+
+    let outcome: BatchOutcome;
+    if (action === 'delete') {
+      outcome = await deleteProblems({ deleteProblem }, records, onProgress);
+    } else if (action === 'retag') {
+      outcome = await retagProblems({ updateProblem }, records, tagMode, tagText, onProgress);
+    } else {
+      outcome = await changeProblemTypes({ updateProblem }, records, batchType, onProgress);
+    }
+
+    const succeeded = new Set(outcome.succeeded);
+    if (action === 'delete') {
+      const deleted = records.filter(record => succeeded.has(record.problem_code));
+      if (deleted.length > 0) {
+        setDeletedSnapshot(prev => [...(prev ?? []), ...deleted]);
+      }
+      setSelected(prev => new Map(Array.from(prev).filter(([code]) => !succeeded.has(code))));
+      if (editingCode && succeeded.has(editingCode)) {
+        cancelEdit();
+      }
+    } else {
+      setSelected(prev => {
+        const next = new Map(prev);
+        outcome.updated.forEach(record => {
+          if (next.has(record.problem_code)) next.set(record.problem_code, record);
+        });
+        return next;
+      });
+    }
+    if (outcome.failed.length > 0) {
+      const verb = action === 'delete' ? 'delete' : action === 'retag' ? 'retag' : 'change the type of';
+      setError(describeBatchFailures(verb, outcome.failed));
+    }
+
+    setBatchProgress(null);
+    setPendingBatch(null);
+    setReloadCount(count => count + 1);
+  };
+
+  const handleUndoDelete = async () => {
+    if (!deletedSnapshot) {
+      return;
+    }
+    const records = deletedSnapshot;
+    setDeletedSnapshot(null);
+    setIsRestoring(true);
+    setError(null);
+    const outcome = await restoreProblems({ createProblem }, records);
+    if (outcome.failed.length > 0) {
+      setError(describeBatchFailures('restore', outcome.failed));
     }
+    setIsRestoring(false);
+    setReloadCount(count => count + 1);
   };
 
   const handleOpen = (problem: ProblemRecord) => {
-    const data = mapProblemRecordToProblemData(problem);
-    navigate('/problem-chat', {
-      state: { problem: data },
-    });
+    navigate(problemPath(problem.problem_code));
   };
 
   const handleRefresh = () => {
-    setPage(1);
-    void fetchProblems();
+    updateQuery({});
+    setReloadCount(count => count + 1);
   };
 
-  const paginationLabel = useMemo(() => {
-    const start = (page - 1) * pageSize + 1;
-    const end = Math.min(page * pageSize, totalCount);
-    return totalCount > 0 ? `${start}-${end} of ${totalCount}` : '0 results';
-  }, [page, pageSize, totalCount]);
+  const downloadProblems = (records: ProblemRecord[], format: ProblemFileFormat) => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadTextFile(`problems-${date}.json`, problemsToJson(records), 'application/json');
+    } else {
+      downloadTextFile(`problems-${date}.csv`, problemsToCsv(records), 'text/csv');
+    }
+  };
 
-  return (
-    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-      <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', alignItems: 'center' }}>
-        <div style={{ flex: '1 1 200px' }}>
+  /**
+   * Download every problem matching the current filters, not just the visible page
+   */
+  const handleExport = async (format: ProblemFileFormat) => {
+    setExportingFormat(format);
+    setError(null);
+    try {
+      downloadProblems(await loadMatchingProblems(), format);
+    } catch (err) {
+      console.error('Export failed', err);
+      setError(err instanceof Error ? err.message : 'Failed to export problems.');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const handleImported = (createdCount: number) => {
+    if (createdCount > 0) {
+      setReloadCount(count => count + 1);
+    }
+  };
+
+  const renderBatchDialog = ({ action, records }: PendingBatch) => {
+    const problemCodes = records.map(record => record.problem_code);
+    const dialogProps = {
+      problemCodes,
+      progress: batchProgress,
+      onConfirm: () => void runPendingBatch(),
+      onCancel: () => setPendingBatch(null),
+    };
+
+    if (action === 'delete') {
+      return (
+        <BatchConfirmDialog
+          {...dialogProps}
+          title={`Delete ${pluralProblems(records.length)}?`}
+          confirmLabel="Delete"
+          confirmColor="#f44336"
+        >
+          <p style={{ margin: 0, color: 'rgba(31, 41, 55, 0.8)' }}>
+            You can undo this for {UNDO_WINDOW_MS / 1000} seconds afterwards.
+          </p>
+        </BatchConfirmDialog>
+      );
+    }
+
+    if (action === 'retag') {
+      return (
+        <BatchConfirmDialog
+          {...dialogProps}
+          title={`Retag ${pluralProblems(records.length)}`}
+          confirmLabel="Apply tags"
+          confirmColor="#4caf50"
+          // Replacing with nothing clears the tags, the other modes need at least one
+          confirmDisabled={tagMode !== 'replace' && parseLabelList(tagText).length === 0}
+        >
+          <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+            <div style={{ flex: '0 1 160px' }}>
+              <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+                Change
+              </label>
+              <select
+                value={tagMode}
+                onChange={(e) => setTagMode(e.target.value as TagChangeMode)}
+                style={controlStyle}
+              >
+                <option value="add">Add tags</option>
+                <option value="remove">Remove tags</option>
+                <option value="replace">Replace all tags with</option>
+              </select>
+            </div>
+            <div style={{ flex: '1 1 200px' }}>
+              <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+                Tags (comma-separated)
+              </label>
+              <input
+                type="text"
+                value={tagText}
+                onChange={(e) => setTagText(e.target.value)}
+                placeholder="e.g., unit-3, review"
+                style={controlStyle}
+              />
+            </div>
+          </div>
+        </BatchConfirmDialog>
+      );
+    }
+
+    const crossesMathKind = records.some(record => isEquationType(record.type) !== isEquationType(batchType));
+    return (
+      <BatchConfirmDialog
+        {...dialogProps}
+        title={`Change the type of ${pluralProblems(records.length)}`}
+        confirmLabel="Change type"
+        confirmColor="#646cff"
+      >
+        <div>
           <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
-            Filter by type
+            New type
           </label>
           <select
-            value={filterType}
-            onChange={(e) => {
-              setFilterType(e.target.value as FilterType);
-              setPage(1);
-            }}
-            style={{
-              width: '100%',
-              padding: '0.6rem',
-              borderRadius: '6px',
-              border: '1px solid #e5e7eb',
-              backgroundColor: '#f9fafb',
-              color: '#111827',
-            }}
+            value={batchType}
+            onChange={(e) => setBatchType(e.target.value as ProblemType)}
+            style={controlStyle}
           >
-            <option value="all">All types</option>
             {problemTypes.map(type => (
               <option key={type} value={type}>
                 {type}
@@ -210,6 +657,41 @@ const ProblemBrowser = () => {
             ))}
           </select>
         </div>
+        {crossesMathKind && (
+          <p style={{ margin: 0, color: '#b45309', fontSize: '0.9rem' }}>
+            Substitution problems use equations and the other types an expression. The math is kept as it
+            is, so problems moving between the two will need editing.
+          </p>
+        )}
+      </BatchConfirmDialog>
+    );
+  };
+
+  const paginationLabel = useMemo(() => {
+    const start = (page - 1) * pageSize + 1;
+    const end = Math.min(page * pageSize, totalCount);
+    return totalCount > 0 ? `${start}-${end} of ${totalCount}` : '0 results';
+  }, [page, pageSize, totalCount]);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      {isImportOpen && (
+        <ProblemImportDialog onClose={() => setIsImportOpen(false)} onImported={handleImported} />
+      )}
+      {pendingBatch && renderBatchDialog(pendingBatch)}
+      <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', alignItems: 'flex-end' }}>
+        <div style={{ flex: '1 1 240px' }}>
+          <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+            Search
+          </label>
+          <input
+            type="search"
+            value={searchDraft}
+            onChange={(e) => setSearchDraft(e.target.value)}
+            placeholder="Code, title, description or math"
+            style={controlStyle}
+          />
+        </div>
         <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'flex-end' }}>
           <button
             onClick={handleRefresh}
@@ -225,12 +707,208 @@ const ProblemBrowser = () => {
           >
             🔄 Refresh
           </button>
+          <button
+            onClick={() => setIsImportOpen(true)}
+            style={{
+              padding: '0.65rem 1rem',
+              backgroundColor: '#646cff',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: 'pointer',
+            }}
+          >
+            ⬆ Import
+          </button>
+          {(['json', 'csv'] as ProblemFileFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => void handleExport(format)}
+              disabled={exportingFormat !== null}
+              title={`Download every problem matching the filters as ${format.toUpperCase()}`}
+              style={{
+                padding: '0.65rem 1rem',
+                backgroundColor: '#f3f4f6',
+                color: '#111827',
+                border: '1px solid #e5e7eb',
+                borderRadius: '6px',
+                cursor: exportingFormat !== null ? 'not-allowed' : 'pointer',
+                opacity: exportingFormat !== null ? 0.7 : 1,
+              }}
+            >
+              {exportingFormat === format ? 'Exporting…' : `⬇ ${format.toUpperCase()}`}
+            </button>
+          ))}
           <span style={{ color: 'rgba(31, 41, 55, 0.8)', fontSize: '0.9rem' }}>
             {paginationLabel}
           </span>
         </div>
       </div>
 
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+        <span style={{ fontWeight: 'bold', marginRight: '0.25rem' }}>Types</span>
+        {problemTypes.map(type => {
+          const isSelected = filters.types.includes(type);
+          return (
+            <button
+              key={type}
+              onClick={() => toggleType(type)}
+              aria-pressed={isSelected}
+              style={{
+                padding: '0.3rem 0.75rem',
+                borderRadius: '999px',
+                border: `1px solid ${isSelected ? '#646cff' : '#e5e7eb'}`,
+                backgroundColor: isSelected ? '#646cff' : '#f9fafb',
+                color: isSelected ? 'white' : '#111827',
+                cursor: 'pointer',
+                fontSize: '0.85rem',
+              }}
+            >
+              {type}
+            </button>
+          );
+        })}
+        {filters.types.length === 0 && (
+          <span style={{ color: 'rgba(31, 41, 55, 0.6)', fontSize: '0.85rem' }}>All types</span>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', alignItems: 'flex-end' }}>
+        <div style={{ flex: '1 1 120px' }}>
+          <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+            Difficulty
+          </label>
+          <select
+            value={filters.difficulty}
+            onChange={(e) => updateFilters({ difficulty: e.target.value as ProblemFilters['difficulty'] })}
+            style={{ ...controlStyle, textTransform: 'capitalize' }}
+          >
+            <option value="all">Any difficulty</option>
+            {PROBLEM_DIFFICULTIES.map(level => (
+              <option key={level} value={level}>
+                {level}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ flex: '1 1 120px' }}>
+          <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+            Grade
+          </label>
+          <select
+            value={filters.gradeLevel ?? ''}
+            onChange={(e) => updateFilters({ gradeLevel: e.target.value === '' ? null : Number(e.target.value) })}
+            style={controlStyle}
+          >
+            <option value="">Any grade</option>
+            {GRADE_LEVELS.map(grade => (
+              <option key={grade} value={grade}>
+                {gradeLabel(grade)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ flex: '1 1 160px' }}>
+          <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+            Tag or skill
+          </label>
+          <input
+            type="text"
+            value={tagDraft}
+            onChange={(e) => setTagDraft(e.target.value)}
+            placeholder="e.g., unit-3"
+            style={controlStyle}
+          />
+        </div>
+        <div style={{ flex: '1 1 180px' }}>
+          <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+            Sort by
+          </label>
+          <select
+            value={sort}
+            onChange={(e) => updateQuery({ sort: e.target.value as ProblemSortKey })}
+            style={controlStyle}
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', alignItems: 'flex-end' }}>
+        <div style={{ flex: '1 1 120px' }}>
+          <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+            Date
+          </label>
+          <select
+            value={filters.dateField}
+            onChange={(e) => updateFilters({ dateField: e.target.value as ProblemDateField })}
+            style={controlStyle}
+          >
+            <option value="created">Created</option>
+            <option value="updated">Updated</option>
+          </select>
+        </div>
+        <div style={{ flex: '1 1 140px' }}>
+          <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+            From
+          </label>
+          <input
+            type="date"
+            value={filters.dateFrom}
+            max={filters.dateTo || undefined}
+            onChange={(e) => updateFilters({ dateFrom: e.target.value })}
+            style={controlStyle}
+          />
+        </div>
+        <div style={{ flex: '1 1 140px' }}>
+          <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+            To
+          </label>
+          <input
+            type="date"
+            value={filters.dateTo}
+            min={filters.dateFrom || undefined}
+            onChange={(e) => updateFilters({ dateTo: e.target.value })}
+            style={controlStyle}
+          />
+        </div>
+        <div style={{ flex: '0 1 110px' }}>
+          <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+            Per page
+          </label>
+          <select
+            value={pageSize}
+            onChange={(e) => updateQuery({ pageSize: Number(e.target.value) })}
+            style={controlStyle}
+          >
+            {PAGE_SIZES.map(size => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </div>
+        {needsClientQuery(query) && (
+          <button
+            onClick={clearFilters}
+            style={{
+              padding: '0.6rem 0.9rem',
+              backgroundColor: '#f3f4f6',
+              color: '#111827',
+              border: '1px solid #e5e7eb',
+              borderRadius: '6px',
+              cursor: 'pointer',
+            }}
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
       {error && (
         <div
           style={{
@@ -245,6 +923,107 @@ const ProblemBrowser = () => {
         </div>
       )}
 
+      {(deletedSnapshot || isRestoring) && (
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            gap: '0.75rem',
+            padding: '0.75rem 1rem',
+            backgroundColor: '#f3f4f6',
+            border: '1px solid #e5e7eb',
+            borderRadius: '6px',
+            color: '#111827',
+          }}
+        >
+          <span>
+            {isRestoring
+              ? 'Restoring deleted problems…'
+              : `Deleted ${pluralProblems(deletedSnapshot?.length ?? 0)}.`}
+          </span>
+          {deletedSnapshot && (
+            <button onClick={() => void handleUndoDelete()} style={batchButtonStyle('#646cff')}>
+              ↶ Undo
+            </button>
+          )}
+        </div>
+      )}
+
+      {problems.length > 0 && (
+        <div
+          style={{
+            display: 'flex',
+            gap: '0.5rem',
+            flexWrap: 'wrap',
+            alignItems: 'center',
+            padding: '0.6rem 1rem',
+            borderRadius: '8px',
+            border: '1px solid #e5e7eb',
+            backgroundColor: selected.size > 0 ? '#eef2ff' : '#f9fafb',
+            color: '#111827',
+          }}
+        >
+          <label style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={isPageSelected}
+              ref={input => {
+                if (input) input.indeterminate = isPagePartlySelected;
+              }}
+              onChange={togglePageSelected}
+            />
+            {selected.size > 0 ? `${selected.size} selected` : 'Select page'}
+          </label>
+          {isPageSelected && selected.size < totalCount && (
+            <button
+              onClick={() => void selectAllMatching()}
+              disabled={isSelectingMatching}
+              style={{ ...batchButtonStyle('transparent', '#4338ca'), textDecoration: 'underline' }}
+            >
+              {isSelectingMatching ? 'Selecting…' : `Select all ${totalCount} matching`}
+            </button>
+          )}
+          {selected.size > 0 && (
+            <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginLeft: 'auto' }}>
+              <button
+                onClick={() => openBatch('retag', Array.from(selected.values()))}
+                style={batchButtonStyle('#ffc107', '#0a0a0a')}
+              >
+                🏷 Retag
+              </button>
+              <button
+                onClick={() => openBatch('type', Array.from(selected.values()))}
+                style={batchButtonStyle('#646cff')}
+              >
+                Change type
+              </button>
+              {(['json', 'csv'] as ProblemFileFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => downloadProblems(Array.from(selected.values()), format)}
+                  style={{ ...batchButtonStyle('#ffffff', '#111827'), border: '1px solid #e5e7eb' }}
+                >
+                  ⬇ {format.toUpperCase()}
+                </button>
+              ))}
+              <button
+                onClick={() => openBatch('delete', Array.from(selected.values()))}
+                style={batchButtonStyle('#f44336')}
+              >
+                Delete
+              </button>
+              <button
+                onClick={clearSelection}
+                style={{ ...batchButtonStyle('#f3f4f6', '#111827'), border: '1px solid #e5e7eb' }}
+              >
+                Clear selection
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
         {loading && (
           <div style={{ color: 'rgba(31, 41, 55, 0.8)' }}>Loading problems…</div>
@@ -258,13 +1037,14 @@ const ProblemBrowser = () => {
 
         {problems.map(problem => {
           const isEditing = editingCode === problem.problem_code;
+          const isSelected = selected.has(problem.problem_code);
           return (
             <div
               key={problem.problem_code}
               style={{
                 padding: '1rem',
                 borderRadius: '8px',
-                border: '1px solid #e5e7eb',
+                border: `1px solid ${isSelected ? '#646cff' : '#e5e7eb'}`,
                 backgroundColor: '#ffffff',
                 boxShadow: '0 1px 2px rgba(0, 0, 0, 0.04)',
               }}
@@ -278,12 +1058,37 @@ const ProblemBrowser = () => {
                   gap: '0.75rem',
                 }}
               >
-                <div>
-                  <div style={{ fontWeight: 'bold', fontSize: '1rem' }}>
-                    {problem.title || '(Untitled)'}
-                  </div>
-                  <div style={{ fontSize: '0.9rem', color: 'rgba(55, 65, 81, 0.85)' }}>
-                    {problem.problem_code} · {problem.type}
+                <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'flex-start' }}>
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    onChange={() => toggleSelected(problem)}
+                    aria-label={`Select ${problem.problem_code}`}
+                    style={{ marginTop: '0.3rem', cursor: 'pointer' }}
+                  />
+                  <div>
+                    <div style={{ fontWeight: 'bold', fontSize: '1rem' }}>
+                      {problem.title || '(Untitled)'}
+                    </div>
+                    <div style={{ fontSize: '0.9rem', color: 'rgba(55, 65, 81, 0.85)' }}>
+                      {problem.problem_code} · {problem.type}
+                      {problem.gradeLevel !== undefined && ` · ${gradeLabel(problem.gradeLevel)}`}
+                    </div>
+                    {Boolean(problem.difficulty || problem.tags?.length || problem.skills?.length) && (
+                      <div style={{ display: 'flex', gap: '0.35rem', flexWrap: 'wrap', marginTop: '0.35rem' }}>
+                        {problem.difficulty && <DifficultyBadge difficulty={problem.difficulty} />}
+                        {problem.tags?.map(tag => (
+                          <span key={`tag-${tag}`} style={labelChipStyle('#eef2ff', '#4338ca')}>
+                            #{tag}
+                          </span>
+                        ))}
+                        {problem.skills?.map(skill => (
+                          <span key={`skill-${skill}`} style={labelChipStyle('#ecfdf3', '#166534')}>
+                            {skill}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
@@ -316,20 +1121,18 @@ const ProblemBrowser = () => {
                     {isEditing ? 'Cancel' : 'Edit'}
                   </button>
                   <button
-                    onClick={() => handleDelete(problem.problem_code)}
-                    disabled={deletingCode === problem.problem_code}
+                    onClick={() => openBatch('delete', [problem])}
                     style={{
                       padding: '0.4rem 0.75rem',
                       backgroundColor: '#f44336',
                       color: 'white',
                       border: 'none',
                       borderRadius: '6px',
-                      cursor: deletingCode === problem.problem_code ? 'not-allowed' : 'pointer',
+                      cursor: 'pointer',
                       fontSize: '0.9rem',
-                      opacity: deletingCode === problem.problem_code ? 0.7 : 1,
                     }}
                   >
-                    {deletingCode === problem.problem_code ? 'Deleting…' : 'Delete'}
+                    Delete
                   </button>
                 </div>
               </div>
@@ -350,16 +1153,17 @@ const ProblemBrowser = () => {
                       <input
                         type="text"
                         value={editForm.title}
-                        onChange={(e) => setEditForm({ ...editForm, title: e.target.value })}
+                        onChange={(e) => updateEditField('title', 'title', e.target.value)}
                         style={{
                           width: '100%',
                           padding: '0.65rem',
                           borderRadius: '6px',
-                      border: '1px solid #e5e7eb',
+                      border: editBorder('title'),
                       backgroundColor: '#f9fafb',
                       color: '#111827',
                         }}
                       />
+                      {renderEditError('title')}
                     </div>
                     <div style={{ flex: '1 1 180px' }}>
                       <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
@@ -367,14 +1171,12 @@ const ProblemBrowser = () => {
                       </label>
                       <select
                         value={editForm.type}
-                        onChange={(e) =>
-                          setEditForm({ ...editForm, type: e.target.value as ProblemType })
-                        }
+                        onChange={(e) => updateEditField('type', 'type', e.target.value)}
                         style={{
                           width: '100%',
                           padding: '0.65rem',
                           borderRadius: '6px',
-                      border: '1px solid #e5e7eb',
+                      border: editBorder('type'),
                       backgroundColor: '#f9fafb',
                       color: '#111827',
                         }}
@@ -385,6 +1187,7 @@ const ProblemBrowser = () => {
                           </option>
                         ))}
                       </select>
+                      {renderEditError('type')}
                     </div>
                   </div>
 
@@ -394,18 +1197,86 @@ const ProblemBrowser = () => {
                     </label>
                     <textarea
                       value={editForm.description}
-                      onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
+                      onChange={(e) => updateEditField('description', 'description', e.target.value)}
                       rows={2}
                       style={{
                         width: '100%',
                         padding: '0.65rem',
                         borderRadius: '6px',
-                      border: '1px solid #e5e7eb',
+                      border: editBorder('description'),
                       backgroundColor: '#f9fafb',
                       color: '#111827',
                         resize: 'vertical',
                       }}
                     />
+                    {renderEditError('description')}
+                  </div>
+
+                  <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+                    <div style={{ flex: '1 1 140px' }}>
+                      <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+                        Difficulty
+                      </label>
+                      <select
+                        value={editForm.difficulty}
+                        onChange={(e) => updateEditField('difficulty', 'difficulty', e.target.value)}
+                        style={{
+                          ...controlStyle,
+                          padding: '0.65rem',
+                          border: editBorder('difficulty'),
+                          textTransform: 'capitalize',
+                        }}
+                      >
+                        <option value="">Not set</option>
+                        {PROBLEM_DIFFICULTIES.map(level => (
+                          <option key={level} value={level}>
+                            {level}
+                          </option>
+                        ))}
+                      </select>
+                      {renderEditError('difficulty')}
+                    </div>
+                    <div style={{ flex: '1 1 140px' }}>
+                      <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+                        Grade level
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={editForm.gradeLevelText}
+                        onChange={(e) => updateEditField('gradeLevelText', 'gradeLevel', e.target.value)}
+                        style={{ ...controlStyle, padding: '0.65rem', border: editBorder('gradeLevel') }}
+                      />
+                      {renderEditError('gradeLevel')}
+                    </div>
+                  </div>
+
+                  <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+                    <div style={{ flex: '1 1 200px' }}>
+                      <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+                        Tags (comma-separated)
+                      </label>
+                      <input
+                        type="text"
+                        value={editForm.tagsText}
+                        onChange={(e) => updateEditField('tagsText', 'tags', e.target.value)}
+                        style={{ ...controlStyle, padding: '0.65rem', border: editBorder('tags') }}
+                      />
+                      {renderEditError('tags')}
+                    </div>
+                    <div style={{ flex: '1 1 200px' }}>
+                      <label style={{ display: 'block', marginBottom: '0.35rem', fontWeight: 'bold' }}>
+                        Skills (comma-separated)
+                      </label>
+                      <input
+                        type="text"
+                        value={editForm.skillsText}
+                        onChange={(e) => updateEditField('skillsText', 'skills', e.target.value)}
+                        style={{ ...controlStyle, padding: '0.65rem', border: editBorder('skills') }}
+                      />
+                      {renderEditError('skills')}
+                    </div>
                   </div>
 
                   {isEquationType(editForm.type) ? (
@@ -415,18 +1286,19 @@ const ProblemBrowser = () => {
                       </label>
                       <textarea
                         value={editForm.equationsText}
-                        onChange={(e) => setEditForm({ ...editForm, equationsText: e.target.value })}
+                        onChange={(e) => updateEditField('equationsText', 'equations', e.target.value)}
                         rows={3}
                         style={{
                           width: '100%',
                           padding: '0.65rem',
                           borderRadius: '6px',
-                      border: '1px solid #e5e7eb',
+                      border: editBorder('equations'),
                       backgroundColor: '#f9fafb',
                       color: '#111827',
                           fontFamily: 'monospace',
                         }}
                       />
+                      {renderEditError('equations')}
                     </div>
                   ) : (
                     <div>
@@ -436,17 +1308,18 @@ const ProblemBrowser = () => {
                       <input
                         type="text"
                         value={editForm.expression}
-                        onChange={(e) => setEditForm({ ...editForm, expression: e.target.value })}
+                        onChange={(e) => updateEditField('expression', 'expression', e.target.value)}
                         style={{
                           width: '100%',
                           padding: '0.65rem',
                           borderRadius: '6px',
-                      border: '1px solid #e5e7eb',
+                      border: editBorder('expression'),
                       backgroundColor: '#f9fafb',
                       color: '#111827',
                           fontFamily: 'monospace',
                         }}
                       />
+                      {renderEditError('expression')}
                     </div>
                   )}
 
@@ -456,18 +1329,19 @@ const ProblemBrowser = () => {
                     </label>
                     <textarea
                       value={editForm.metadataText}
-                      onChange={(e) => setEditForm({ ...editForm, metadataText: e.target.value })}
+                      onChange={(e) => updateEditField('metadataText', 'metadata', e.target.value)}
                       rows={3}
                       style={{
                         width: '100%',
                         padding: '0.65rem',
                         borderRadius: '6px',
-                      border: '1px solid #e5e7eb',
+                      border: editBorder('metadata'),
                       backgroundColor: '#f9fafb',
                       color: '#111827',
                         fontFamily: 'monospace',
                       }}
                     />
+                    {renderEditError('metadata')}
                   </div>
 
                   <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
@@ -512,7 +1386,7 @@ const ProblemBrowser = () => {
       {totalPages > 1 && (
         <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', justifyContent: 'flex-end' }}>
           <button
-            onClick={() => setPage(Math.max(1, page - 1))}
+            onClick={() => updateQuery({ page: Math.max(1, page - 1) })}
             disabled={page <= 1}
             style={{
               padding: '0.45rem 0.9rem',
@@ -530,7 +1404,7 @@ const ProblemBrowser = () => {
             Page {page} / {totalPages}
           </div>
           <button
-            onClick={() => setPage(Math.min(totalPages, page + 1))}
+            onClick={() => updateQuery({ page: Math.min(totalPages, page + 1) })}
             disabled={page >= totalPages}
             style={{
               padding: '0.45rem 0.9rem',
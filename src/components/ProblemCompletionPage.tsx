@@ -1,17 +1,181 @@
-import { useLocation, useNavigate } from 'react-router-dom';
+import { useEffect, useRef, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import katex from 'katex';
+import 'katex/dist/katex.min.css';
+import {
+  attemptDuration,
+  formatDuration,
+  getAttempt,
+  type AttemptLineResult,
+  type AttemptRecord,
+} from '../utils/attemptHistoryStore';
+import { findNextProblem } from '../utils/problemRecommendation';
+import { problemPath } from '../utils/problemRoutes';
+import type { ProblemDifficulty, ProblemRecord, ProblemType } from '../utils/validationApi';
+import { useValidationBackend } from '../utils/validationBackend';
 import './Demo.css';
 
+const RESULT_STYLES: Record<string, { icon: string; color: string }> = {
+  valid: { icon: '✓', color: '#16a34a' },
+  needs_review: { icon: '?', color: '#d97706' },
+  invalid: { icon: '✗', color: '#dc2626' },
+};
+
+const statStyle: React.CSSProperties = {
+  flex: '1 1 0',
+  padding: '1rem',
+  border: '1px solid #e5e7eb',
+  borderRadius: '8px',
+  backgroundColor: '#ffffff',
+};
+
+const primaryButtonStyle: React.CSSProperties = {
+  padding: '1rem 2rem',
+  fontSize: '1.2rem',
+  fontWeight: 'bold',
+  backgroundColor: '#4f46e5',
+  color: 'white',
+  border: '1px solid #4338ca',
+  borderRadius: '8px',
+  cursor: 'pointer',
+  transition: 'background-color 0.2s',
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+  ...primaryButtonStyle,
+  backgroundColor: '#ffffff',
+  color: '#4f46e5',
+  border: '1px solid #c7d2fe',
+};
+
+const KatexLine = ({ latex }: { latex: string }) => {
+  const ref = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    if (!ref.current) return;
+    try {
+      katex.render(latex, ref.current, { throwOnError: false, displayMode: false });
+    } catch {
+      ref.current.textContent = latex;
+    }
+  }, [latex]);
+
+  return <span ref={ref} />;
+};
+
+const SolutionLine = ({
+  index,
+  latex,
+  note,
+  result,
+}: {
+  index: number;
+  latex: string;
+  note: string;
+  result: AttemptLineResult;
+}) => {
+  const style = result.status ? RESULT_STYLES[result.status] : null;
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'baseline',
+        gap: '0.75rem',
+        padding: '0.5rem 0.75rem',
+        borderBottom: '1px solid #f3f4f6',
+      }}
+    >
+      <span style={{ color: 'rgba(31, 41, 55, 0.5)', minWidth: '1.5rem' }}>{index + 1}.</span>
+      <span style={{ flex: 1, fontSize: '1.15rem', overflowX: 'auto' }}>
+        <KatexLine latex={latex} />
+      </span>
+      {note && <span style={{ color: 'rgba(31, 41, 55, 0.6)', fontStyle: 'italic', fontSize: '0.9rem' }}>{note}</span>}
+      {style && (
+        <span title={result.feedback ?? undefined} style={{ color: style.color, fontWeight: 'bold' }}>
+          {style.icon}
+        </span>
+      )}
+    </div>
+  );
+};
+
 const ProblemCompletionPage = () => {
   const location = useLocation();
   const navigate = useNavigate();
+  const { listProblems, listProblemsByType } = useValidationBackend();
   const lastMessage = location.state?.lastMessage as string | undefined;
   const problemTitle = location.state?.problemTitle as string | undefined;
+  const attemptId = location.state?.attemptId as string | undefined;
+  const stateProblemType = location.state?.problemType as ProblemType | undefined;
+  const stateProblemCode = location.state?.problemCode as string | undefined;
+  const stateDifficulty = location.state?.problemDifficulty as ProblemDifficulty | undefined;
+
+  // Results tagged with the attempt they were loaded for
+  const [loadedAttempt, setLoadedAttempt] = useState<{ id: string; attempt: AttemptRecord | null } | null>(null);
+  const [nextProblem, setNextProblem] = useState<{
+    for: string;
+    problem: ProblemRecord | null;
+    failed: boolean;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!attemptId) return;
+    let cancelled = false;
+    getAttempt(attemptId)
+      .then(attempt => !cancelled && setLoadedAttempt({ id: attemptId, attempt }))
+      .catch(error => {
+        console.warn('Could not load the attempt summary:', error);
+        if (!cancelled) setLoadedAttempt({ id: attemptId, attempt: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attemptId]);
+
+  const attempt = loadedAttempt && loadedAttempt.id === attemptId ? loadedAttempt.attempt : null;
+  const problemType = attempt?.problem.type ?? stateProblemType;
+  const problemCode = attempt?.problemCode ?? stateProblemCode;
+  const difficulty = attempt?.problem.difficulty ?? stateDifficulty;
+  const recommendationKey = `${problemType}:${problemCode ?? ''}:${difficulty ?? ''}`;
+
+  useEffect(() => {
+    if (!problemType) return;
+    const controller = new AbortController();
+    findNextProblem(
+      { listProblems, listProblemsByType },
+      { type: problemType, problemCode, difficulty },
+      { signal: controller.signal }
+    )
+      .then(problem => setNextProblem({ for: recommendationKey, problem, failed: false }))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.warn('Could not find a next problem:', error);
+        setNextProblem({ for: recommendationKey, problem: null, failed: true });
+      });
+    return () => controller.abort();
+  }, [listProblems, listProblemsByType, problemType, problemCode, difficulty, recommendationKey]);
+
+  const recommendation = nextProblem?.for === recommendationKey ? nextProblem : null;
+  const next = recommendation?.problem ?? null;
+  const isFindingNext = Boolean(problemType) && !recommendation;
+  const solvingRun = attempt?.runs.find(run => run.isSolved) ?? attempt?.runs[attempt.runs.length - 1];
+  const solutionLines = solvingRun
+    ? solvingRun.lines
+        .map((latex, index) => ({
+          latex,
+          index,
+          note: solvingRun.notes[index] ?? '',
+          result: solvingRun.results[index],
+        }))
+        .filter(line => line.latex.trim() !== '')
+    : [];
+  const correctLines = solutionLines.filter(line => line.result?.status === 'valid').length;
 
   return (
     <div className="demo-container">
       <div className="demo-content">
-        <div className="input-section" style={{ 
-          maxWidth: '800px', 
+        <div className="input-section" style={{
+          maxWidth: '800px',
           margin: '0 auto',
           textAlign: 'center',
         }}>
@@ -21,9 +185,9 @@ const ProblemCompletionPage = () => {
           }}>
             🎉
           </div>
-          
-          <h1 style={{ 
-            fontSize: '2.5rem', 
+
+          <h1 style={{
+            fontSize: '2.5rem',
             marginBottom: '1rem',
             color: '#16a34a',
           }}>
@@ -31,8 +195,8 @@ const ProblemCompletionPage = () => {
           </h1>
 
           {problemTitle && (
-            <h2 style={{ 
-              fontSize: '1.5rem', 
+            <h2 style={{
+              fontSize: '1.5rem',
               marginBottom: '2rem',
               color: 'rgba(31, 41, 55, 0.85)',
             }}>
@@ -57,28 +221,96 @@ const ProblemCompletionPage = () => {
             </div>
           )}
 
-          <button
-            onClick={() => navigate('/')}
-            style={{
-              padding: '1rem 2rem',
-              fontSize: '1.2rem',
-              fontWeight: 'bold',
-              backgroundColor: '#4f46e5',
-              color: 'white',
-              border: '1px solid #4338ca',
+          {attempt && (
+            <div style={{ display: 'flex', gap: '1rem', marginBottom: '2rem', flexWrap: 'wrap' }}>
+              <div style={statStyle}>
+                <div style={{ fontSize: '1.75rem', fontWeight: 'bold' }}>{attempt.runs.length}</div>
+                <div style={{ color: 'rgba(31, 41, 55, 0.7)' }}>
+                  {attempt.runs.length === 1 ? 'validation attempt' : 'validation attempts'}
+                </div>
+              </div>
+              <div style={statStyle}>
+                <div style={{ fontSize: '1.75rem', fontWeight: 'bold' }}>{attempt.hints.length}</div>
+                <div style={{ color: 'rgba(31, 41, 55, 0.7)' }}>
+                  {attempt.hints.length === 1 ? 'hint used' : 'hints used'}
+                </div>
+              </div>
+              <div style={statStyle}>
+                <div style={{ fontSize: '1.75rem', fontWeight: 'bold' }}>{formatDuration(attemptDuration(attempt))}</div>
+                <div style={{ color: 'rgba(31, 41, 55, 0.7)' }}>time to solve</div>
+              </div>
+            </div>
+          )}
+
+          {solutionLines.length > 0 && (
+            <div style={{
+              marginBottom: '2rem',
+              textAlign: 'left',
+              border: '1px solid #e5e7eb',
               borderRadius: '8px',
-              cursor: 'pointer',
-              transition: 'background-color 0.2s',
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.backgroundColor = '#4338ca';
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.backgroundColor = '#4f46e5';
-            }}
-          >
-            🚀 Try Another Problem
-          </button>
+              backgroundColor: '#ffffff',
+            }}>
+              <div style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                padding: '0.75rem',
+                borderBottom: '1px solid #e5e7eb',
+              }}>
+                <strong>Your solution</strong>
+                <span style={{ color: 'rgba(31, 41, 55, 0.7)' }}>
+                  {correctLines} of {solutionLines.length} lines correct
+                </span>
+              </div>
+              {solutionLines.map(line => (
+                <SolutionLine
+                  key={line.index}
+                  index={line.index}
+                  latex={line.latex}
+                  note={line.note}
+                  result={line.result ?? { status: null, feedback: null }}
+                />
+              ))}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '1rem', justifyContent: 'center', flexWrap: 'wrap' }}>
+            {next && (
+              <button
+                onClick={() => navigate(problemPath(next.problem_code))}
+                style={primaryButtonStyle}
+                title={next.title || next.problem_code}
+              >
+                ➡️ Next Problem
+              </button>
+            )}
+            <button
+              onClick={() => navigate('/')}
+              style={next ? secondaryButtonStyle : primaryButtonStyle}
+              onMouseEnter={(e) => {
+                if (!next) e.currentTarget.style.backgroundColor = '#4338ca';
+              }}
+              onMouseLeave={(e) => {
+                if (!next) e.currentTarget.style.backgroundColor = '#4f46e5';
+              }}
+            >
+              🚀 Try Another Problem
+            </button>
+          </div>
+
+          {isFindingNext && (
+            <p style={{ marginTop: '1rem', color: 'rgba(31, 41, 55, 0.7)' }}>Looking for your next problem…</p>
+          )}
+          {recommendation && !next && !recommendation.failed && (
+            <p style={{ marginTop: '1rem', color: 'rgba(31, 41, 55, 0.7)' }}>
+              You have solved every {problemType} problem available. Pick any problem to keep practicing.
+            </p>
+          )}
+
+          {attemptId && (
+            <p style={{ marginTop: '1.5rem' }}>
+              <Link to={`/history/${encodeURIComponent(attemptId)}`}>Review this attempt step by step</Link>
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -86,4 +318,3 @@ const ProblemCompletionPage = () => {
 };
 
 export default ProblemCompletionPage;
-
@@ -0,0 +1,337 @@
+import { useRef, useState } from 'react';
+import { ConflictError, ValidationError } from '../utils/apiErrors';
+import { listAllProblems } from '../utils/problemFilters';
+import {
+  detectProblemFileFormat,
+  parseProblemImport,
+  type ImportRow,
+  type ProblemFileFormat,
+} from '../utils/problemTransfer';
+import { isAbortError } from '../utils/validationApi';
+import { useValidationBackend } from '../utils/validationBackend';
+
+interface ProblemImportDialogProps {
+  onClose: () => void;
+  /** Called once an import has finished, with the number of problems created */
+  onImported: (createdCount: number) => void;
+}
+
+type RowResult = { status: 'created' } | { status: 'failed'; message: string };
+
+const buttonStyle = (backgroundColor: string, disabled = false): React.CSSProperties => ({
+  padding: '0.5rem 0.9rem',
+  backgroundColor,
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontSize: '0.9rem',
+  opacity: disabled ? 0.6 : 1,
+});
+
+const cellStyle: React.CSSProperties = {
+  padding: '0.4rem 0.5rem',
+  borderBottom: '1px solid #f3f4f6',
+  textAlign: 'left',
+  verticalAlign: 'top',
+};
+
+const describeFailure = (error: unknown) => {
+  if (error instanceof ConflictError) {
+    return 'A problem with this code already exists.';
+  }
+  if (error instanceof ValidationError && Object.keys(error.fieldErrors).length > 0) {
+    return Object.entries(error.fieldErrors)
+      .map(([field, message]) => `${field}: ${message}`)
+      .join('; ');
+  }
+  return error instanceof Error ? error.message : 'Failed to create problem.';
+};
+
+/**
+ * Creates problems in bulk from a JSON or CSV file, after a preview that
+ * flags every row that cannot be imported
+ */
+const ProblemImportDialog = ({ onClose, onImported }: ProblemImportDialogProps) => {
+  const { createProblem, listProblems, listProblemsByType } = useValidationBackend();
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<ProblemFileFormat | null>(null);
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [results, setResults] = useState<Map<number, RowResult>>(new Map());
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const readyRows = rows?.filter(row => row.payload && row.errors.length === 0) ?? [];
+  const hasImported = progress !== null && !isImporting;
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setText(await file.text());
+    setRows(null);
+    setFileError(null);
+  };
+
+  const handlePreview = async () => {
+    const resolvedFormat = detectProblemFileFormat(text, fileName);
+    setIsChecking(true);
+    setFileError(null);
+    setWarning(null);
+    setResults(new Map());
+    setProgress(null);
+
+    let existingCodes = new Set<string>();
+    try {
+      const existing = await listAllProblems({ listProblems, listProblemsByType }, 'all');
+      existingCodes = new Set(existing.map(problem => problem.problem_code));
+    } catch (error) {
+      console.warn('Could not load existing problems for the duplicate check', error);
+      setWarning('Existing problems could not be loaded, so codes already in use will only be caught while importing.');
+    }
+
+    try {
+      setRows(parseProblemImport(text, resolvedFormat, existingCodes));
+      setFormat(resolvedFormat);
+    } catch (error) {
+      setRows(null);
+      setFileError(error instanceof Error ? error.message : 'The file could not be read.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsImporting(true);
+    setProgress({ done: 0, total: readyRows.length });
+
+    let created = 0;
+    // One at a time, so a failure is tied to its row and the API is not flooded
+    for (const [index, row] of readyRows.entries()) {
+      if (controller.signal.aborted) break;
+      let result: RowResult;
+      try {
+        await createProblem(row.payload!, { signal: controller.signal });
+        result = { status: 'created' };
+        created++;
+      } catch (error) {
+        if (isAbortError(error)) break;
+        console.error('Import of a problem failed', error);
+        result = { status: 'failed', message: describeFailure(error) };
+      }
+      setResults(prev => new Map(prev).set(row.line, result));
+      setProgress({ done: index + 1, total: readyRows.length });
+    }
+
+    abortRef.current = null;
+    setIsImporting(false);
+    onImported(created);
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const lineLabel = format === 'json' ? 'Item' : 'Line';
+  const createdCount = Array.from(results.values()).filter(result => result.status === 'created').length;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Import problems"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 1000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '1rem',
+        backgroundColor: 'rgba(17, 24, 39, 0.45)',
+      }}
+    >
+      <div
+        style={{
+          width: 'min(900px, 100%)',
+          maxHeight: '85vh',
+          overflowY: 'auto',
+          padding: '1.25rem',
+          borderRadius: '8px',
+          backgroundColor: '#ffffff',
+          color: '#111827',
+          boxShadow: '0 10px 30px rgba(0, 0, 0, 0.25)',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '1rem',
+        }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <h2 style={{ margin: 0 }}>Import problems</h2>
+          <button
+            onClick={handleClose}
+            style={{ ...buttonStyle('#f3f4f6'), color: '#111827', border: '1px solid #e5e7eb' }}
+          >
+            {isImporting ? 'Stop & close' : 'Close'}
+          </button>
+        </div>
+
+        <p style={{ margin: 0, color: 'rgba(31, 41, 55, 0.8)', fontSize: '0.9rem' }}>
+          Upload a JSON array of problems or a CSV file with a header row. CSV columns are problem_code, type,
+          title, description, equations, expression, difficulty, tags, skills, gradeLevel and metadata; separate
+          several equations, tags or skills with ";".
+        </p>
+
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap' }}>
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            disabled={isImporting}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void handleFile(file);
+            }}
+          />
+          {fileName && <span style={{ fontSize: '0.85rem', color: 'rgba(31, 41, 55, 0.7)' }}>{fileName}</span>}
+        </div>
+
+        <textarea
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setFileName('');
+            setRows(null);
+          }}
+          disabled={isImporting}
+          placeholder="…or paste JSON or CSV here"
+          rows={5}
+          style={{
+            width: '100%',
+            padding: '0.65rem',
+            borderRadius: '6px',
+            border: '1px solid #e5e7eb',
+            backgroundColor: '#f9fafb',
+            color: '#111827',
+            fontFamily: 'monospace',
+            fontSize: '0.85rem',
+            resize: 'vertical',
+          }}
+        />
+
+        <div>
+          <button
+            onClick={() => void handlePreview()}
+            disabled={!text.trim() || isChecking || isImporting}
+            style={buttonStyle('#646cff', !text.trim() || isChecking || isImporting)}
+          >
+            {isChecking ? 'Checking…' : 'Preview'}
+          </button>
+        </div>
+
+        {fileError && <div style={{ color: '#f44336' }}>{fileError}</div>}
+        {warning && <div style={{ color: '#b45309', fontSize: '0.9rem' }}>{warning}</div>}
+
+        {rows && (
+          <>
+            <div style={{ fontSize: '0.9rem' }}>
+              {rows.length} {rows.length === 1 ? 'row' : 'rows'} read · {readyRows.length} ready ·{' '}
+              {rows.length - readyRows.length} with errors
+            </div>
+            <div style={{ overflowX: 'auto' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85rem' }}>
+                <thead>
+                  <tr>
+                    <th style={cellStyle}>{lineLabel}</th>
+                    <th style={cellStyle}>Code</th>
+                    <th style={cellStyle}>Type</th>
+                    <th style={cellStyle}>Title</th>
+                    <th style={cellStyle}>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => {
+                    const result = results.get(row.line);
+                    return (
+                      <tr
+                        key={row.line}
+                        style={{ backgroundColor: row.errors.length > 0 ? 'rgba(244, 67, 54, 0.06)' : undefined }}
+                      >
+                        <td style={cellStyle}>{row.line}</td>
+                        <td style={{ ...cellStyle, fontFamily: 'monospace' }}>{row.payload?.problem_code ?? '—'}</td>
+                        <td style={cellStyle}>{row.payload?.type ?? '—'}</td>
+                        <td style={cellStyle}>{row.payload?.title ?? ''}</td>
+                        <td style={cellStyle}>
+                          {row.errors.length > 0 ? (
+                            <ul style={{ margin: 0, paddingLeft: '1rem', color: '#f44336' }}>
+                              {row.errors.map((message, index) => (
+                                <li key={index}>{message}</li>
+                              ))}
+                            </ul>
+                          ) : result?.status === 'created' ? (
+                            <span style={{ color: '#16a34a' }}>✓ Created</span>
+                          ) : result?.status === 'failed' ? (
+                            <span style={{ color: '#f44336' }}>✗ {result.message}</span>
+                          ) : (
+                            <span style={{ color: 'rgba(31, 41, 55, 0.7)' }}>Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {progress && (
+              <div>
+                <div
+                  style={{
+                    height: '8px',
+                    borderRadius: '4px',
+                    backgroundColor: '#e5e7eb',
+                    overflow: 'hidden',
+                    marginBottom: '0.35rem',
+                  }}
+                >
+                  <div
+                    style={{
+                      width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 100}%`,
+                      height: '100%',
+                      backgroundColor: '#4caf50',
+                      transition: 'width 0.2s',
+                    }}
+                  />
+                </div>
+                <div style={{ fontSize: '0.9rem' }}>
+                  {isImporting
+                    ? `Importing ${progress.done} of ${progress.total}…`
+                    : `Created ${createdCount} of ${progress.total} problems.`}
+                </div>
+              </div>
+            )}
+
+            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '0.5rem' }}>
+              <button
+                onClick={() => void handleImport()}
+                disabled={readyRows.length === 0 || isImporting || hasImported}
+                style={buttonStyle('#4caf50', readyRows.length === 0 || isImporting || hasImported)}
+              >
+                {isImporting
+                  ? 'Importing…'
+                  : `Import ${readyRows.length} ${readyRows.length === 1 ? 'problem' : 'problems'}`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProblemImportDialog;
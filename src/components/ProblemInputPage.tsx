@@ -1,32 +1,18 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import './Demo.css';
 import ProblemBrowser from './ProblemBrowser.tsx';
+import DifficultyBadge from './DifficultyBadge';
 import {
-  createProblem,
+  type ProblemDifficulty,
   type ProblemPayload,
   type ProblemRecord,
   type ProblemType,
 } from '../utils/validationApi';
-
-interface ProblemData {
-  type: ProblemType;
-  title?: string;
-  description?: string;
-  equations?: string[];
-  expression?: string;
-}
-
-const mapProblemRecordToProblemData = (problem: ProblemRecord): ProblemData => {
-  const data = problem.problemData || {};
-  return {
-    type: problem.type,
-    title: problem.title ?? data.title,
-    description: problem.description ?? data.description,
-    equations: data.equations ?? problem.equations,
-    expression: data.expression ?? problem.expression,
-  };
-};
+import { ConflictError, ValidationError, type FieldErrors } from '../utils/apiErrors';
+import { useValidationBackend } from '../utils/validationBackend';
+import { inlineProblemPath, problemPath, toProblemData, type ProblemData } from '../utils/problemRoutes';
+import { PROBLEM_DIFFICULTIES, parseLabelList } from '../utils/problemFilters';
 
 // Pre-generated problems
 const PREGENERATED_PROBLEMS: Record<ProblemType, ProblemData[]> = {
@@ -34,24 +20,28 @@ const PREGENERATED_PROBLEMS: Record<ProblemType, ProblemData[]> = {
     {
       type: 'substitution',
       title: 'System of Equations - Easy',
+      difficulty: 'easy',
       description: 'Solve the following system of equations. Use any method you prefer:',
       equations: ['y = 2x + 1', '3x + 2y = 12'],
     },
     {
       type: 'substitution',
       title: 'System of Equations - Medium',
+      difficulty: 'medium',
       description: 'Solve the following system of equations:',
       equations: ['2x + y = 7', 'x - 3y = -11'],
     },
     {
       type: 'substitution',
       title: 'System of Equations - Hard',
+      difficulty: 'hard',
       description: 'Solve the following system of equations:',
       equations: ['3x - 2y = 5', '5x + 4y = 1'],
     },
     {
       type: 'substitution',
       title: 'Word Problem - Ages',
+      difficulty: 'easy',
       description:
         'The sum of two numbers is 15. One number is 3 more than the other. Find both numbers.',
       equations: ['x + y = 15', 'x = y + 3'],
@@ -61,24 +51,28 @@ const PREGENERATED_PROBLEMS: Record<ProblemType, ProblemData[]> = {
     {
       type: 'factor',
       title: 'Difference of Squares - Basic',
+      difficulty: 'easy',
       description: 'Factor the following expression using the difference of squares pattern:',
       expression: 'x^2 - 16',
     },
     {
       type: 'factor',
       title: 'Difference of Squares - Medium',
+      difficulty: 'medium',
       description: 'Factor the following expression:',
       expression: '4x^2 - 25',
     },
     {
       type: 'factor',
       title: 'Difference of Squares - Advanced',
+      difficulty: 'hard',
       description: 'Factor the following expression:',
       expression: '9a^2 - 16b^2',
     },
     {
       type: 'factor',
       title: 'Difference of Squares - Large Numbers',
+      difficulty: 'easy',
       description: 'Factor the following expression:',
       expression: 'x^2 - 100',
     },
@@ -87,30 +81,35 @@ const PREGENERATED_PROBLEMS: Record<ProblemType, ProblemData[]> = {
     {
       type: 'simplify',
       title: 'Exponent Rules - Division',
+      difficulty: 'easy',
       description: 'Simplify the following expression using exponent rules:',
       expression: 'x^4/x^2',
     },
     {
       type: 'simplify',
       title: 'Exponent Rules - Power of a Power',
+      difficulty: 'easy',
       description: 'Simplify the following expression:',
       expression: '(x^3)^2',
     },
     {
       type: 'simplify',
       title: 'Combining Like Terms',
+      difficulty: 'easy',
       description: 'Simplify the following expression by combining like terms:',
       expression: '2x + 3x - 5x',
     },
     {
       type: 'simplify',
       title: 'Distributive Property',
+      difficulty: 'medium',
       description: 'Simplify the following expression:',
       expression: '3(x + 2) - 2x',
     },
     {
       type: 'simplify',
       title: 'Mixed Simplification',
+      difficulty: 'medium',
       description: 'Simplify the following expression:',
       expression: '(x^2 * x^3) / x^2',
     },
@@ -119,55 +118,78 @@ const PREGENERATED_PROBLEMS: Record<ProblemType, ProblemData[]> = {
     {
       type: 'arithmetic',
       title: 'BODMAS - Basic',
+      difficulty: 'easy',
       description: 'Evaluate the following expression using BODMAS (order of operations):',
       expression: '2 + 3 × 4',
     },
     {
       type: 'arithmetic',
       title: 'BODMAS - With Parentheses',
+      difficulty: 'easy',
       description: 'Evaluate the following expression:',
       expression: '(5 + 3) × 2 - 1',
     },
     {
       type: 'arithmetic',
       title: 'BODMAS - Mixed Operations',
+      difficulty: 'medium',
       description: 'Evaluate the following expression:',
       expression: '10 - 2 × 3 + 1',
     },
     {
       type: 'arithmetic',
       title: 'BODMAS - Advanced',
+      difficulty: 'hard',
       description: 'Evaluate the following expression:',
       expression: '2 × (3 + 4) - 5 ÷ 1',
     },
     {
       type: 'arithmetic',
       title: 'Fraction Addition - Basic',
+      difficulty: 'easy',
       description: 'Add the following fractions:',
       expression: '1/2 + 1/3',
     },
     {
       type: 'arithmetic',
       title: 'Fraction Addition - Mixed',
+      difficulty: 'medium',
       description: 'Add the following fractions:',
       expression: '3/4 + 1/2',
     },
     {
       type: 'arithmetic',
       title: 'Fraction Subtraction',
+      difficulty: 'medium',
       description: 'Subtract the following fractions:',
       expression: '2/3 - 1/4',
     },
     {
       type: 'arithmetic',
       title: 'Fraction Addition - Three Terms',
+      difficulty: 'hard',
       description: 'Add the following fractions:',
       expression: '1/2 + 1/4 + 1/8',
     },
   ],
 };
 
+// Inputs that can show a field error returned by the API
+const FORM_FIELDS = [
+  'problem_code',
+  'type',
+  'title',
+  'description',
+  'difficulty',
+  'gradeLevel',
+  'tags',
+  'skills',
+  'equations',
+  'expression',
+];
+
 const ProblemInputPage = () => {
+  const { createProblem } = useValidationBackend();
   const navigate = useNavigate();
   const [mode, setMode] = useState<'custom' | 'pregenerated'>('pregenerated');
   const [problemType, setProblemType] = useState<ProblemType>('substitution');
@@ -176,14 +198,36 @@ const ProblemInputPage = () => {
   const [description, setDescription] = useState('');
   const [equations, setEquations] = useState<string[]>(['']);
   const [expression, setExpression] = useState('');
+  const [difficulty, setDifficulty] = useState<ProblemDifficulty | ''>('');
+  const [gradeLevel, setGradeLevel] = useState('');
+  const [tagsText, setTagsText] = useState('');
+  const [skillsText, setSkillsText] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitStatus, setSubmitStatus] = useState<string | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const clearFieldError = (field: string) => {
+    if (!fieldErrors[field]) {
+      return;
+    }
+    setFieldErrors(Object.fromEntries(Object.entries(fieldErrors).filter(([name]) => name !== field)));
+  };
+
+  const inputBorder = (field: string) => `1px solid ${fieldErrors[field] ? '#f44336' : '#e5e7eb'}`;
+
+  const renderFieldError = (field: string) =>
+    fieldErrors[field] && (
+      <small style={{ display: 'block', marginTop: '0.35rem', color: '#f44336' }}>
+        {fieldErrors[field]}
+      </small>
+    );
 
   const handleEquationChange = (index: number, value: string) => {
     const newEquations = [...equations];
     newEquations[index] = value;
     setEquations(newEquations);
+    clearFieldError('equations');
   };
 
   const addEquation = () => {
@@ -201,15 +245,27 @@ const ProblemInputPage = () => {
   const buildPayloadFromForm = (): ProblemPayload | null => {
     const trimmedCode = problemCode.trim();
     if (!trimmedCode) {
-      setSubmitError('Please enter a problem code (unique id).');
+      setFieldErrors({ problem_code: 'Please enter a problem code (unique id).' });
       return null;
     }
 
+    const parsedGradeLevel = gradeLevel.trim() ? Number(gradeLevel) : undefined;
+    if (parsedGradeLevel !== undefined && !(Number.isInteger(parsedGradeLevel) && parsedGradeLevel >= 0)) {
+      setFieldErrors({ gradeLevel: 'Grade level must be a whole number (0 for kindergarten).' });
+      return null;
+    }
+    const tags = parseLabelList(tagsText);
+    const skills = parseLabelList(skillsText);
+
     const payload: ProblemPayload = {
       problem_code: trimmedCode,
       type: problemType,
       title: title.trim() || undefined,
       description: description.trim() || undefined,
+      difficulty: difficulty || undefined,
+      gradeLevel: parsedGradeLevel,
+      tags: tags.length > 0 ? tags : undefined,
+      skills: skills.length > 0 ? skills : undefined,
       metadata: {
         source: 'ui',
       },
@@ -218,13 +274,13 @@ const ProblemInputPage = () => {
     if (isEquationType(problemType)) {
       const nonEmptyEquations = equations.filter(eq => eq.trim().length > 0);
       if (nonEmptyEquations.length === 0) {
-        setSubmitError('Please enter at least one equation.');
+        setFieldErrors({ equations: 'Please enter at least one equation.' });
         return null;
       }
       payload.equations = nonEmptyEquations;
     } else {
       if (!expression.trim()) {
-        setSubmitError('Please enter an expression.');
+        setFieldErrors({ expression: 'Please enter an expression.' });
         return null;
       }
       payload.expression = expression.trim();
@@ -233,15 +289,14 @@ const ProblemInputPage = () => {
     return payload;
   };
 
-  const handleStartFromProblem = (problemData: ProblemData) => {
-    navigate('/problem-chat', {
-      state: { problem: problemData },
-    });
+  const handleStartFromProblem = (problemData: ProblemData, problemCode?: string) => {
+    navigate(problemCode ? problemPath(problemCode) : inlineProblemPath(problemData));
   };
 
   const handleCreateCustomProblem = async () => {
     setSubmitError(null);
     setSubmitStatus(null);
+    setFieldErrors({});
 
     const payload = buildPayloadFromForm();
     if (!payload) {
@@ -270,11 +325,26 @@ const ProblemInputPage = () => {
             },
           };
 
-      const problemForChat = mapProblemRecordToProblemData(record);
-      handleStartFromProblem(problemForChat);
+      const problemForChat = toProblemData(record);
+      handleStartFromProblem(problemForChat, created?.problem_code);
     } catch (error) {
       console.error('Problem creation failed:', error);
-      setSubmitError(error instanceof Error ? error.message : 'Failed to create problem.');
+      if (error instanceof ConflictError) {
+        setFieldErrors({ problem_code: error.message });
+      } else if (error instanceof ValidationError) {
+        setFieldErrors(error.fieldErrors);
+        // Errors for fields this form does not have still need to be shown somewhere
+        const unmapped = Object.entries(error.fieldErrors).filter(([field]) => !FORM_FIELDS.includes(field));
+        if (unmapped.length > 0 || Object.keys(error.fieldErrors).length === 0) {
+          setSubmitError(
+            unmapped.length > 0
+              ? `${error.message}: ${unmapped.map(([field, message]) => `${field}: ${message}`).join('; ')}`
+              : error.message
+          );
+        }
+      } else {
+        setSubmitError(error instanceof Error ? error.message : 'Failed to create problem.');
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -299,7 +369,8 @@ const ProblemInputPage = () => {
           >
             <h1>Tito Whiteboard</h1>
             <p style={{ marginBottom: '2rem', color: 'rgba(31, 41, 55, 0.8)' }}>
-              Choose a pre-generated problem or create your own custom problem.
+              Choose a pre-generated problem or create your own custom problem.{' '}
+              <Link to="/history">Review past attempts</Link>
             </p>
 
             {/* Mode Selection */}
@@ -356,13 +427,14 @@ const ProblemInputPage = () => {
                 setExpression('');
                 setSubmitError(null);
                 setSubmitStatus(null);
+                setFieldErrors({});
               }}
               style={{
                 width: '100%',
                 padding: '0.75rem',
                 fontSize: '1rem',
                 borderRadius: '6px',
-                border: '1px solid #e5e7eb',
+                border: inputBorder('type'),
                 backgroundColor: '#f9fafb',
                 color: '#111827',
                 cursor: 'pointer',
@@ -373,6 +445,7 @@ const ProblemInputPage = () => {
               <option value="simplify">Simplify (Algebraic Expressions)</option>
               <option value="arithmetic">Arithmetic (BODMAS & Fractions)</option>
             </select>
+            {renderFieldError('type')}
           </div>
 
           {/* Pre-generated Problems */}
@@ -404,7 +477,8 @@ const ProblemInputPage = () => {
                     }}
                   >
                     <div style={{ fontWeight: 'bold', marginBottom: '0.5rem', fontSize: '1.1rem' }}>
-                      {problem.title}
+                      {problem.title}{' '}
+                      {problem.difficulty && <DifficultyBadge difficulty={problem.difficulty} />}
                     </div>
                     {problem.description && (
                       <div style={{ marginBottom: '0.5rem', color: 'rgba(55, 65, 81, 0.9)', fontSize: '0.9rem' }}>
@@ -458,21 +532,26 @@ const ProblemInputPage = () => {
             <input
               type="text"
               value={problemCode}
-              onChange={(e) => setProblemCode(e.target.value)}
+              onChange={(e) => {
+                setProblemCode(e.target.value);
+                clearFieldError('problem_code');
+              }}
               placeholder="e.g., sys-001"
               style={{
                 width: '100%',
                 padding: '0.75rem',
                 fontSize: '1rem',
                 borderRadius: '6px',
-                border: '1px solid #e5e7eb',
+                border: inputBorder('problem_code'),
                 backgroundColor: '#f9fafb',
                 color: '#111827',
               }}
             />
-            <small style={{ color: 'rgba(55, 65, 81, 0.7)' }}>
-              This is the unique id stored in your Problems API.
-            </small>
+            {renderFieldError('problem_code') || (
+              <small style={{ color: 'rgba(55, 65, 81, 0.7)' }}>
+                This is the unique id stored in your Problems API.
+              </small>
+            )}
           </div>
 
           {/* Title (Optional) */}
@@ -483,18 +562,22 @@ const ProblemInputPage = () => {
             <input
               type="text"
               value={title}
-              onChange={(e) => setTitle(e.target.value)}
+              onChange={(e) => {
+                setTitle(e.target.value);
+                clearFieldError('title');
+              }}
               placeholder="e.g., System of Equations"
               style={{
                 width: '100%',
                 padding: '0.75rem',
                 fontSize: '1rem',
                 borderRadius: '6px',
-                border: '1px solid #e5e7eb',
+                border: inputBorder('title'),
                 backgroundColor: '#f9fafb',
                 color: '#111827',
               }}
             />
+            {renderFieldError('title')}
           </div>
 
           {/* Description (Optional) */}
@@ -504,7 +587,10 @@ const ProblemInputPage = () => {
             </label>
             <textarea
               value={description}
-              onChange={(e) => setDescription(e.target.value)}
+              onChange={(e) => {
+                setDescription(e.target.value);
+                clearFieldError('description');
+              }}
               placeholder="e.g., Solve the following system of equations. Use any method you prefer:"
               rows={3}
               style={{
@@ -512,13 +598,126 @@ const ProblemInputPage = () => {
                 padding: '0.75rem',
                 fontSize: '1rem',
                 borderRadius: '6px',
-                border: '1px solid #e5e7eb',
+                border: inputBorder('description'),
                 backgroundColor: '#f9fafb',
                 color: '#111827',
                 resize: 'vertical',
                 fontFamily: 'inherit',
               }}
             />
+            {renderFieldError('description')}
+          </div>
+
+          {/* Difficulty and Grade Level (Optional) */}
+          <div style={{ display: 'flex', gap: '1rem', marginBottom: '1.5rem', flexWrap: 'wrap' }}>
+            <div style={{ flex: '1 1 160px' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                Difficulty (Optional)
+              </label>
+              <select
+                value={difficulty}
+                onChange={(e) => {
+                  setDifficulty(e.target.value as ProblemDifficulty | '');
+                  clearFieldError('difficulty');
+                }}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  fontSize: '1rem',
+                  borderRadius: '6px',
+                  border: inputBorder('difficulty'),
+                  backgroundColor: '#f9fafb',
+                  color: '#111827',
+                  cursor: 'pointer',
+                  textTransform: 'capitalize',
+                }}
+              >
+                <option value="">Not set</option>
+                {PROBLEM_DIFFICULTIES.map(level => (
+                  <option key={level} value={level}>
+                    {level}
+                  </option>
+                ))}
+              </select>
+              {renderFieldError('difficulty')}
+            </div>
+            <div style={{ flex: '1 1 160px' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                Grade Level (Optional)
+              </label>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={gradeLevel}
+                onChange={(e) => {
+                  setGradeLevel(e.target.value);
+                  clearFieldError('gradeLevel');
+                }}
+                placeholder="e.g., 8"
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  fontSize: '1rem',
+                  borderRadius: '6px',
+                  border: inputBorder('gradeLevel'),
+                  backgroundColor: '#f9fafb',
+                  color: '#111827',
+                }}
+              />
+              {renderFieldError('gradeLevel')}
+            </div>
+          </div>
+
+          {/* Tags and Skills (Optional) */}
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+              Tags (Optional, comma-separated)
+            </label>
+            <input
+              type="text"
+              value={tagsText}
+              onChange={(e) => {
+                setTagsText(e.target.value);
+                clearFieldError('tags');
+              }}
+              placeholder="e.g., unit-3, homework"
+              style={{
+                width: '100%',
+                padding: '0.75rem',
+                fontSize: '1rem',
+                borderRadius: '6px',
+                border: inputBorder('tags'),
+                backgroundColor: '#f9fafb',
+                color: '#111827',
+              }}
+            />
+            {renderFieldError('tags')}
+          </div>
+
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+              Skills (Optional, comma-separated)
+            </label>
+            <input
+              type="text"
+              value={skillsText}
+              onChange={(e) => {
+                setSkillsText(e.target.value);
+                clearFieldError('skills');
+              }}
+              placeholder="e.g., substitution, linear equations"
+              style={{
+                width: '100%',
+                padding: '0.75rem',
+                fontSize: '1rem',
+                borderRadius: '6px',
+                border: inputBorder('skills'),
+                backgroundColor: '#f9fafb',
+                color: '#111827',
+              }}
+            />
+            {renderFieldError('skills')}
           </div>
 
           {/* Problem-specific inputs */}
@@ -539,7 +738,7 @@ const ProblemInputPage = () => {
                       padding: '0.75rem',
                       fontSize: '1rem',
                       borderRadius: '6px',
-                      border: '1px solid #e5e7eb',
+                      border: inputBorder('equations'),
                       backgroundColor: '#f9fafb',
                       color: '#111827',
                       fontFamily: 'monospace',
@@ -563,6 +762,7 @@ const ProblemInputPage = () => {
                   )}
                 </div>
               ))}
+              {renderFieldError('equations')}
               <button
                 onClick={addEquation}
                 style={{
@@ -589,7 +789,10 @@ const ProblemInputPage = () => {
               <input
                 type="text"
                 value={expression}
-                onChange={(e) => setExpression(e.target.value)}
+                onChange={(e) => {
+                  setExpression(e.target.value);
+                  clearFieldError('expression');
+                }}
                 placeholder={
                   problemType === 'factor' 
                     ? 'e.g., x^2 - 16'
@@ -602,12 +805,13 @@ const ProblemInputPage = () => {
                   padding: '0.75rem',
                   fontSize: '1rem',
                   borderRadius: '6px',
-                border: '1px solid #e5e7eb',
+                border: inputBorder('expression'),
                 backgroundColor: '#f9fafb',
                 color: '#111827',
                   fontFamily: 'monospace',
                 }}
               />
+              {renderFieldError('expression')}
             </div>
           )}
 
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import SubstitutionProblemWithChat from './SubstitutionProblemWithChat';
+import { NotFoundError } from '../utils/apiErrors';
+import { parseInlineProblem, toProblemData, type ProblemData } from '../utils/problemRoutes';
+import { useValidationBackend } from '../utils/validationBackend';
+import './Demo.css';
+
+type LoadResult =
+  | { status: 'ready'; problem: ProblemData }
+  | { status: 'not-found' }
+  | { status: 'error'; message: string };
+
+const messageStyle: React.CSSProperties = {
+  maxWidth: '600px',
+  margin: '4rem auto',
+  textAlign: 'center',
+};
+
+/**
+ * Opens a problem from its URL: /problem/:problemCode loads it from the API,
+ * /problem-inline reads it from the query string
+ */
+const ProblemPage = () => {
+  const { problemCode } = useParams();
+  const [searchParams] = useSearchParams();
+  const { getProblem } = useValidationBackend();
+  // Result of the last load, tagged with the code and attempt it belongs to
+  const [loaded, setLoaded] = useState<{ request: string; result: LoadResult } | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const request = `${problemCode}#${attempt}`;
+
+  useEffect(() => {
+    if (!problemCode) return;
+    const controller = new AbortController();
+    getProblem(problemCode, { signal: controller.signal })
+      .then(record => setLoaded({ request, result: { status: 'ready', problem: toProblemData(record) } }))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Loading problem failed:', error);
+        setLoaded({
+          request,
+          result:
+            error instanceof NotFoundError
+              ? { status: 'not-found' }
+              : { status: 'error', message: error instanceof Error ? error.message : 'Failed to load the problem.' },
+        });
+      });
+    return () => controller.abort();
+  }, [getProblem, problemCode, request]);
+
+  const inlineProblem = problemCode ? null : parseInlineProblem(searchParams);
+  const result: LoadResult | null = problemCode
+    ? loaded?.request === request
+      ? loaded.result
+      : null
+    : inlineProblem
+      ? { status: 'ready', problem: inlineProblem }
+      : { status: 'not-found' };
+
+  if (!result) {
+    return (
+      <div className="demo-container">
+        <div style={messageStyle}>
+          <p>Loading problem…</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (result.status === 'ready') {
+    // A new problem starts a fresh page instead of carrying over the previous one's work
+    const pageKey = problemCode ?? searchParams.toString();
+    return <SubstitutionProblemWithChat key={pageKey} problem={result.problem} problemCode={problemCode} />;
+  }
+
+  return (
+    <div className="demo-container">
+      <div style={messageStyle}>
+        {result.status === 'not-found' ? (
+          <>
+            <h2>Problem not found</h2>
+            <p>
+              {problemCode
+                ? `There is no problem with the code "${problemCode}". It may have been deleted.`
+                : 'This link does not describe a problem. It may have been cut off when it was shared.'}
+            </p>
+          </>
+        ) : (
+          <>
+            <h2>Could not load the problem</h2>
+            <p>{result.message}</p>
+            <button onClick={() => setAttempt(current => current + 1)} style={{ marginBottom: '1rem' }}>
+              Try again
+            </button>
+          </>
+        )}
+        <p>
+          <Link to="/">Choose another problem</Link>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ProblemPage;
@@ -1,297 +1,70 @@
 import { useState } from 'react';
 import MathLiveMultilineEditor from './MathLiveMultilineEditor';
-import { 
-  validateProblemBatch, 
-  getHint, 
-  validateAnswer,
-  type HintResponse,
-  type BatchValidationLine,
-  type ValidationLineStatus,
-} from '../utils/validationApi';
+import { useProblemValidation, type LineFeedback } from '../utils/useProblemValidation';
+import type { AnnotatedLine } from '../utils/lineOperations';
 import './Demo.css';
 
-interface LineFeedback {
-  isValid: boolean;
-  isCorrect: boolean;
-  feedback?: string;
-  nextExpectedStep?: string;
-  status?: ValidationLineStatus;
-  operation?: string;
-  errorCode?: string;
-  errorExplanation?: string;
-  alternativeExplanation?: string;
-  diagnostics?: Record<string, any>;
-  hint?: string | null;
-  confidence?: number | null;
-  sympySimplified?: string;
-  sympyNormalized?: string;
-}
+const problem = {
+  type: 'substitution',
+  title: 'System of Equations - Reduction and Equalization',
+  description: 'Solve the following system of equations using the reduction and equalization method:',
+  equations: [
+    '3x + 2y = 8',
+    '2x - 3y = 1',
+  ],
+  solution: [
+    'Step 1: Multiply the first equation by 2',
+    '2(3x + 2y) = 2(8)',
+    '6x + 4y = 16',
+    'Step 2: Multiply the second equation by 3',
+    '3(2x - 3y) = 3(1)',
+    '6x - 9y = 3',
+    'Step 3: Subtract the second equation from the first',
+    '(6x + 4y) - (6x - 9y) = 16 - 3',
+    '6x + 4y - 6x + 9y = 13',
+    'Step 4: Simplify',
+    '13y = 13',
+    'Step 5: Solve for y',
+    'y = 1',
+    'Step 6: Substitute y = 1 into the first equation',
+    '3x + 2(1) = 8',
+    '3x + 2 = 8',
+    'Step 7: Solve for x',
+    '3x = 6',
+    'x = 2',
+    'Step 8: Final answer',
+    'x = 2, \\quad y = 1',
+  ],
+};
 
 const ReductionEqualizationProblem = () => {
-  const [work, setWork] = useState<string[]>(['']);
+  const {
+    work,
+    notes,
+    updateWork,
+    lineFeedback,
+    overallProgress,
+    solutionCheck,
+    answerFeedback,
+    isAnswerCorrect,
+    isValidating,
+    hint,
+    hintLevel,
+    validateAll,
+    requestHint,
+    clearHint,
+  } = useProblemValidation({ problem });
   const [showSolution, setShowSolution] = useState(false);
-  const [lineFeedback, setLineFeedback] = useState<Map<number, LineFeedback>>(new Map());
-  const [overallProgress, setOverallProgress] = useState<{
-    stepsCompleted: number;
-    totalSteps: number;
-    onTrack: boolean;
-  } | null>(null);
-  const [isValidating, setIsValidating] = useState(false);
-  const [hint, setHint] = useState<string | null>(null);
-  const [hintLevel, setHintLevel] = useState<'gentle' | 'moderate' | 'strong' | null>(null);
-  const [answerFeedback, setAnswerFeedback] = useState<string | null>(null);
-  const [isAnswerCorrect, setIsAnswerCorrect] = useState<boolean | null>(null);
   const [expandedFeedbackLines, setExpandedFeedbackLines] = useState<Set<number>>(new Set());
-  const [solutionCheck, setSolutionCheck] = useState<{
-    isSolved: boolean;
-    discrepancies: string[];
-    recommendedAction: string | null;
-  } | null>(null);
-
-  const problem = {
-    type: 'substitution',
-    title: 'System of Equations - Reduction and Equalization',
-    description: 'Solve the following system of equations using the reduction and equalization method:',
-    equations: [
-      '3x + 2y = 8',
-      '2x - 3y = 1',
-    ],
-    solution: [
-      'Step 1: Multiply the first equation by 2',
-      '2(3x + 2y) = 2(8)',
-      '6x + 4y = 16',
-      'Step 2: Multiply the second equation by 3',
-      '3(2x - 3y) = 3(1)',
-      '6x - 9y = 3',
-      'Step 3: Subtract the second equation from the first',
-      '(6x + 4y) - (6x - 9y) = 16 - 3',
-      '6x + 4y - 6x + 9y = 13',
-      'Step 4: Simplify',
-      '13y = 13',
-      'Step 5: Solve for y',
-      'y = 1',
-      'Step 6: Substitute y = 1 into the first equation',
-      '3x + 2(1) = 8',
-      '3x + 2 = 8',
-      'Step 7: Solve for x',
-      '3x = 6',
-      'x = 2',
-      'Step 8: Final answer',
-      'x = 2, \\quad y = 1',
-    ],
-  };
 
   const handleValidateAll = async () => {
-    const nonEmptyLines = work.filter(line => line.trim().length > 0);
-
-    if (nonEmptyLines.length === 0) {
-      setLineFeedback(new Map());
-      setOverallProgress(null);
-      setAnswerFeedback(null);
-      setIsAnswerCorrect(null);
-      setSolutionCheck(null);
-      return;
-    }
-
-    setIsValidating(true);
     setExpandedFeedbackLines(new Set());
-    setAnswerFeedback(null);
-    setIsAnswerCorrect(null);
-
-    try {
-      const batchResult = await validateProblemBatch(
-        problem.type,
-        { equations: problem.equations },
-        nonEmptyLines,
-        {
-          includeTelemetry: true,
-          requestHints: false,
-          llmAnalysis: 'summary',
-        }
-      );
-
-      const feedbackEntries = new Map<number, LineFeedback>();
-      const responseLines = batchResult.lines ?? [];
-
-      responseLines.forEach((line: BatchValidationLine, idx) => {
-        const resolvedIndex =
-          typeof line.index === 'number'
-            ? line.index
-            : typeof line.lineIndex === 'number'
-            ? line.lineIndex
-            : idx;
-
-        feedbackEntries.set(resolvedIndex, {
-          isValid: line.status !== 'invalid',
-          isCorrect: line.status === 'valid',
-          feedback: line.feedback || line.llm?.summary,
-          nextExpectedStep: line.llm?.nextStepHint,
-          status: line.status,
-          operation: line.operation,
-          errorCode: line.errorCode,
-          errorExplanation: line.diagnostics?.errorExplanation || line.diagnostics?.explanation,
-          alternativeExplanation: line.diagnostics?.alternative || line.diagnostics?.alternativeExplanation || line.llm?.summary,
-          diagnostics: line.diagnostics,
-          hint: line.llm?.nextStepHint || null,
-          confidence: line.confidence ?? null,
-          sympySimplified: line.sympy?.simplified,
-          sympyNormalized: line.sympy?.normalized,
-        });
-      });
-
-      // Enhance feedback with solution-level insights from sympyCheck
-      if (batchResult.overall?.sympyCheck) {
-        const sympyCheck = batchResult.overall.sympyCheck;
-        const discrepancies = sympyCheck.discrepancies;
-        
-        // If solution is not complete, try to identify problematic lines
-        if (!sympyCheck.isSolved && discrepancies && discrepancies.length > 0) {
-          responseLines.forEach((line: BatchValidationLine, idx) => {
-            const resolvedIndex =
-              typeof line.index === 'number'
-                ? line.index
-                : typeof line.lineIndex === 'number'
-                ? line.lineIndex
-                : idx;
-            
-            const existingFeedback = feedbackEntries.get(resolvedIndex);
-            if (existingFeedback) {
-              // If line has needs_review or invalid status, it's likely problematic
-              if (line.status === 'needs_review' || line.status === 'invalid') {
-                const llmSummary = line.llm?.summary;
-                // Enhance feedback with discrepancy context if LLM identified it
-                if (llmSummary && discrepancies.some(d => 
-                  llmSummary.toLowerCase().includes(d.toLowerCase().substring(0, 20))
-                )) {
-                  feedbackEntries.set(resolvedIndex, {
-                    ...existingFeedback,
-                    feedback: existingFeedback.feedback 
-                      ? `${existingFeedback.feedback} (${discrepancies.join('; ')})`
-                      : discrepancies.join('; '),
-                    // Preserve error and alternative explanation fields
-                    errorCode: existingFeedback.errorCode || line.errorCode,
-                    errorExplanation: existingFeedback.errorExplanation || line.diagnostics?.errorExplanation || line.diagnostics?.explanation,
-                    alternativeExplanation: existingFeedback.alternativeExplanation || line.diagnostics?.alternative || line.diagnostics?.alternativeExplanation || llmSummary,
-                  });
-                }
-              }
-            }
-          });
-        }
-      }
-
-      const orderedFeedback = new Map(
-        Array.from(feedbackEntries.entries()).sort((a, b) => a[0] - b[0])
-      );
-
-      setLineFeedback(orderedFeedback);
-
-      if (batchResult.overall) {
-        const stepsCompleted =
-          batchResult.overall.validSteps ??
-          responseLines.filter(line => line.status === 'valid').length;
-
-        setOverallProgress({
-          stepsCompleted,
-          totalSteps: responseLines.length || nonEmptyLines.length,
-          onTrack: (batchResult.overall.invalidSteps ?? 0) === 0,
-        });
-
-        // Use sympyCheck for solution-level validation
-        if (batchResult.overall.sympyCheck) {
-          const sympyCheck = batchResult.overall.sympyCheck;
-          setSolutionCheck({
-            isSolved: sympyCheck.isSolved ?? false,
-            discrepancies: sympyCheck.discrepancies ?? [],
-            recommendedAction: batchResult.overall.recommendedNextAction ?? null,
-          });
-
-          // If sympyCheck says it's solved, mark as correct
-          if (sympyCheck.isSolved) {
-            setIsAnswerCorrect(true);
-            setAnswerFeedback('Perfect! Your solution is correct and complete.');
-          } else if (sympyCheck.discrepancies && sympyCheck.discrepancies.length > 0) {
-            setIsAnswerCorrect(false);
-            setAnswerFeedback(
-              `Solution incomplete: ${sympyCheck.discrepancies.join('. ')}`
-            );
-          }
-        } else if (batchResult.overall.finalAnswer) {
-          // Fallback to finalAnswer if sympyCheck not available
-          setIsAnswerCorrect(batchResult.overall.finalAnswer.isCorrect ?? null);
-          setAnswerFeedback(batchResult.overall.finalAnswer.feedback ?? null);
-        }
-      } else {
-        setOverallProgress(null);
-        setSolutionCheck(null);
-      }
-
-      if (!batchResult.overall?.finalAnswer) {
-        const lastLine = plainMathLines[plainMathLines.length - 1] || '';
-        if (lastLine && /x\s*=/.test(lastLine) && /y\s*=/.test(lastLine)) {
-          try {
-            const xMatch = lastLine.match(/x\s*=\s*([^\s,]+)/i);
-            const yMatch = lastLine.match(/y\s*=\s*([^\s,]+)/i);
-
-            if (xMatch && yMatch) {
-              const answerResult = await validateAnswer(
-                problem.type,
-                { equations: problem.equations },
-                {
-                  x: xMatch[1].trim(),
-                  y: yMatch[1].trim(),
-                }
-              );
-
-              setIsAnswerCorrect(answerResult.isCorrect);
-              setAnswerFeedback(answerResult.feedback || null);
-            }
-          } catch (error) {
-            console.error('Answer validation error:', error);
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Validation error:', error);
-      setLineFeedback(new Map());
-      setOverallProgress(null);
-      setSolutionCheck(null);
-    } finally {
-      setIsValidating(false);
-    }
+    await validateAll();
   };
 
-  const handleWorkChange = (newWork: string[]) => {
-    setWork(newWork);
-    setHint(null);
-    setHintLevel(null);
-    setAnswerFeedback(null);
-    setIsAnswerCorrect(null);
-    setLineFeedback(new Map());
-    setOverallProgress(null);
+  const handleWorkChange = (newWork: string[], lines: AnnotatedLine[]) => {
+    updateWork(newWork, lines);
     setExpandedFeedbackLines(new Set());
-    setSolutionCheck(null);
-  };
-
-  const handleGetHint = async () => {
-    const nonEmptyLines = work.filter(line => line.trim().length > 0);
-    if (nonEmptyLines.length === 0) return;
-
-    // Convert LaTeX to plain math before sending to API
-    const lastLine = nonEmptyLines[nonEmptyLines.length - 1] || '';
-    
-    try {
-      const hintResult: HintResponse = await getHint(
-        problem.type,
-        lastLine,
-        nonEmptyLines.slice(0, -1)
-      );
-      setHint(hintResult.hint);
-      setHintLevel(hintResult.level);
-    } catch (error) {
-      console.error('Error getting hint:', error);
-      setHint('Unable to generate hint at this time. Please try again.');
-    }
   };
 
   const getFeedbackColor = (feedback: LineFeedback) => {
@@ -417,10 +190,7 @@ const ReductionEqualizationProblem = () => {
                 <strong>💡 Hint ({hintLevel}):</strong> {hint}
               </div>
               <button
-                onClick={() => {
-                  setHint(null);
-                  setHintLevel(null);
-                }}
+                onClick={clearHint}
                 style={{
                   background: 'none',
                   border: 'none',
@@ -511,7 +281,7 @@ const ReductionEqualizationProblem = () => {
                 </span>
               )}
               <button
-                onClick={handleGetHint}
+                onClick={() => void requestHint()}
                 style={{
                   padding: '0.5rem 1rem',
                   backgroundColor: '#ff9800',
@@ -560,8 +330,10 @@ const ReductionEqualizationProblem = () => {
           <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-start' }}>
             <div style={{ flex: 1 }}>
               <MathLiveMultilineEditor
-                initialEquations={work}
+                value={work}
                 onChange={handleWorkChange}
+                notes={notes}
+                showAnnotations={true}
                 minLines={1}
                 showLineNumbers={true}
                 virtualKeyboard={true}
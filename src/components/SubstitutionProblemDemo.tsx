@@ -94,7 +94,7 @@ const SubstitutionProblemDemo = () => {
           </div>
           
           <MathLiveMultilineEditor
-            initialEquations={work}
+            value={work}
             onChange={setWork}
             minLines={1}
             showLineNumbers={true}
@@ -1,33 +1,24 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
-import MathLiveMultilineEditor from './MathLiveMultilineEditor';
-import { 
-  validateProblemBatch, 
-  getHint, 
-  validateAnswer,
-  type HintResponse,
-  type BatchValidationLine,
-  type ValidationLineStatus,
-} from '../utils/validationApi';
+import MathLiveMultilineEditor, { type LineDecoration } from './MathLiveMultilineEditor';
+import {
+  useProblemValidation,
+  type LineFeedback,
+  type SolutionCheck,
+  type ValidationProgress,
+  type ValidationSnapshot,
+} from '../utils/useProblemValidation';
+import { useProblemSession } from '../utils/useProblemSession';
+import { getProblemSessionKey } from '../utils/problemSessionStore';
+import type { ProblemData } from '../utils/problemRoutes';
+import {
+  recordAttemptHint,
+  recordAttemptRun,
+  startAttempt,
+  toAttemptRun,
+} from '../utils/attemptHistoryStore';
 import './Demo.css';
 
-interface LineFeedback {
-  isValid: boolean;
-  isCorrect: boolean;
-  feedback?: string;
-  nextExpectedStep?: string;
-  status?: ValidationLineStatus;
-  operation?: string;
-  errorCode?: string;
-  errorExplanation?: string;
-  alternativeExplanation?: string;
-  diagnostics?: Record<string, any>;
-  hint?: string | null;
-  confidence?: number | null;
-  sympySimplified?: string;
-  sympyNormalized?: string;
-}
-
 interface ChatMessage {
   id: string;
   type: 'system' | 'feedback' | 'error' | 'success' | 'info';
@@ -36,31 +27,47 @@ interface ChatMessage {
   details?: {
     lineIndex?: number;
     feedback?: LineFeedback;
-    progress?: {
-      stepsCompleted: number;
-      totalSteps: number;
-      onTrack: boolean;
-    };
-    solutionCheck?: {
-      isSolved: boolean;
-      discrepancies: string[];
-      recommendedAction: string | null;
-    };
+    progress?: ValidationProgress;
+    solutionCheck?: SolutionCheck;
   };
 }
 
-interface ProblemData {
-  type: string;
-  title?: string;
-  description?: string;
-  equations?: string[];
-  expression?: string;
+/** What is autosaved per problem */
+interface ChatSession {
+  validation: ValidationSnapshot;
+  chatMessages: ChatMessage[];
+  /** Attempt that validation runs and hints are logged to (missing in sessions saved before logging) */
+  attemptId?: string;
+  /** When that attempt began (missing in sessions saved before it was kept) */
+  attemptStartedAt?: number;
+}
+
+interface SubstitutionProblemWithChatProps {
+  /** Problem to solve; falls back to router state (legacy /problem-chat links), then a sample system */
+  problem?: ProblemData;
+  /** Code of a problem loaded from the API, which keys its saved session */
+  problemCode?: string;
 }
 
 const normalizeLatexFractions = (line: string) =>
   line.replace(/\\frac\s*([^{\s])\s*([^{\s])/g, (_match, num, den) => `\\frac{${num}}{${den}}`);
 
-const SubstitutionProblemWithChat = () => {
+const toLineDecoration = (feedback: LineFeedback): LineDecoration => ({
+  status: feedback.status ?? (feedback.isValid ? 'info' : 'invalid'),
+  feedback: feedback.feedback,
+  errorCode: feedback.errorCode,
+  hint: feedback.hint,
+  sympySimplified: feedback.sympySimplified,
+});
+
+const createWelcomeMessage = (): ChatMessage => ({
+  id: 'welcome',
+  type: 'system',
+  content: 'Welcome! Start solving the problem and click "Validate All Lines" to get feedback on your work.',
+  timestamp: new Date(),
+});
+
+const SubstitutionProblemWithChat = ({ problem: problemProp, problemCode }: SubstitutionProblemWithChatProps) => {
   const location = useLocation();
   const navigate = useNavigate();
   const routeProblem = location.state?.problem as ProblemData | undefined;
@@ -76,33 +83,13 @@ const SubstitutionProblemWithChat = () => {
     ],
   };
 
-  const problem = routeProblem || defaultProblem;
-
-  const [work, setWork] = useState<string[]>(['']);
-  const [, setLineFeedback] = useState<Map<number, LineFeedback>>(new Map());
-  const [overallProgress, setOverallProgress] = useState<{
-    stepsCompleted: number;
-    totalSteps: number;
-    onTrack: boolean;
-  } | null>(null);
-  const [isValidating, setIsValidating] = useState(false);
-  const [, setHint] = useState<string | null>(null);
-  const [, setHintLevel] = useState<'gentle' | 'moderate' | 'strong' | null>(null);
-  const [answerFeedback, setAnswerFeedback] = useState<string | null>(null);
-  const [isAnswerCorrect, setIsAnswerCorrect] = useState<boolean | null>(null);
-  const [solutionCheck, setSolutionCheck] = useState<{
-    isSolved: boolean;
-    discrepancies: string[];
-    recommendedAction: string | null;
-  } | null>(null);
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([
-    {
-      id: 'welcome',
-      type: 'system',
-      content: 'Welcome! Start solving the problem and click "Validate All Lines" to get feedback on your work.',
-      timestamp: new Date(),
-    },
-  ]);
+  const problem = problemProp || routeProblem || defaultProblem;
+
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>(() => [createWelcomeMessage()]);
+  const [attempt, setAttempt] = useState(startAttempt);
+  const attemptProblem = { problem, problemCode };
+  // Write of the latest validation run, awaited before leaving for the completion page
+  const runWriteRef = useRef<Promise<unknown>>(Promise.resolve());
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -126,12 +113,8 @@ const SubstitutionProblemWithChat = () => {
 
   const formatFeedbackForChat = (
     feedbackEntries: Map<number, LineFeedback>,
-    progress: typeof overallProgress,
-    solutionCheckData: {
-      isSolved: boolean;
-      discrepancies: string[];
-      recommendedAction: string | null;
-    } | null,
+    progress: ValidationProgress | null,
+    solutionCheckData: SolutionCheck | null,
     answerFeedback: string | null,
     isAnswerCorrect: boolean | null
   ) => {
@@ -230,280 +213,134 @@ const SubstitutionProblemWithChat = () => {
     return messages;
   };
 
-  const handleValidateAll = async () => {
-    const nonEmptyLines = work.filter(line => line.trim().length > 0);
-    const normalizedLines = nonEmptyLines.map(normalizeLatexFractions);
-
-    if (normalizedLines.length === 0) {
-      addChatMessage({
-        type: 'info',
-        content: 'No work to validate. Please enter some equations first.',
-      });
-      setLineFeedback(new Map());
-      setOverallProgress(null);
-      setAnswerFeedback(null);
-      setIsAnswerCorrect(null);
-      return;
-    }
-
-    setIsValidating(true);
-    setAnswerFeedback(null);
-    setIsAnswerCorrect(null);
-
-    addChatMessage({
-      type: 'system',
-      content: 'Validating your work...',
-    });
-
-    // Build problemData based on problem type
-    const problemData: Record<string, any> = {};
-    if (problem.equations) {
-      problemData.equations = problem.equations;
-    }
-    if (problem.expression) {
-      problemData.expression = problem.expression;
-    }
-
-    try {
-      const batchResult = await validateProblemBatch(
-        problem.type,
-        problemData,
-        normalizedLines,
-        {
-          includeTelemetry: true,
-          requestHints: false,
-          llmAnalysis: 'summary',
-        }
+  const {
+    work,
+    notes,
+    updateWork,
+    hasWork,
+    lineFeedback,
+    isValidating,
+    validateAll,
+    requestHint,
+    snapshot,
+    restore,
+    reset,
+  } = useProblemValidation({
+    problem,
+    prepareLine: normalizeLatexFractions,
+    answerPriority: 'finalAnswer',
+    onValidated: outcome => {
+      runWriteRef.current = recordAttemptRun(attempt, attemptProblem, toAttemptRun(outcome)).catch(error =>
+        console.warn('Could not log the validation run:', error)
       );
 
-      const feedbackEntries = new Map<number, LineFeedback>();
-      const responseLines = batchResult.lines ?? [];
-
-      responseLines.forEach((line: BatchValidationLine, idx) => {
-        const resolvedIndex =
-          typeof line.index === 'number'
-            ? line.index
-            : typeof line.lineIndex === 'number'
-            ? line.lineIndex
-            : idx;
-
-        feedbackEntries.set(resolvedIndex, {
-          isValid: line.status !== 'invalid',
-          isCorrect: line.status === 'valid',
-          feedback: line.feedback || line.llm?.summary,
-          nextExpectedStep: line.llm?.nextStepHint,
-          status: line.status,
-          operation: line.operation,
-          errorCode: line.errorCode,
-          errorExplanation: line.diagnostics?.errorExplanation || line.diagnostics?.explanation,
-          alternativeExplanation: line.diagnostics?.alternative || line.diagnostics?.alternativeExplanation || line.llm?.summary,
-          diagnostics: line.diagnostics,
-          hint: line.llm?.nextStepHint || null,
-          confidence: line.confidence ?? null,
-          sympySimplified: line.sympy?.simplified,
-          sympyNormalized: line.sympy?.normalized,
+      if (outcome.result.mode === 'local') {
+        addChatMessage({
+          type: 'info',
+          content: 'The validation server is unavailable, so your work was checked offline in the browser.',
         });
-      });
-
-      // Enhance feedback with solution-level insights from sympyCheck
-      if (batchResult.overall?.sympyCheck) {
-        const sympyCheck = batchResult.overall.sympyCheck;
-        const discrepancies = sympyCheck.discrepancies;
-        
-        if (!sympyCheck.isSolved && discrepancies && discrepancies.length > 0) {
-          responseLines.forEach((line: BatchValidationLine, idx) => {
-            const resolvedIndex =
-              typeof line.index === 'number'
-                ? line.index
-                : typeof line.lineIndex === 'number'
-                ? line.lineIndex
-                : idx;
-            
-            const existingFeedback = feedbackEntries.get(resolvedIndex);
-            if (existingFeedback) {
-              if (line.status === 'needs_review' || line.status === 'invalid') {
-                const llmSummary = line.llm?.summary;
-                if (llmSummary && discrepancies.some(d => 
-                  llmSummary.toLowerCase().includes(d.toLowerCase().substring(0, 20))
-                )) {
-                  feedbackEntries.set(resolvedIndex, {
-                    ...existingFeedback,
-                    feedback: existingFeedback.feedback 
-                      ? `${existingFeedback.feedback} (${discrepancies.join('; ')})`
-                      : discrepancies.join('; '),
-                    errorCode: existingFeedback.errorCode || line.errorCode,
-                    errorExplanation: existingFeedback.errorExplanation || line.diagnostics?.errorExplanation || line.diagnostics?.explanation,
-                    alternativeExplanation: existingFeedback.alternativeExplanation || line.diagnostics?.alternative || line.diagnostics?.alternativeExplanation || llmSummary,
-                  });
-                }
-              }
-            }
-          });
-        }
-      }
-
-      const orderedFeedback = new Map(
-        Array.from(feedbackEntries.entries()).sort((a, b) => a[0] - b[0])
-      );
-
-      setLineFeedback(orderedFeedback);
-
-      let currentProgress: typeof overallProgress = null;
-      let currentSolutionCheck: typeof solutionCheck = null;
-
-      if (batchResult.overall) {
-        const stepsCompleted =
-          batchResult.overall.validSteps ??
-          responseLines.filter(line => line.status === 'valid').length;
-
-        currentProgress = {
-          stepsCompleted,
-          totalSteps: responseLines.length || nonEmptyLines.length,
-          onTrack: (batchResult.overall.invalidSteps ?? 0) === 0,
-        };
-
-        setOverallProgress(currentProgress);
-
-        // Use finalAnswer.isCorrect as primary method for checking if problem is solved
-        if (batchResult.overall.finalAnswer) {
-          setIsAnswerCorrect(batchResult.overall.finalAnswer.isCorrect ?? null);
-          setAnswerFeedback(batchResult.overall.finalAnswer.feedback ?? null);
-        }
-
-        // Also check sympyCheck for additional feedback and discrepancies
-        if (batchResult.overall.sympyCheck) {
-          const sympyCheck = batchResult.overall.sympyCheck;
-          currentSolutionCheck = {
-            isSolved: sympyCheck.isSolved ?? false,
-            discrepancies: sympyCheck.discrepancies ?? [],
-            recommendedAction: batchResult.overall.recommendedNextAction ?? null,
-          };
-
-          setSolutionCheck(currentSolutionCheck);
-
-          // Only set answer feedback from sympyCheck if finalAnswer wasn't available
-          if (!batchResult.overall.finalAnswer) {
-            if (sympyCheck.isSolved) {
-              setIsAnswerCorrect(true);
-              setAnswerFeedback('Perfect! Your solution is correct and complete.');
-            } else if (sympyCheck.discrepancies && sympyCheck.discrepancies.length > 0) {
-              setIsAnswerCorrect(false);
-              setAnswerFeedback(
-                `Solution incomplete: ${sympyCheck.discrepancies.join('. ')}`
-              );
-            }
-          }
-        }
-      } else {
-        setOverallProgress(null);
-        setSolutionCheck(null);
-      }
-
-      if (!batchResult.overall?.finalAnswer) {
-        const lastLine = normalizedLines[normalizedLines.length - 1] || '';
-        if (lastLine && /x\s*=/.test(lastLine) && /y\s*=/.test(lastLine)) {
-          try {
-            const xMatch = lastLine.match(/x\s*=\s*([^\s,]+)/i);
-            const yMatch = lastLine.match(/y\s*=\s*([^\s,]+)/i);
-
-            if (xMatch && yMatch) {
-              const answerResult = await validateAnswer(
-                problem.type,
-                problemData,
-                {
-                  x: xMatch[1].trim(),
-                  y: yMatch[1].trim(),
-                }
-              );
-
-              setIsAnswerCorrect(answerResult.isCorrect);
-              setAnswerFeedback(answerResult.feedback || null);
-              
-              // If answer is correct, navigate to completion page
-              if (answerResult.isCorrect) {
-                setTimeout(() => {
-                  navigate('/problem-completion', {
-                    state: {
-                      lastMessage: answerResult.feedback || 'Great job! You solved the problem correctly.',
-                      problemTitle: problem.title,
-                    },
-                  });
-                }, 1000);
-                return; // Exit early since we're navigating
-              }
-            }
-          } catch (error) {
-            console.error('Answer validation error:', error);
-          }
-        }
       }
 
       // Use chat_response from API if available, otherwise format feedback
-      let lastMessageContent = '';
-      if (batchResult.chat_response) {
-        lastMessageContent = batchResult.chat_response;
+      if (outcome.result.chat_response) {
         addChatMessage({
           type: 'feedback',
-          content: batchResult.chat_response,
+          content: outcome.result.chat_response,
         });
       } else {
-        // Fallback to formatted feedback if chat_response not available
-        const feedbackMessages = formatFeedbackForChat(
-          orderedFeedback,
-          currentProgress,
-          currentSolutionCheck || null,
-          answerFeedback || null,
-          isAnswerCorrect
-        );
-        feedbackMessages.forEach(msg => {
-          addChatMessage(msg);
-          if (msg.content) {
-            lastMessageContent = msg.content;
-          }
-        });
-      }
-
-      // Check if problem is solved using finished field and navigate to completion page
-      if (batchResult.overall?.finished === true) {
-        // Wait a moment for the message to be added, then navigate
-        setTimeout(() => {
-          navigate('/problem-completion', {
-            state: {
-              lastMessage: lastMessageContent || batchResult.overall?.finalAnswer?.feedback || 'Great job! You solved the problem correctly.',
-              problemTitle: problem.title,
-            },
-          });
-        }, 1000);
+        formatFeedbackForChat(
+          outcome.lineFeedback,
+          outcome.progress,
+          outcome.solutionCheck,
+          outcome.answer.feedback,
+          outcome.answer.isCorrect
+        ).forEach(addChatMessage);
       }
-
-    } catch (error) {
-      console.error('Validation error:', error);
+    },
+    onSolved: outcome => {
+      // Leave the messages up for a moment, and let the completion page read the solving run
+      const delay = new Promise(resolve => setTimeout(resolve, 1000));
+      void Promise.all([runWriteRef.current, delay]).then(() => {
+        navigate('/problem-completion', {
+          state: {
+            lastMessage:
+              outcome.result.chat_response ||
+              outcome.answer.feedback ||
+              'Great job! You solved the problem correctly.',
+            problemTitle: problem.title,
+            problemType: problem.type,
+            problemDifficulty: problem.difficulty,
+            problemCode,
+            attemptId: attempt.id,
+          },
+        });
+      });
+    },
+    onError: () => {
       addChatMessage({
         type: 'error',
         content: 'An error occurred while validating your work. Please try again.',
       });
-      setLineFeedback(new Map());
-      setOverallProgress(null);
-    } finally {
-      setIsValidating(false);
+    },
+  });
+
+  const lineDecorations = useMemo(
+    () =>
+      new Map(
+        Array.from(lineFeedback.entries()).map(([index, feedback]): [number, LineDecoration] => [
+          index,
+          toLineDecoration(feedback),
+        ])
+      ),
+    [lineFeedback]
+  );
+
+  const sessionData = useMemo<ChatSession>(
+    () => ({ validation: snapshot, chatMessages, attemptId: attempt.id, attemptStartedAt: attempt.startedAt }),
+    [snapshot, chatMessages, attempt]
+  );
+  const session = useProblemSession({
+    key: getProblemSessionKey(problem, problemCode),
+    data: sessionData,
+    shouldSave: hasWork || chatMessages.length > 1,
+    onRestore: saved => {
+      restore(saved.validation);
+      setChatMessages(saved.chatMessages);
+      if (saved.attemptId) {
+        setAttempt({ id: saved.attemptId, startedAt: saved.attemptStartedAt ?? attempt.startedAt });
+      }
+    },
+  });
+
+  const handleStartOver = async () => {
+    if (!window.confirm('Start over? Your work and the chat for this problem will be cleared.')) {
+      return;
     }
+    await session.clear();
+    reset();
+    setChatMessages([createWelcomeMessage()]);
+    setAttempt(startAttempt());
   };
 
-  const handleWorkChange = (newWork: string[]) => {
-    setWork(newWork);
-    setHint(null);
-    setHintLevel(null);
-    setAnswerFeedback(null);
-    setIsAnswerCorrect(null);
-    setLineFeedback(new Map());
-    setOverallProgress(null);
-    setSolutionCheck(null);
+  const handleValidateAll = async () => {
+    if (!hasWork) {
+      addChatMessage({
+        type: 'info',
+        content: 'No work to validate. Please enter some equations first.',
+      });
+      await validateAll();
+      return;
+    }
+
+    addChatMessage({
+      type: 'system',
+      content: 'Validating your work...',
+    });
+    await validateAll();
   };
 
   const handleGetHint = async () => {
-    const nonEmptyLines = work.filter(line => line.trim().length > 0);
-    const normalizedLines = nonEmptyLines.map(normalizeLatexFractions);
-    if (normalizedLines.length === 0) {
+    if (!hasWork) {
       addChatMessage({
         type: 'info',
         content: 'Please enter some work first before requesting a hint.',
@@ -511,28 +348,19 @@ const SubstitutionProblemWithChat = () => {
       return;
     }
 
-    const lastLine = normalizedLines[normalizedLines.length - 1] || '';
-    
-    try {
-      const hintResult: HintResponse = await getHint(
-        problem.type,
-        lastLine,
-        normalizedLines.slice(0, -1)
-      );
-      setHint(hintResult.hint);
-      setHintLevel(hintResult.level);
-      
-      addChatMessage({
-        type: 'info',
-        content: `💡 Hint (${hintResult.level}): ${hintResult.hint}`,
-      });
-    } catch (error) {
-      console.error('Error getting hint:', error);
-      addChatMessage({
-        type: 'error',
-        content: 'Unable to generate hint at this time. Please try again.',
-      });
+    const hintResult = await requestHint();
+    if (hintResult) {
+      recordAttemptHint(attempt, attemptProblem, {
+        at: Date.now(),
+        level: hintResult.level,
+        hint: hintResult.hint,
+      }).catch(error => console.warn('Could not log the hint:', error));
     }
+    addChatMessage(
+      hintResult
+        ? { type: 'info', content: `💡 Hint (${hintResult.level}): ${hintResult.hint}` }
+        : { type: 'error', content: 'Unable to generate hint at this time. Please try again.' }
+    );
   };
 
   const getMessageStyle = (type: ChatMessage['type']) => {
@@ -684,11 +512,35 @@ const SubstitutionProblemWithChat = () => {
               }}>
                 <h2>Show Your Work</h2>
                 <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                  {session.restoredAt && !isValidating && (
+                    <span
+                      style={{ fontSize: '0.85rem', color: 'rgba(255, 255, 255, 0.6)' }}
+                      title="Your work is saved in this browser as you type"
+                    >
+                      Restored work from {session.restoredAt.toLocaleString()}
+                    </span>
+                  )}
                   {isValidating && (
                     <span style={{ fontSize: '0.85rem', color: 'rgba(255, 255, 255, 0.6)' }}>
                       Validating...
                     </span>
                   )}
+                  <button
+                    onClick={() => void handleStartOver()}
+                    disabled={session.isRestoring}
+                    title="Clear your work and the chat for this problem"
+                    style={{
+                      padding: '0.5rem 1rem',
+                      backgroundColor: 'transparent',
+                      color: 'rgba(255, 255, 255, 0.8)',
+                      border: '1px solid rgba(255, 255, 255, 0.3)',
+                      borderRadius: '6px',
+                      cursor: 'pointer',
+                      fontSize: '0.9rem',
+                    }}
+                  >
+                    ↺ Start Over
+                  </button>
                   <button
                     onClick={handleGetHint}
                     style={{
@@ -705,14 +557,14 @@ const SubstitutionProblemWithChat = () => {
                   </button>
                   <button
                     onClick={() => void handleValidateAll()}
-                    disabled={isValidating}
+                    title={isValidating ? 'Restart validation with the current work' : undefined}
                     style={{
                       padding: '0.5rem 1rem',
                       backgroundColor: '#4caf50',
                       color: 'white',
                       border: 'none',
                       borderRadius: '6px',
-                      cursor: isValidating ? 'not-allowed' : 'pointer',
+                      cursor: 'pointer',
                       fontSize: '0.9rem',
                       opacity: isValidating ? 0.7 : 1,
                     }}
@@ -723,8 +575,11 @@ const SubstitutionProblemWithChat = () => {
               </div>
               
               <MathLiveMultilineEditor
-                initialEquations={work}
-                onChange={handleWorkChange}
+                value={work}
+                onChange={updateWork}
+                notes={notes}
+                showAnnotations={true}
+                lineDecorations={lineDecorations}
                 minLines={1}
                 showLineNumbers={true}
                 virtualKeyboard={true}
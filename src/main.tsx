@@ -2,9 +2,16 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import ContractDriftOverlay from './components/ContractDriftOverlay'
+import { ValidationBackendContext, createValidationBackend } from './utils/validationBackend'
+
+const validationBackend = createValidationBackend()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <ValidationBackendContext.Provider value={validationBackend}>
+      <App />
+      {import.meta.env.DEV && <ContractDriftOverlay />}
+    </ValidationBackendContext.Provider>
   </StrictMode>,
 )
@@ -0,0 +1,100 @@
+/**
+ * Read a student's final answer from their work
+ *
+ * The problem's variables come from its equations/expression, and the answer
+ * is the run of `var = value` assignments at the end of the work, e.g.
+ * "x = \frac{10}{7}, \quad y = -2" or "a = 3 and b = 1" on one or more lines.
+ */
+
+import { parseLatex, type MathNode } from './latexParser';
+import { serializeMathNode } from './latexToPlainMath';
+import { collectSymbols, symbolName } from './mathEvaluator';
+
+export interface AnswerSource {
+  equations?: string[];
+  expression?: string;
+}
+
+// LaTeX spacing commands; \, would otherwise be split on as a comma
+const SPACING_COMMANDS = /\\[,;:! ]/g;
+
+// Separators between the assignments of one line
+const ANSWER_SEPARATORS = /\\q?quad|\\(?:text|mathrm)\s*\{\s*and\s*\}|\band\b|\\\\|[,;&]/;
+
+const tryParse = (latex: string): MathNode | null => {
+  try {
+    return parseLatex(latex);
+  } catch {
+    return null;
+  }
+};
+
+const isVariable = (node: MathNode) => node.kind === 'symbol' || node.kind === 'subscript';
+
+const isConstant = (node: MathNode) => collectSymbols(node).size === 0;
+
+/**
+ * Variables used by a problem, sorted by name. Unparseable equations are skipped.
+ */
+export function getProblemVariables(problem: AnswerSource): string[] {
+  const sources = [...(problem.equations ?? []), ...(problem.expression ? [problem.expression] : [])];
+  const variables = new Set<string>();
+  sources.forEach(source => {
+    const node = tryParse(source);
+    if (node) collectSymbols(node, variables);
+  });
+  return Array.from(variables).sort();
+}
+
+/**
+ * Assignments on one line of work, with values serialized to plain math
+ */
+export function parseAssignments(line: string): Record<string, string> {
+  const assignments: Record<string, string> = {};
+
+  line
+    .replace(SPACING_COMMANDS, ' ')
+    .split(ANSWER_SEPARATORS)
+    .map(segment => segment.trim())
+    .filter(segment => segment.length > 0)
+    .forEach(segment => {
+      const node = tryParse(segment);
+      if (!node || node.kind !== 'relation' || node.operators.length !== 1 || node.operators[0] !== '=') return;
+      const [left, right] = node.operands;
+      if (isVariable(left) && isConstant(right)) {
+        assignments[symbolName(left)] = serializeMathNode(right);
+      } else if (isVariable(right) && isConstant(left)) {
+        assignments[symbolName(right)] = serializeMathNode(left);
+      }
+    });
+
+  return assignments;
+}
+
+/**
+ * Build a studentAnswer from the assignments at the end of the work.
+ *
+ * Lines are read from the last one back until every variable has a value or a
+ * line without assignments is reached; later lines win. Returns null unless
+ * every variable was assigned. With no known variables, whatever the last
+ * assignment lines state is returned.
+ */
+export function extractStudentAnswer(lines: string[], variables: string[]): Record<string, string> | null {
+  const answer: Record<string, string> = {};
+  const isComplete = () => variables.length > 0 && variables.every(name => name in answer);
+
+  for (let i = lines.length - 1; i >= 0 && !isComplete(); i--) {
+    const assignments = Object.entries(parseAssignments(lines[i]));
+    if (assignments.length === 0) break;
+    assignments.forEach(([name, value]) => {
+      if (!(name in answer) && (variables.length === 0 || variables.includes(name))) {
+        answer[name] = value;
+      }
+    });
+  }
+
+  if (variables.length === 0) {
+    return Object.keys(answer).length > 0 ? answer : null;
+  }
+  return isComplete() ? answer : null;
+}
@@ -0,0 +1,184 @@
+/**
+ * Errors thrown by the validation and problems API helpers
+ *
+ * Every failed call rejects with an ApiError subclass, so callers can branch
+ * with instanceof and still read the HTTP status, the server's error code and
+ * the parsed response body. Aborted calls are the exception: they reject with
+ * the AbortSignal's reason (see isAbortError in validationApi).
+ */
+
+/** Field name (e.g. "problem_code") → message for that input */
+export type FieldErrors = Record<string, string>;
+
+export interface ApiErrorDetails {
+  status?: number;
+  code?: string;
+  body?: unknown;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  status?: number;
+  code?: string;
+  body?: unknown;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = 'ApiError';
+    this.status = details.status;
+    this.code = details.code;
+    this.body = details.body;
+  }
+}
+
+/** The request never got a response (server down, CORS, offline) */
+export class NetworkError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = 'NetworkError';
+  }
+}
+
+/** No response within RequestOptions.timeoutMs */
+export class TimeoutError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = 'TimeoutError';
+  }
+}
+
+/** 400/422: the request was rejected; fieldErrors says which inputs were wrong */
+export class ValidationError extends ApiError {
+  fieldErrors: FieldErrors;
+
+  constructor(message: string, fieldErrors: FieldErrors = {}, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/** 404 */
+export class NotFoundError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** 409, e.g. creating a problem whose problem_code is taken */
+export class ConflictError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+/** 5xx */
+export class ServerError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ServerError';
+  }
+}
+
+// Path prefixes FastAPI puts in front of the field name in `loc`
+const LOCATION_PREFIXES = new Set(['body', 'query', 'path']);
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const errorEnvelope = (body: unknown): JsonObject | undefined =>
+  isObject(body) && isObject(body.error) ? body.error : undefined;
+
+/**
+ * Collect field errors from either error shape the API uses:
+ *   { error: { fields: { problem_code: "..." } } }
+ *   { detail: [{ loc: ["body", "problem_code"], msg: "..." }] }  (FastAPI)
+ * Nested locations are reported on their top-level field (equations.1 → equations).
+ */
+const parseFieldErrors = (body: unknown): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  const add = (field: string, message: string) => {
+    fieldErrors[field] = fieldErrors[field] ? `${fieldErrors[field]}; ${message}` : message;
+  };
+
+  const fields = errorEnvelope(body)?.fields;
+  if (isObject(fields)) {
+    Object.entries(fields).forEach(([field, message]) => add(field, String(message)));
+  }
+
+  const detail = isObject(body) ? body.detail : undefined;
+  if (Array.isArray(detail)) {
+    detail.filter(isObject).forEach(entry => {
+      const loc: unknown[] = Array.isArray(entry.loc) ? entry.loc : [];
+      const field = loc.find(part => typeof part === 'string' && !LOCATION_PREFIXES.has(part));
+      if (typeof field === 'string' && entry.msg) {
+        add(field, String(entry.msg));
+      }
+    });
+  }
+
+  return fieldErrors;
+};
+
+const parseMessage = (body: unknown): string | undefined => {
+  const message = errorEnvelope(body)?.message;
+  if (typeof message === 'string') return message;
+  if (isObject(body) && typeof body.detail === 'string') return body.detail;
+  if (isObject(body) && typeof body.message === 'string') return body.message;
+  return undefined;
+};
+
+/**
+ * Build the ApiError subclass matching a failed response.
+ * `fallbackMessage` (e.g. "Validation failed") is used when the body has no message.
+ */
+export async function createApiError(response: Response, fallbackMessage: string): Promise<ApiError> {
+  const text = await response.text().catch(() => '');
+  let body: unknown = text || undefined;
+  try {
+    body = text ? JSON.parse(text) : undefined;
+  } catch {
+    // Keep the raw text (HTML error pages from proxies, plain-text 502s)
+  }
+
+  const code = errorEnvelope(body)?.code;
+  const details: ApiErrorDetails = {
+    status: response.status,
+    code: typeof code === 'string' ? code : undefined,
+    body,
+  };
+  const message = parseMessage(body) || `${fallbackMessage}: ${response.statusText || response.status}`;
+
+  if (response.status === 400 || response.status === 422) {
+    return new ValidationError(message, parseFieldErrors(body), details);
+  }
+  if (response.status === 404) {
+    return new NotFoundError(message, details);
+  }
+  if (response.status === 409) {
+    return new ConflictError(message, details);
+  }
+  if (response.status >= 500) {
+    return new ServerError(message, details);
+  }
+  return new ApiError(message, details);
+}
+
+/**
+ * Wrap a fetch rejection: timeouts become TimeoutError, other failures
+ * NetworkError. Abort errors are returned unchanged so callers can ignore them.
+ */
+export function toRequestError(error: unknown): unknown {
+  if (error instanceof ApiError || (error instanceof DOMException && error.name === 'AbortError')) {
+    return error;
+  }
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new TimeoutError(error.message, { cause: error });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new NetworkError(`Could not reach the API: ${message}`, { cause: error });
+}
@@ -0,0 +1,183 @@
+/**
+ * Log of solving attempts, kept in IndexedDB
+ *
+ * An attempt is one pass at a problem, from opening it (or starting over) to
+ * solving it. It records every validation run with the work as submitted and
+ * the verdict for each line, plus the hints requested along the way, so the
+ * history page can replay how the work evolved.
+ */
+
+import { ATTEMPT_STORE, openDatabase, withStore } from './localDatabase';
+import { inlineProblemPath, problemPath, type ProblemData } from './problemRoutes';
+import type { LineFeedback, ProblemValidationOutcome } from './useProblemValidation';
+import type { HintResponse, ValidationLineStatus, VerdictMode } from './validationApi';
+
+export interface AttemptLineResult {
+  status: ValidationLineStatus | null;
+  feedback: string | null;
+}
+
+/** One validation run */
+export interface AttemptRun {
+  /** Epoch milliseconds */
+  at: number;
+  /** The work as submitted, blank lines included */
+  lines: string[];
+  notes: string[];
+  /** Verdict for each entry of lines; blank lines have a null status */
+  results: AttemptLineResult[];
+  mode?: VerdictMode;
+  isSolved: boolean;
+  answerFeedback: string | null;
+}
+
+export interface AttemptHint {
+  at: number;
+  level: HintResponse['level'];
+  hint: string;
+}
+
+export interface AttemptRecord {
+  id: string;
+  problem: ProblemData;
+  /** Set for problems from the API, so the attempt can link back to /problem/:problemCode */
+  problemCode?: string;
+  startedAt: number;
+  updatedAt: number;
+  /** When a run first showed the problem solved */
+  solvedAt: number | null;
+  runs: AttemptRun[];
+  hints: AttemptHint[];
+}
+
+/** The problem an attempt belongs to */
+export interface AttemptProblem {
+  problem: ProblemData;
+  problemCode?: string;
+}
+
+/**
+ * An attempt as known before anything is logged for it. The record is only
+ * written with the first run or hint, but its time counts from startedAt.
+ */
+export interface AttemptStart {
+  id: string;
+  /** When the problem was opened or started over */
+  startedAt: number;
+}
+
+const createAttemptId = () => `attempt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const startAttempt = (startedAt: number = Date.now()): AttemptStart => ({ id: createAttemptId(), startedAt });
+
+const lineStatus = (feedback: LineFeedback): ValidationLineStatus =>
+  feedback.status ?? (feedback.isCorrect ? 'valid' : feedback.isValid ? 'needs_review' : 'invalid');
+
+/**
+ * The run to log for a completed validation
+ */
+export function toAttemptRun(outcome: ProblemValidationOutcome, at: number = Date.now()): AttemptRun {
+  return {
+    at,
+    lines: outcome.work,
+    notes: outcome.notes,
+    results: outcome.work.map((_, index) => {
+      const feedback = outcome.lineFeedback.get(index);
+      return feedback
+        ? { status: lineStatus(feedback), feedback: feedback.feedback ?? null }
+        : { status: null, feedback: null };
+    }),
+    mode: outcome.result.mode,
+    isSolved: outcome.isSolved,
+    answerFeedback: outcome.answer.feedback,
+  };
+}
+
+/** Route that reopens the attempt's problem */
+export const attemptProblemPath = ({ problem, problemCode }: AttemptProblem) =>
+  problemCode ? problemPath(problemCode) : inlineProblemPath(problem);
+
+/** Time from opening the problem until it was solved, or until the last activity */
+export const attemptDuration = (attempt: AttemptRecord) => (attempt.solvedAt ?? attempt.updatedAt) - attempt.startedAt;
+
+/** e.g. "45 s", "3 min 20 s", "1 h 5 min" */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds} s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes} min ${seconds % 60} s`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+/**
+ * Read, change and write an attempt in one transaction, creating it on first
+ * use; an existing record keeps its startedAt
+ */
+const updateAttempt = async (
+  { id, startedAt }: AttemptStart,
+  { problem, problemCode }: AttemptProblem,
+  update: (attempt: AttemptRecord) => AttemptRecord
+): Promise<AttemptRecord> => {
+  const database = await openDatabase();
+  return new Promise<AttemptRecord>((resolve, reject) => {
+    const transaction = database.transaction(ATTEMPT_STORE, 'readwrite');
+    const store = transaction.objectStore(ATTEMPT_STORE);
+    let updated: AttemptRecord;
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const now = Date.now();
+      const existing: AttemptRecord = request.result ?? {
+        id,
+        problem,
+        problemCode,
+        startedAt,
+        updatedAt: now,
+        solvedAt: null,
+        runs: [],
+        hints: [],
+      };
+      updated = { ...update(existing), updatedAt: now };
+      store.put(updated);
+    };
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export function recordAttemptRun(
+  attempt: AttemptStart,
+  problem: AttemptProblem,
+  run: AttemptRun
+): Promise<AttemptRecord> {
+  return updateAttempt(attempt, problem, attempt => ({
+    ...attempt,
+    runs: [...attempt.runs, run],
+    solvedAt: attempt.solvedAt ?? (run.isSolved ? run.at : null),
+  }));
+}
+
+export function recordAttemptHint(
+  attempt: AttemptStart,
+  problem: AttemptProblem,
+  hint: AttemptHint
+): Promise<AttemptRecord> {
+  return updateAttempt(attempt, problem, attempt => ({ ...attempt, hints: [...attempt.hints, hint] }));
+}
+
+/**
+ * Every logged attempt, most recently active first
+ */
+export async function listAttempts(): Promise<AttemptRecord[]> {
+  const attempts = await withStore<AttemptRecord[]>(ATTEMPT_STORE, 'readonly', store => store.getAll());
+  return attempts.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getAttempt(id: string): Promise<AttemptRecord | null> {
+  const attempt = await withStore<AttemptRecord | undefined>(ATTEMPT_STORE, 'readonly', store => store.get(id));
+  return attempt ?? null;
+}
+
+export async function deleteAttempt(id: string): Promise<void> {
+  await withStore(ATTEMPT_STORE, 'readwrite', store => store.delete(id));
+}
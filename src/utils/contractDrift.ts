@@ -0,0 +1,58 @@
+/**
+ * Contract drift reports
+ *
+ * Response schemas record here whenever the API sends something the client
+ * does not expect (unknown status values, missing lines, wrong field types).
+ * Each distinct issue is logged to the console once and kept for the dev overlay.
+ */
+
+export interface ContractDriftReport {
+  /** e.g. "POST /api/validate/problem/substitution/batch" */
+  endpoint: string;
+  /** Where in the response, e.g. "lines[2].status" */
+  path: string;
+  message: string;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+type Listener = () => void;
+
+const reports = new Map<string, ContractDriftReport>();
+const listeners = new Set<Listener>();
+let snapshot: ContractDriftReport[] = [];
+
+const notify = () => {
+  snapshot = Array.from(reports.values()).sort((a, b) => b.lastSeen - a.lastSeen);
+  listeners.forEach(listener => listener());
+};
+
+export function reportContractDrift(endpoint: string, path: string, message: string) {
+  const key = `${endpoint}|${path}|${message}`;
+  const now = Date.now();
+  const existing = reports.get(key);
+
+  if (existing) {
+    reports.set(key, { ...existing, count: existing.count + 1, lastSeen: now });
+  } else {
+    console.warn(`[contract drift] ${endpoint} ${path}: ${message}`);
+    reports.set(key, { endpoint, path, message, count: 1, firstSeen: now, lastSeen: now });
+  }
+  notify();
+}
+
+/** Most recent first; the same array is returned until a report changes */
+export const getContractDriftReports = () => snapshot;
+
+export function subscribeToContractDrift(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function clearContractDrift() {
+  reports.clear();
+  notify();
+}
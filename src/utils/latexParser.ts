@@ -0,0 +1,820 @@
+/**
+ * Recursive-descent parser for the LaTeX math that MathLive emits
+ *
+ * Produces a typed expression tree instead of rewriting strings, so nested
+ * constructs like \frac{\frac{1}{2}}{3} or x^{(a+1)^{2}} keep their structure.
+ * Plain-text math (x^2 - 16, 2 × 3, 1/2 + 1/3) is accepted as well.
+ */
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^' | '±' | '∓';
+
+export type UnaryOperator = '-' | '+' | '±' | '∓';
+
+export type RelationOperator = '=' | '<' | '>' | '<=' | '>=' | '!=';
+
+export interface NumberNode {
+  kind: 'number';
+  value: string;
+}
+
+export interface SymbolNode {
+  kind: 'symbol';
+  name: string;
+}
+
+export interface BinaryNode {
+  kind: 'binary';
+  op: BinaryOperator;
+  left: MathNode;
+  right: MathNode;
+  /** True when the product was written by juxtaposition (2x) */
+  implicit?: boolean;
+}
+
+export interface UnaryNode {
+  kind: 'unary';
+  op: UnaryOperator;
+  operand: MathNode;
+}
+
+export interface RelationNode {
+  kind: 'relation';
+  /** operators[i] sits between operands[i] and operands[i + 1] */
+  operators: RelationOperator[];
+  operands: MathNode[];
+}
+
+export interface FunctionNode {
+  kind: 'function';
+  name: string;
+  args: MathNode[];
+}
+
+export interface FractionNode {
+  kind: 'fraction';
+  numerator: MathNode;
+  denominator: MathNode;
+}
+
+export interface RootNode {
+  kind: 'root';
+  radicand: MathNode;
+  index?: MathNode;
+}
+
+export interface SubscriptNode {
+  kind: 'subscript';
+  base: MathNode;
+  subscript: MathNode;
+}
+
+/** Comma separated items, e.g. a final answer "x = 2, y = 1" */
+export interface SequenceNode {
+  kind: 'sequence';
+  items: MathNode[];
+}
+
+export type MathNode =
+  | NumberNode
+  | SymbolNode
+  | BinaryNode
+  | UnaryNode
+  | RelationNode
+  | FunctionNode
+  | FractionNode
+  | RootNode
+  | SubscriptNode
+  | SequenceNode;
+
+/**
+ * Raised when the input cannot be parsed. `offset` is the index of the
+ * offending character in the original string.
+ */
+export class LatexParseError extends Error {
+  readonly input: string;
+  readonly offset: number;
+  readonly reason: string;
+
+  constructor(reason: string, input: string, offset: number) {
+    super(`${reason} at position ${offset}`);
+    this.name = 'LatexParseError';
+    this.reason = reason;
+    this.input = input;
+    this.offset = offset;
+  }
+}
+
+type TokenType = 'number' | 'letter' | 'command' | 'char' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  offset: number;
+  /** Length of the source text the token was read from */
+  length: number;
+}
+
+// Spacing and style commands that carry no mathematical meaning
+const IGNORED_COMMANDS = new Set([
+  ',', ';', ':', '!', ' ', 'quad', 'qquad', 'enspace', 'thinspace',
+  'displaystyle', 'textstyle', 'limits', 'nolimits',
+]);
+
+const UNICODE_COMMANDS: Record<string, string> = {
+  '×': 'times',
+  '·': 'cdot',
+  '÷': 'div',
+  '≤': 'leq',
+  '≥': 'geq',
+  '≠': 'neq',
+  '±': 'pm',
+  '∓': 'mp',
+  'π': 'pi',
+};
+
+const FUNCTION_NAMES = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc',
+  'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'ln', 'log', 'exp', 'min', 'max',
+]);
+
+// Function names recognised without a backslash in plain-text input
+const PLAIN_FUNCTION_NAMES = new Set([...FUNCTION_NAMES, 'sqrt', 'abs']);
+
+const GREEK_LETTERS = new Set([
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'varepsilon', 'zeta', 'eta',
+  'theta', 'vartheta', 'iota', 'kappa', 'lambda', 'mu', 'nu', 'xi', 'pi',
+  'rho', 'sigma', 'tau', 'upsilon', 'phi', 'varphi', 'chi', 'psi', 'omega',
+  'Gamma', 'Delta', 'Theta', 'Lambda', 'Xi', 'Pi', 'Sigma', 'Phi', 'Psi', 'Omega',
+]);
+
+const FRACTION_COMMANDS = new Set(['frac', 'dfrac', 'tfrac', 'cfrac']);
+
+const RELATION_CHARS: Record<string, RelationOperator> = {
+  '=': '=',
+  '<': '<',
+  '>': '>',
+  '<=': '<=',
+  '>=': '>=',
+  '!=': '!=',
+};
+
+const RELATION_COMMANDS: Record<string, RelationOperator> = {
+  lt: '<',
+  gt: '>',
+  le: '<=',
+  leq: '<=',
+  leqslant: '<=',
+  ge: '>=',
+  geq: '>=',
+  geqslant: '>=',
+  ne: '!=',
+  neq: '!=',
+};
+
+const CLOSING_DELIMITERS: Record<string, string> = {
+  '(': ')',
+  '[': ']',
+  '{': '}',
+  '|': '|',
+  '.': '.',
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch) || ch === '~') {
+      i++;
+      continue;
+    }
+
+    if (ch === '\\') {
+      const start = i;
+      i++;
+      if (i >= input.length) {
+        throw new LatexParseError('Dangling backslash', input, start);
+      }
+      let name: string;
+      if (/[a-zA-Z]/.test(input[i])) {
+        let end = i;
+        while (end < input.length && /[a-zA-Z]/.test(input[end])) end++;
+        name = input.slice(i, end);
+        i = end;
+      } else {
+        name = input[i];
+        i++;
+      }
+      if (!IGNORED_COMMANDS.has(name)) {
+        tokens.push({ type: 'command', value: name, offset: start, length: i - start });
+      }
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(input[i + 1] ?? ''))) {
+      const start = i;
+      while (i < input.length && /[0-9]/.test(input[i])) i++;
+      if (input[i] === '.' && /[0-9]/.test(input[i + 1] ?? '')) {
+        i++;
+        while (i < input.length && /[0-9]/.test(input[i])) i++;
+      }
+      tokens.push({ type: 'number', value: input.slice(start, i), offset: start, length: i - start });
+      continue;
+    }
+
+    if (/[a-zA-Z]/.test(ch)) {
+      tokens.push({ type: 'letter', value: ch, offset: i, length: 1 });
+      i++;
+      continue;
+    }
+
+    if (UNICODE_COMMANDS[ch]) {
+      tokens.push({ type: 'command', value: UNICODE_COMMANDS[ch], offset: i, length: 1 });
+      i++;
+      continue;
+    }
+
+    const pair = input.slice(i, i + 2);
+    if (pair === '<=' || pair === '>=' || pair === '!=') {
+      tokens.push({ type: 'char', value: pair, offset: i, length: 2 });
+      i += 2;
+      continue;
+    }
+    if (pair === '**') {
+      tokens.push({ type: 'char', value: '^', offset: i, length: 2 });
+      i += 2;
+      continue;
+    }
+
+    tokens.push({ type: 'char', value: ch === '−' ? '-' : ch, offset: i, length: 1 });
+    i++;
+  }
+
+  tokens.push({ type: 'eof', value: '', offset: input.length, length: 0 });
+  return tokens;
+};
+
+const describeToken = (token: Token) => {
+  switch (token.type) {
+    case 'eof':
+      return 'end of input';
+    case 'command':
+      return `'\\${token.value}'`;
+    default:
+      return `'${token.value}'`;
+  }
+};
+
+class LatexParser {
+  private readonly input: string;
+  private readonly tokens: Token[];
+  private pos = 0;
+  private absDepth = 0;
+
+  constructor(input: string) {
+    this.input = input;
+    this.tokens = tokenize(input);
+  }
+
+  parse(): MathNode {
+    if (this.peek().type === 'eof') {
+      throw this.error('Empty expression', this.peek());
+    }
+
+    const items = [this.parseRelation()];
+    while (this.isChar(',') || this.isChar(';')) {
+      this.next();
+      items.push(this.parseRelation());
+    }
+
+    const trailing = this.peek();
+    if (trailing.type !== 'eof') {
+      throw this.error(`Unexpected ${describeToken(trailing)}`, trailing);
+    }
+
+    return items.length === 1 ? items[0] : { kind: 'sequence', items };
+  }
+
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.pos + ahead, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private isChar(value: string, token: Token = this.peek()) {
+    return token.type === 'char' && token.value === value;
+  }
+
+  private isCommand(value: string, token: Token = this.peek()) {
+    return token.type === 'command' && token.value === value;
+  }
+
+  private error(reason: string, token: Token) {
+    return new LatexParseError(reason, this.input, token.offset);
+  }
+
+  private expectChar(value: string) {
+    const token = this.peek();
+    if (!this.isChar(value, token)) {
+      throw this.error(`Expected '${value}' but found ${describeToken(token)}`, token);
+    }
+    this.next();
+  }
+
+  private relationOperator(token: Token): RelationOperator | null {
+    if (token.type === 'char') return RELATION_CHARS[token.value] ?? null;
+    if (token.type === 'command') return RELATION_COMMANDS[token.value] ?? null;
+    return null;
+  }
+
+  private parseRelation(): MathNode {
+    const operands = [this.parseAdditive()];
+    const operators: RelationOperator[] = [];
+
+    let op = this.relationOperator(this.peek());
+    while (op) {
+      this.next();
+      operators.push(op);
+      operands.push(this.parseAdditive());
+      op = this.relationOperator(this.peek());
+    }
+
+    return operators.length === 0 ? operands[0] : { kind: 'relation', operators, operands };
+  }
+
+  private additiveOperator(token: Token): UnaryOperator | null {
+    if (this.isChar('+', token)) return '+';
+    if (this.isChar('-', token)) return '-';
+    if (this.isCommand('pm', token)) return '±';
+    if (this.isCommand('mp', token)) return '∓';
+    return null;
+  }
+
+  private parseAdditive(): MathNode {
+    let left = this.parseMultiplicative();
+
+    let op = this.additiveOperator(this.peek());
+    while (op) {
+      this.next();
+      const right = this.parseMultiplicative();
+      left = { kind: 'binary', op, left, right };
+      op = this.additiveOperator(this.peek());
+    }
+
+    return left;
+  }
+
+  private multiplicativeOperator(token: Token): BinaryOperator | null {
+    if (this.isChar('*', token) || this.isCommand('cdot', token) || this.isCommand('times', token) || this.isCommand('ast', token)) {
+      return '*';
+    }
+    if (this.isChar('/', token) || this.isCommand('div', token)) {
+      return '/';
+    }
+    return null;
+  }
+
+  private parseMultiplicative(): MathNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const op = this.multiplicativeOperator(this.peek());
+      if (op) {
+        this.next();
+        const right = this.parseUnary();
+        left = { kind: 'binary', op, left, right };
+      } else if (this.startsImplicitFactor(this.peek())) {
+        const right = this.parsePower();
+        left = { kind: 'binary', op: '*', left, right, implicit: true };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseUnary(): MathNode {
+    const token = this.peek();
+    const op = this.additiveOperator(token);
+    if (op) {
+      this.next();
+      return { kind: 'unary', op, operand: this.parseUnary() };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): MathNode {
+    let base = this.parsePrimary();
+    const exponents: MathNode[] = [];
+
+    for (;;) {
+      const token = this.peek();
+      if (this.isChar('^', token)) {
+        this.next();
+        exponents.push(this.parseScript());
+      } else if (this.isChar('_', token)) {
+        this.next();
+        if (base.kind !== 'symbol') {
+          throw this.error('Subscripts are only allowed on variables', token);
+        }
+        base = { kind: 'subscript', base, subscript: this.parseScript() };
+      } else if (this.isChar("'", token)) {
+        throw this.error('Derivative primes are not supported', token);
+      } else {
+        break;
+      }
+    }
+
+    // Exponentiation is right-associative: a^b^c = a^(b^c)
+    const exponent = exponents.reduceRight<MathNode | null>(
+      (acc, exp) => (acc ? { kind: 'binary', op: '^', left: exp, right: acc } : exp),
+      null
+    );
+    return exponent ? { kind: 'binary', op: '^', left: base, right: exponent } : base;
+  }
+
+  /** Argument of ^ or _: a brace group, a signed atom or a single atom */
+  private parseScript(): MathNode {
+    const token = this.peek();
+    if (this.isChar('{', token)) {
+      return this.parseBraceGroup();
+    }
+    const op = this.additiveOperator(token);
+    if (op === '-' || op === '+') {
+      this.next();
+      return { kind: 'unary', op, operand: this.parseScript() };
+    }
+    if (token.type === 'eof') {
+      throw this.error('Missing exponent or subscript', token);
+    }
+    return this.parsePrimary();
+  }
+
+  /** Argument of \frac or \sqrt: a brace group or a single character */
+  private parseCommandArgument(command: Token): MathNode {
+    const token = this.peek();
+    if (this.isChar('{', token)) {
+      return this.parseBraceGroup();
+    }
+    if (token.type === 'number') {
+      // \frac12 means \frac{1}{2}: only the first digit belongs to this argument
+      if (token.value.length > 1) {
+        this.tokens[this.pos] = {
+          type: 'number',
+          value: token.value.slice(1),
+          offset: token.offset + 1,
+          length: token.length - 1,
+        };
+        return { kind: 'number', value: token.value[0] };
+      }
+      this.next();
+      return { kind: 'number', value: token.value };
+    }
+    if (token.type === 'letter') {
+      this.next();
+      return { kind: 'symbol', name: token.value };
+    }
+    if (token.type === 'command' && GREEK_LETTERS.has(token.value)) {
+      this.next();
+      return { kind: 'symbol', name: token.value };
+    }
+    throw this.error(`Missing argument for \\${command.value}`, token);
+  }
+
+  private parseBraceGroup(): MathNode {
+    const open = this.next();
+    if (this.isChar('}')) {
+      throw this.error('Empty group', open);
+    }
+    const inner = this.parseAdditive();
+    this.expectChar('}');
+    return inner;
+  }
+
+  private startsImplicitFactor(token: Token): boolean {
+    switch (token.type) {
+      case 'number':
+      case 'letter':
+        return true;
+      case 'char':
+        return (
+          token.value === '(' ||
+          token.value === '[' ||
+          token.value === '{' ||
+          (token.value === '|' && this.absDepth === 0)
+        );
+      case 'command':
+        return (
+          FRACTION_COMMANDS.has(token.value) ||
+          FUNCTION_NAMES.has(token.value) ||
+          GREEK_LETTERS.has(token.value) ||
+          ['sqrt', 'left', 'lvert', 'operatorname', 'mathrm', 'mathit', 'infty'].includes(token.value)
+        );
+      default:
+        return false;
+    }
+  }
+
+  private parsePrimary(): MathNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.next();
+        return { kind: 'number', value: token.value };
+      case 'letter':
+        return this.parseLetters();
+      case 'command':
+        return this.parseCommand();
+      case 'eof':
+        throw this.error('Unexpected end of input', token);
+      default:
+        break;
+    }
+
+    if (this.isChar('(') || this.isChar('[')) {
+      this.next();
+      const inner = this.parseAdditive();
+      this.expectChar(CLOSING_DELIMITERS[token.value]);
+      return inner;
+    }
+    if (this.isChar('{')) {
+      return this.parseBraceGroup();
+    }
+    if (this.isChar('|') && this.absDepth === 0) {
+      this.next();
+      return this.parseAbsolute(() => this.expectChar('|'));
+    }
+
+    throw this.error(`Unexpected ${describeToken(token)}`, token);
+  }
+
+  private parseAbsolute(close: () => void): MathNode {
+    this.absDepth++;
+    const inner = this.parseAdditive();
+    this.absDepth--;
+    close();
+    return { kind: 'function', name: 'abs', args: [inner] };
+  }
+
+  /** A letter, or a run of letters naming a plain-text function like sqrt(x) */
+  private parseLetters(): MathNode {
+    const first = this.peek();
+    let name = '';
+    let count = 0;
+    let expectedOffset = first.offset;
+
+    while (this.peek(count).type === 'letter' && this.peek(count).offset === expectedOffset) {
+      name += this.peek(count).value;
+      expectedOffset++;
+      count++;
+    }
+
+    for (let length = count; length > 1; length--) {
+      const candidate = name.slice(0, length);
+      if (PLAIN_FUNCTION_NAMES.has(candidate) && this.isChar('(', this.peek(length))) {
+        this.pos += length;
+        return this.parseFunctionApplication(candidate, first);
+      }
+    }
+
+    this.next();
+    return { kind: 'symbol', name: first.value };
+  }
+
+  private parseCommand(): MathNode {
+    const token = this.next();
+    const name = token.value;
+
+    if (FRACTION_COMMANDS.has(name)) {
+      const numerator = this.parseCommandArgument(token);
+      const denominator = this.parseCommandArgument(token);
+      return { kind: 'fraction', numerator, denominator };
+    }
+
+    if (name === 'sqrt') {
+      let index: MathNode | undefined;
+      if (this.isChar('[')) {
+        this.next();
+        index = this.parseAdditive();
+        this.expectChar(']');
+      }
+      const radicand = this.parseCommandArgument(token);
+      return index ? { kind: 'root', radicand, index } : { kind: 'root', radicand };
+    }
+
+    if (name === 'left') {
+      return this.parseLeftRight(token);
+    }
+
+    if (name === 'lvert' || name === 'vert' || name === '|') {
+      return this.parseAbsolute(() => {
+        const close = this.peek();
+        if (!this.isCommand('rvert', close) && !this.isCommand('vert', close) && !this.isCommand('|', close)) {
+          throw this.error(`Expected '\\rvert' but found ${describeToken(close)}`, close);
+        }
+        this.next();
+      });
+    }
+
+    if (FUNCTION_NAMES.has(name)) {
+      return this.parseFunctionApplication(name, token);
+    }
+
+    if (name === 'operatorname') {
+      return this.parseFunctionApplication(this.readLetterGroup(token), token);
+    }
+
+    if (name === 'mathrm' || name === 'mathit') {
+      return { kind: 'symbol', name: this.readLetterGroup(token) };
+    }
+
+    if (GREEK_LETTERS.has(name)) {
+      return { kind: 'symbol', name };
+    }
+
+    if (name === 'infty') {
+      return { kind: 'symbol', name: 'oo' };
+    }
+
+    if (name === 'right') {
+      throw this.error('\\right without matching \\left', token);
+    }
+
+    if (name === 'text' || name === 'mbox') {
+      throw this.error(`Text is not allowed in math: \\${name}`, token);
+    }
+
+    if (this.multiplicativeOperator(token) || this.additiveOperator(token) || this.relationOperator(token)) {
+      throw this.error(`Unexpected operator ${describeToken(token)}`, token);
+    }
+
+    throw this.error(`Unknown command \\${name}`, token);
+  }
+
+  /** Reads {abc} as a plain name, as used by \operatorname and \mathrm */
+  private readLetterGroup(command: Token): string {
+    this.expectChar('{');
+    let name = '';
+    while (this.peek().type === 'letter' || this.peek().type === 'number') {
+      name += this.next().value;
+    }
+    if (!name) {
+      throw this.error(`Missing name for \\${command.value}`, this.peek());
+    }
+    this.expectChar('}');
+    return name;
+  }
+
+  private readDelimiter(command: Token): string {
+    const token = this.next();
+    if (token.type === 'char' && CLOSING_DELIMITERS[token.value] !== undefined) {
+      return token.value;
+    }
+    if (token.type === 'char' && (token.value === ')' || token.value === ']')) {
+      return token.value;
+    }
+    if (token.type === 'command') {
+      if (token.value === '{' || token.value === 'lbrace') return '{';
+      if (token.value === '}' || token.value === 'rbrace') return '}';
+      if (token.value === '|' || token.value === 'vert' || token.value === 'lvert' || token.value === 'rvert') return '|';
+    }
+    throw this.error(`Invalid delimiter after \\${command.value}`, token);
+  }
+
+  private parseLeftRight(left: Token): MathNode {
+    const open = this.readDelimiter(left);
+    const isAbs = open === '|';
+
+    if (isAbs) this.absDepth++;
+    const inner = open === '(' ? this.parseArgumentList() : [this.parseAdditive()];
+    if (isAbs) this.absDepth--;
+
+    const right = this.peek();
+    if (!this.isCommand('right', right)) {
+      throw this.error(`Expected '\\right' but found ${describeToken(right)}`, right);
+    }
+    this.next();
+    const closeToken = this.peek();
+    const close = this.readDelimiter(right);
+    const expected = CLOSING_DELIMITERS[open];
+    if (open !== '.' && close !== '.' && close !== expected) {
+      throw this.error(`Mismatched delimiter: expected '${expected}'`, closeToken);
+    }
+
+    if (inner.length > 1) {
+      throw this.error('Unexpected list inside parentheses', left);
+    }
+    return isAbs ? { kind: 'function', name: 'abs', args: inner } : inner[0];
+  }
+
+  /** Comma-separated expressions up to (but not including) the closing delimiter */
+  private parseArgumentList(): MathNode[] {
+    const args = [this.parseAdditive()];
+    while (this.isChar(',')) {
+      this.next();
+      args.push(this.parseAdditive());
+    }
+    return args;
+  }
+
+  private parseParenthesizedArguments(): MathNode[] {
+    const token = this.peek();
+    if (this.isCommand('left')) {
+      this.next();
+      const open = this.readDelimiter(token);
+      if (open !== '(') {
+        throw this.error(`Expected '(' after \\left`, token);
+      }
+      const args = this.parseArgumentList();
+      const right = this.peek();
+      if (!this.isCommand('right', right)) {
+        throw this.error(`Expected '\\right' but found ${describeToken(right)}`, right);
+      }
+      this.next();
+      const closeToken = this.peek();
+      if (this.readDelimiter(right) !== ')') {
+        throw this.error(`Mismatched delimiter: expected ')'`, closeToken);
+      }
+      return args;
+    }
+
+    this.expectChar('(');
+    const args = this.parseArgumentList();
+    this.expectChar(')');
+    return args;
+  }
+
+  private parseFunctionApplication(name: string, token: Token): MathNode {
+    let base: MathNode | undefined;
+    let power: MathNode | undefined;
+    let resolvedName = name;
+
+    for (;;) {
+      if (this.isChar('_')) {
+        const underscore = this.next();
+        if (name !== 'log') {
+          throw this.error(`Subscript not allowed on \\${name}`, underscore);
+        }
+        base = this.parseScript();
+      } else if (this.isChar('^')) {
+        this.next();
+        power = this.parseScript();
+      } else {
+        break;
+      }
+    }
+
+    // \sin^{-1} x is the inverse function, not a reciprocal
+    if (
+      power &&
+      power.kind === 'unary' &&
+      power.op === '-' &&
+      power.operand.kind === 'number' &&
+      power.operand.value === '1' &&
+      ['sin', 'cos', 'tan'].includes(name)
+    ) {
+      resolvedName = `arc${name}`;
+      power = undefined;
+    }
+
+    let args: MathNode[];
+    if (this.isChar('(') || (this.isCommand('left') && this.isChar('(', this.peek(1)))) {
+      args = this.parseParenthesizedArguments();
+    } else if (this.startsImplicitFactor(this.peek())) {
+      // \sin 2x applies to the whole implicit product 2x
+      let arg = this.parsePower();
+      while (this.startsImplicitFactor(this.peek()) && !this.isFunctionStart(this.peek())) {
+        arg = { kind: 'binary', op: '*', left: arg, right: this.parsePower(), implicit: true };
+      }
+      args = [arg];
+    } else {
+      throw this.error(`Missing argument for ${name}`, this.peek().type === 'eof' ? this.peek() : token);
+    }
+
+    if (base) {
+      args = [...args, base];
+    }
+
+    const call: MathNode = { kind: 'function', name: resolvedName, args };
+    return power ? { kind: 'binary', op: '^', left: call, right: power } : call;
+  }
+
+  private isFunctionStart(token: Token) {
+    return token.type === 'command' && (FUNCTION_NAMES.has(token.value) || token.value === 'operatorname');
+  }
+}
+
+/**
+ * Parse a LaTeX (or plain-text) math string into an expression tree
+ * @throws LatexParseError with the offset of the offending character
+ */
+export function parseLatex(latex: string): MathNode {
+  return new LatexParser(latex).parse();
+}
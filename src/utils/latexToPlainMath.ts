@@ -1,96 +1,183 @@
 /**
  * Convert LaTeX math expressions to plain text format that SymPy can parse
- * 
- * This handles common LaTeX patterns and converts them to standard math notation
- * that SymPy's parser can understand.
+ *
+ * The LaTeX is parsed into an expression tree (see latexParser.ts) and then
+ * serialized, so nested fractions and exponents keep their structure and
+ * unsupported input fails loudly instead of producing garbage.
  */
 
+import { parseLatex, type MathNode, type RelationOperator } from './latexParser';
+
+// Higher binds tighter
+const Precedence = {
+  Sequence: 0,
+  Relation: 1,
+  Additive: 2,
+  Multiplicative: 3,
+  Unary: 4,
+  Power: 5,
+  Atom: 6,
+} as const;
+
+type Precedence = (typeof Precedence)[keyof typeof Precedence];
+
+// SymPy spellings of function names that differ from LaTeX
+const SYMPY_FUNCTION_NAMES: Record<string, string> = {
+  abs: 'Abs',
+  arcsin: 'asin',
+  arccos: 'acos',
+  arctan: 'atan',
+  min: 'Min',
+  max: 'Max',
+};
+
+const RELATION_TEXT: Record<RelationOperator, string> = {
+  '=': '=',
+  '<': '<',
+  '>': '>',
+  '<=': '<=',
+  '>=': '>=',
+  '!=': '!=',
+};
+
+const precedenceOf = (node: MathNode): Precedence => {
+  switch (node.kind) {
+    case 'sequence':
+      return Precedence.Sequence;
+    case 'relation':
+      return Precedence.Relation;
+    case 'binary':
+      if (node.op === '^') return Precedence.Power;
+      if (node.op === '*' || node.op === '/') return Precedence.Multiplicative;
+      return Precedence.Additive;
+    case 'fraction':
+      return Precedence.Multiplicative;
+    case 'unary':
+      return Precedence.Unary;
+    default:
+      return Precedence.Atom;
+  }
+};
+
+const isDivision = (node: MathNode) =>
+  node.kind === 'fraction' || (node.kind === 'binary' && node.op === '/');
+
+const wrap = (node: MathNode, parenthesize: boolean) => {
+  const text = serializeMathNode(node);
+  return parenthesize ? `(${text})` : text;
+};
+
+/** Flattens a subscript like {12} or {ab} into a SymPy-safe symbol suffix */
+const subscriptText = (node: MathNode): string => {
+  switch (node.kind) {
+    case 'number':
+      return node.value.replace('.', '');
+    case 'symbol':
+      return node.name;
+    case 'binary':
+      if (node.op === '*' && node.implicit) {
+        return `${subscriptText(node.left)}${subscriptText(node.right)}`;
+      }
+      break;
+    default:
+      break;
+  }
+  return serializeMathNode(node).replace(/[^A-Za-z0-9]/g, '');
+};
+
+/**
+ * Serialize an expression tree to SymPy-compatible plain text
+ */
+export function serializeMathNode(node: MathNode): string {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+
+    case 'symbol':
+      return node.name;
+
+    case 'subscript':
+      return `${serializeMathNode(node.base)}_${subscriptText(node.subscript)}`;
+
+    case 'function': {
+      const name = SYMPY_FUNCTION_NAMES[node.name] ?? node.name;
+      return `${name}(${node.args.map(serializeMathNode).join(', ')})`;
+    }
+
+    case 'root':
+      return node.index
+        ? `root(${serializeMathNode(node.radicand)}, ${serializeMathNode(node.index)})`
+        : `sqrt(${serializeMathNode(node.radicand)})`;
+
+    case 'fraction':
+      // Nested fractions keep explicit parentheses: \frac{\frac{1}{2}}{3} -> (1/2)/3
+      return `${wrap(node.numerator, precedenceOf(node.numerator) < Precedence.Multiplicative || isDivision(node.numerator))}/${wrap(
+        node.denominator,
+        precedenceOf(node.denominator) <= Precedence.Multiplicative
+      )}`;
+
+    case 'unary': {
+      const sign = node.op === '±' ? '+/-' : node.op === '∓' ? '-/+' : node.op;
+      return `${sign}${wrap(node.operand, precedenceOf(node.operand) <= Precedence.Unary)}`;
+    }
+
+    case 'binary': {
+      const left = precedenceOf(node.left);
+      const right = precedenceOf(node.right);
+
+      switch (node.op) {
+        case '^':
+          return `${wrap(node.left, left < Precedence.Atom)}^${wrap(node.right, right < Precedence.Atom)}`;
+        case '*':
+          return `${wrap(node.left, left < Precedence.Multiplicative)}*${wrap(
+            node.right,
+            right < Precedence.Multiplicative
+          )}`;
+        case '/':
+          return `${wrap(node.left, left < Precedence.Multiplicative)}/${wrap(
+            node.right,
+            right <= Precedence.Multiplicative
+          )}`;
+        case '+':
+          return `${wrap(node.left, left < Precedence.Additive)} + ${wrap(node.right, right < Precedence.Additive)}`;
+        case '-':
+          return `${wrap(node.left, left < Precedence.Additive)} - ${wrap(node.right, right <= Precedence.Additive)}`;
+        case '±':
+        case '∓':
+          return `${wrap(node.left, left < Precedence.Additive)} ${node.op === '±' ? '+/-' : '-/+'} ${wrap(
+            node.right,
+            right <= Precedence.Additive
+          )}`;
+      }
+      break;
+    }
+
+    case 'relation':
+      return node.operands
+        .map((operand, i) =>
+          i === 0 ? serializeMathNode(operand) : ` ${RELATION_TEXT[node.operators[i - 1]]} ${serializeMathNode(operand)}`
+        )
+        .join('');
+
+    case 'sequence':
+      return node.items.map(serializeMathNode).join(', ');
+  }
+
+  return '';
+}
+
 /**
  * Convert LaTeX expression to plain math notation
  * @param latex - LaTeX string from MathLive
  * @returns Plain math notation string
+ * @throws LatexParseError when the input is not valid math
  */
 export function latexToPlainMath(latex: string): string {
   if (!latex || latex.trim() === '') {
     return '';
   }
 
-  let result = latex;
-
-  // Remove LaTeX command wrappers
-  // Handle \left( and \right) -> (
-  result = result.replace(/\\left\(/g, '(');
-  result = result.replace(/\\right\)/g, ')');
-  result = result.replace(/\\left\[/g, '[');
-  result = result.replace(/\\right\]/g, ']');
-  result = result.replace(/\\left\{/g, '{');
-  result = result.replace(/\\right\}/g, '}');
-
-  // Handle fractions: \frac{a}{b} -> (a)/(b) or a/b
-  result = result.replace(/\\frac\{([^}]+)\}\{([^}]+)\}/g, '($1)/($2)');
-
-  // Handle square roots: \sqrt{x} -> sqrt(x)
-  result = result.replace(/\\sqrt\{([^}]+)\}/g, 'sqrt($1)');
-  result = result.replace(/\\sqrt\[(\d+)\]\{([^}]+)\}/g, '($2)^(1/$1)'); // nth root
-
-  // Handle exponents: x^{2} -> x^2, x^{n+1} -> x^(n+1)
-  result = result.replace(/\^\{([^}]+)\}/g, '^($1)');
-  result = result.replace(/\^(\d+)/g, '^$1'); // Already plain, keep as is
-
-  // Handle subscripts: x_{1} -> x_1 (SymPy can handle this)
-  result = result.replace(/_\{([^}]+)\}/g, '_$1');
-
-  // Handle multiplication: \cdot -> *, \times -> *
-  result = result.replace(/\\cdot/g, '*');
-  result = result.replace(/\\times/g, '*');
-
-  // Handle division: \div -> /
-  result = result.replace(/\\div/g, '/');
-
-  // Handle plus/minus: \pm -> +/-, \mp -> -/+
-  result = result.replace(/\\pm/g, '+/-');
-  result = result.replace(/\\mp/g, '-/+');
-
-  // Handle common functions
-  result = result.replace(/\\sin\(/g, 'sin(');
-  result = result.replace(/\\cos\(/g, 'cos(');
-  result = result.replace(/\\tan\(/g, 'tan(');
-  result = result.replace(/\\ln\(/g, 'ln(');
-  result = result.replace(/\\log\(/g, 'log(');
-  result = result.replace(/\\exp\(/g, 'exp(');
-
-  // Handle Greek letters (common ones)
-  result = result.replace(/\\alpha/g, 'alpha');
-  result = result.replace(/\\beta/g, 'beta');
-  result = result.replace(/\\gamma/g, 'gamma');
-  result = result.replace(/\\delta/g, 'delta');
-  result = result.replace(/\\epsilon/g, 'epsilon');
-  result = result.replace(/\\theta/g, 'theta');
-  result = result.replace(/\\lambda/g, 'lambda');
-  result = result.replace(/\\mu/g, 'mu');
-  result = result.replace(/\\pi/g, 'pi');
-  result = result.replace(/\\sigma/g, 'sigma');
-  result = result.replace(/\\phi/g, 'phi');
-  result = result.replace(/\\omega/g, 'omega');
-
-  // Handle spaces (remove them, but keep around operators for readability)
-  // Actually, keep spaces as they might be intentional multiplication
-  // But normalize multiple spaces to single space
-  result = result.replace(/\s+/g, ' ');
-
-  // Handle implicit multiplication (e.g., "2x" should stay as "2x" for SymPy)
-  // SymPy can handle implicit multiplication, so we don't need to add *
-
-  // Clean up any remaining LaTeX commands (basic ones)
-  result = result.replace(/\\[a-zA-Z]+\{([^}]+)\}/g, '$1'); // \command{content} -> content
-
-  // Remove any remaining backslashes (escape characters)
-  result = result.replace(/\\/g, '');
-
-  // Trim whitespace
-  result = result.trim();
-
-  return result;
+  return serializeMathNode(parseLatex(latex));
 }
 
 /**
@@ -99,4 +186,3 @@ export function latexToPlainMath(latex: string): string {
 export function latexArrayToPlainMath(latexArray: string[]): string[] {
   return latexArray.map(latexToPlainMath);
 }
-
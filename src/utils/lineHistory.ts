@@ -0,0 +1,100 @@
+/**
+ * Undo/redo timeline for a multi-line editor
+ *
+ * Every change stores a snapshot of all lines from before it, so inserts,
+ * removals, merges and edits across lines undo in the order they happened.
+ * Consecutive typing on one line (or in its annotation) collapses into a single step.
+ */
+
+export type LineChangeKind =
+  | 'edit'
+  | 'annotate'
+  | 'insert'
+  | 'remove'
+  | 'merge'
+  | 'replace'
+  | 'move'
+  | 'duplicate'
+  | 'paste';
+
+export interface LineSnapshot {
+  lines: string[];
+  /** Annotation of each line, parallel to lines */
+  notes: string[];
+  /** Line to focus when this snapshot is restored */
+  focusLine: number;
+}
+
+export interface LineHistory {
+  past: LineSnapshot[];
+  future: LineSnapshot[];
+  /** Last typing change, used to group keystrokes into one step */
+  lastEdit: { line: number; kind: LineChangeKind; at: number } | null;
+}
+
+// Typing pauses longer than this start a new undo step
+const EDIT_GROUP_MS = 1000;
+const MAX_HISTORY = 200;
+
+const isTyping = (kind: LineChangeKind) => kind === 'edit' || kind === 'annotate';
+
+export const EMPTY_LINE_HISTORY: LineHistory = { past: [], future: [], lastEdit: null };
+
+/**
+ * Record a change made to previous.lines. Returns the history unchanged when
+ * the change continues the current typing step.
+ */
+export function recordLineChange(
+  history: LineHistory,
+  previous: LineSnapshot,
+  kind: LineChangeKind,
+  now: number = Date.now()
+): LineHistory {
+  const { lastEdit } = history;
+  const edit = { line: previous.focusLine, kind, at: now };
+  if (
+    isTyping(kind) &&
+    lastEdit &&
+    lastEdit.line === previous.focusLine &&
+    lastEdit.kind === kind &&
+    now - lastEdit.at < EDIT_GROUP_MS
+  ) {
+    return { ...history, future: [], lastEdit: edit };
+  }
+
+  return {
+    past: [...history.past, previous].slice(-MAX_HISTORY),
+    future: [],
+    lastEdit: isTyping(kind) ? edit : null,
+  };
+}
+
+/**
+ * Step back one change. Returns null when there is nothing to undo.
+ */
+export function undoLineChange(
+  history: LineHistory,
+  current: LineSnapshot
+): { history: LineHistory; snapshot: LineSnapshot } | null {
+  const snapshot = history.past[history.past.length - 1];
+  if (!snapshot) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future], lastEdit: null },
+    snapshot,
+  };
+}
+
+/**
+ * Re-apply the last undone change. Returns null when there is nothing to redo.
+ */
+export function redoLineChange(
+  history: LineHistory,
+  current: LineSnapshot
+): { history: LineHistory; snapshot: LineSnapshot } | null {
+  const [snapshot, ...future] = history.future;
+  if (!snapshot) return null;
+  return {
+    history: { past: [...history.past, current], future, lastEdit: null },
+    snapshot,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Block operations on the lines of a multi-line editor
+ *
+ * Ranges are inclusive line indices. Each operation returns new arrays and
+ * the index the affected block starts at afterwards, so callers can move the
+ * selection or caret with it.
+ */
+
+/** A line together with its step annotation, as reported by the editor */
+export interface AnnotatedLine {
+  latex: string;
+  /** Why the step holds, e.g. "divide both sides by 2"; empty when not given */
+  note: string;
+}
+
+export const toAnnotatedLines = (lines: string[], notes: string[]): AnnotatedLine[] =>
+  lines.map((latex, i) => ({ latex, note: notes[i] ?? '' }));
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export const normalizeRange = (anchor: number, head: number): LineRange => ({
+  start: Math.min(anchor, head),
+  end: Math.max(anchor, head),
+});
+
+/**
+ * Move lines start..end so they sit before line insertBefore (lines.length appends).
+ * Dropping a block onto itself leaves the lines untouched.
+ */
+export function moveLineRange(
+  lines: string[],
+  range: LineRange,
+  insertBefore: number
+): { lines: string[]; start: number } {
+  const { start, end } = range;
+  if (insertBefore >= start && insertBefore <= end + 1) {
+    return { lines, start };
+  }
+
+  const block = lines.slice(start, end + 1);
+  const rest = [...lines.slice(0, start), ...lines.slice(end + 1)];
+  const target = insertBefore < start ? insertBefore : insertBefore - block.length;
+  rest.splice(target, 0, ...block);
+  return { lines: rest, start: target };
+}
+
+/**
+ * Insert a copy of lines start..end right after them. The copy starts at end + 1.
+ */
+export function duplicateLineRange(lines: string[], range: LineRange): { lines: string[]; start: number } {
+  const next = [...lines];
+  next.splice(range.end + 1, 0, ...lines.slice(range.start, range.end + 1));
+  return { lines: next, start: range.end + 1 };
+}
+
+/**
+ * Remove lines start..end, padding with empty lines to keep at least minLines
+ */
+export function removeLineRange(lines: string[], range: LineRange, minLines = 1): string[] {
+  const next = [...lines.slice(0, range.start), ...lines.slice(range.end + 1)];
+  while (next.length < Math.max(minLines, 1)) {
+    next.push('');
+  }
+  return next;
+}
@@ -0,0 +1,63 @@
+/**
+ * The app's IndexedDB database
+ *
+ * One database holds every object store; bump DB_VERSION when adding a store.
+ * Values go through the structured clone algorithm, so Dates and Maps survive
+ * a round trip.
+ */
+
+const DB_NAME = 'math-input-demo';
+const DB_VERSION = 2;
+
+/** In-progress work per problem, see problemSessionStore */
+export const SESSION_STORE = 'problemSessions';
+/** Logged solving attempts, see attemptHistoryStore */
+export const ATTEMPT_STORE = 'attempts';
+
+const STORES = [SESSION_STORE, ATTEMPT_STORE];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        STORES.forEach(name => {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name, { keyPath: name === SESSION_STORE ? 'key' : 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Let a later call try again, e.g. after the user allowed storage
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Run a single request against one store
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  return promisifyRequest(run(database.transaction(storeName, mode).objectStore(storeName)));
+}
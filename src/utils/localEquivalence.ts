@@ -0,0 +1,269 @@
+/**
+ * Offline equivalence checker
+ *
+ * Decides whether two expressions (or two equations) are equivalent by
+ * evaluating them at random sample points. Used by checkEquivalence when the
+ * validation API cannot be reached.
+ */
+
+import { parseLatex, type MathNode, type RelationNode } from './latexParser';
+import { serializeMathNode } from './latexToPlainMath';
+import { collectSymbols, evaluateMathNode, type Scope } from './mathEvaluator';
+
+export interface LocalEquivalenceOptions {
+  /** Number of sample points that must agree (default: 8) */
+  samples?: number;
+  /** Relative tolerance for comparing values (default: 1e-9) */
+  tolerance?: number;
+  /** Seed for the sample generator, so verdicts are reproducible (default: 1) */
+  seed?: number;
+}
+
+export interface LocalEquivalenceResult {
+  areEquivalent: boolean;
+  simplified1?: string;
+  simplified2?: string;
+  proof?: string;
+}
+
+export interface NodeComparison {
+  areEquivalent: boolean;
+  proof?: string;
+  /** For equivalent relations: first (L - R) divided by second (L - R) */
+  factor?: number;
+}
+
+const ABSOLUTE_TOLERANCE = 1e-12;
+
+/** Small deterministic PRNG (mulberry32) */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const approximatelyEqual = (a: number, b: number, tolerance: number) =>
+  Math.abs(a - b) <= ABSOLUTE_TOLERANCE + tolerance * Math.max(Math.abs(a), Math.abs(b), 1);
+
+const formatScope = (scope: Scope) =>
+  Object.entries(scope)
+    .map(([name, value]) => `${name} = ${Number(value.toFixed(4))}`)
+    .join(', ');
+
+/**
+ * Draw sample points where every function is defined. Wide ranges come first
+ * so sign-sensitive differences (|x| vs x) show up; if too many points fall
+ * outside the domain we retry with small positive values only.
+ */
+export function sampleScopes(
+  symbols: string[],
+  functions: Array<(scope: Scope) => number>,
+  count: number,
+  seed: number
+): Array<{ scope: Scope; values: number[] }> {
+  const random = createRandom(seed);
+  const points: Array<{ scope: Scope; values: number[] }> = [];
+  const maxAttempts = count * 20;
+
+  for (let attempt = 0; attempt < maxAttempts && points.length < count; attempt++) {
+    const positiveOnly = attempt >= count * 10;
+    const scope: Scope = {};
+    symbols.forEach(name => {
+      scope[name] = positiveOnly ? 0.1 + random() * 3.9 : -4 + random() * 8;
+    });
+    const values = functions.map(fn => fn(scope));
+    if (values.every(Number.isFinite)) {
+      points.push({ scope, values });
+    }
+  }
+
+  return points;
+}
+
+type Comparison = '=' | '<' | '<=' | '!=';
+
+interface NormalizedRelation {
+  comparison: Comparison;
+  difference: MathNode;
+}
+
+/** Rewrite "L op R" as "difference op 0" with op in =, <, <=, != */
+const normalizeRelation = (node: RelationNode): NormalizedRelation => {
+  if (node.operators.length !== 1) {
+    throw new Error('Chained relations cannot be compared; split them into separate equations');
+  }
+  const [left, right] = node.operands;
+  const op = node.operators[0];
+  const lr: MathNode = { kind: 'binary', op: '-', left, right };
+  const rl: MathNode = { kind: 'binary', op: '-', left: right, right: left };
+
+  switch (op) {
+    case '>':
+      return { comparison: '<', difference: rl };
+    case '>=':
+      return { comparison: '<=', difference: rl };
+    default:
+      return { comparison: op, difference: lr };
+  }
+};
+
+const compareExpressions = (
+  first: MathNode,
+  second: MathNode,
+  options: Required<LocalEquivalenceOptions>
+): NodeComparison => {
+  const symbols = Array.from(collectSymbols(second, collectSymbols(first))).sort();
+  const points = sampleScopes(
+    symbols,
+    [scope => evaluateMathNode(first, scope), scope => evaluateMathNode(second, scope)],
+    options.samples,
+    options.seed
+  );
+
+  if (points.length === 0) {
+    throw new Error('Could not find values where both expressions are defined');
+  }
+
+  const mismatch = points.find(({ values }) => !approximatelyEqual(values[0], values[1], options.tolerance));
+  if (mismatch) {
+    const where = symbols.length > 0 ? `At ${formatScope(mismatch.scope)}` : 'Numerically';
+    return {
+      areEquivalent: false,
+      proof: `${where} the first expression is ${Number(mismatch.values[0].toPrecision(8))} but the second is ${Number(
+        mismatch.values[1].toPrecision(8)
+      )}.`,
+    };
+  }
+
+  return {
+    areEquivalent: true,
+    proof: `Both expressions agree at ${points.length} sample point${points.length === 1 ? '' : 's'}.`,
+  };
+};
+
+/**
+ * Two equations are equivalent when their differences (L - R) are non-zero
+ * constant multiples of each other; for inequalities the multiple must be positive.
+ */
+const compareRelations = (
+  first: RelationNode,
+  second: RelationNode,
+  options: Required<LocalEquivalenceOptions>
+): NodeComparison => {
+  const a = normalizeRelation(first);
+  const b = normalizeRelation(second);
+
+  const isEquality = (c: Comparison) => c === '=' || c === '!=';
+  if (a.comparison !== b.comparison) {
+    return { areEquivalent: false, proof: 'The relations use different comparison operators.' };
+  }
+
+  const symbols = Array.from(collectSymbols(b.difference, collectSymbols(a.difference))).sort();
+  const points = sampleScopes(
+    symbols,
+    [scope => evaluateMathNode(a.difference, scope), scope => evaluateMathNode(b.difference, scope)],
+    options.samples,
+    options.seed
+  );
+
+  if (points.length === 0) {
+    throw new Error('Could not find values where both equations are defined');
+  }
+
+  const isZero = (value: number) => approximatelyEqual(value, 0, options.tolerance);
+  const firstIdentity = points.every(({ values }) => isZero(values[0]));
+  const secondIdentity = points.every(({ values }) => isZero(values[1]));
+
+  if (firstIdentity || secondIdentity) {
+    return firstIdentity && secondIdentity
+      ? { areEquivalent: true, proof: 'Both relations hold for every sampled value.', factor: 1 }
+      : { areEquivalent: false, proof: 'Only one of the relations holds for every sampled value.' };
+  }
+
+  const reference = points.find(({ values }) => !isZero(values[1]))!;
+  const ratio = reference.values[0] / reference.values[1];
+
+  if (isZero(ratio) || (!isEquality(a.comparison) && ratio < 0)) {
+    return {
+      areEquivalent: false,
+      proof: `At ${formatScope(reference.scope)} the relations are not scaled versions of each other.`,
+    };
+  }
+
+  const mismatch = points.find(
+    ({ values }) => !approximatelyEqual(values[0], ratio * values[1], options.tolerance)
+  );
+  if (mismatch) {
+    return {
+      areEquivalent: false,
+      proof: `At ${formatScope(mismatch.scope)} the relations are not scaled versions of each other.`,
+    };
+  }
+
+  const factor = Number(ratio.toPrecision(8));
+  return {
+    areEquivalent: true,
+    factor: ratio,
+    proof:
+      factor === 1
+        ? `Both relations agree at ${points.length} sample points.`
+        : `The first relation is the second multiplied by ${factor} (checked at ${points.length} sample points).`,
+  };
+};
+
+const resolveOptions = (options: LocalEquivalenceOptions): Required<LocalEquivalenceOptions> => ({
+  samples: options.samples ?? 8,
+  tolerance: options.tolerance ?? 1e-9,
+  seed: options.seed ?? 1,
+});
+
+/**
+ * Compare two parsed expressions or two parsed relations numerically
+ */
+export function compareMathNodes(
+  first: MathNode,
+  second: MathNode,
+  options: LocalEquivalenceOptions = {}
+): NodeComparison {
+  const resolved = resolveOptions(options);
+
+  if (first.kind === 'relation' && second.kind === 'relation') {
+    return compareRelations(first, second, resolved);
+  }
+
+  if (first.kind === 'relation' || second.kind === 'relation') {
+    return {
+      areEquivalent: false,
+      proof: 'An equation cannot be equivalent to an expression.',
+    };
+  }
+
+  return compareExpressions(first, second, resolved);
+}
+
+/**
+ * Check whether two expressions or two equations are equivalent without the API.
+ * Inputs may be LaTeX or plain-text math.
+ * @throws LatexParseError if either input cannot be parsed
+ */
+export function checkEquivalenceLocally(
+  expression1: string,
+  expression2: string,
+  options: LocalEquivalenceOptions = {}
+): LocalEquivalenceResult {
+  const first = parseLatex(expression1);
+  const second = parseLatex(expression2);
+  const { areEquivalent, proof } = compareMathNodes(first, second, options);
+
+  return {
+    areEquivalent,
+    proof,
+    simplified1: serializeMathNode(first),
+    simplified2: serializeMathNode(second),
+  };
+}
@@ -0,0 +1,688 @@
+/**
+ * In-browser step validator
+ *
+ * Produces the same BatchValidationResponse as
+ * POST /api/validate/problem/{type}/batch, using the LaTeX parser and numeric
+ * evaluation instead of SymPy. validateProblemBatch falls back to it when the
+ * API is unavailable.
+ */
+
+import { LatexParseError, parseLatex, type MathNode, type RelationNode } from './latexParser';
+import { serializeMathNode } from './latexToPlainMath';
+import { approximatelyEqual, compareMathNodes } from './localEquivalence';
+import { collectSymbols, evaluateMathNode, isMathConstant, symbolName, type Scope } from './mathEvaluator';
+import type {
+  BatchValidationLine,
+  BatchValidationOptions,
+  BatchValidationOverall,
+  BatchValidationResponse,
+  ProblemType,
+} from './validationApi';
+
+const TOLERANCE = 1e-9;
+
+interface ParsedLine {
+  index: number;
+  original: string;
+  node?: MathNode;
+  plainMath?: string;
+  parseError?: LatexParseError;
+}
+
+interface LineVerdict {
+  status: BatchValidationLine['status'];
+  feedback: string;
+  operation?: string;
+  errorCode?: string;
+  explanation?: string;
+}
+
+type Solution = Record<string, number>;
+
+/**
+ * Render a number as an exact-looking fraction when it is close to one
+ * with a small denominator (1.4285714 -> "10/7")
+ */
+export function formatNumber(value: number): string {
+  if (!Number.isFinite(value)) return String(value);
+  for (let denominator = 1; denominator <= 1000; denominator++) {
+    const numerator = Math.round(value * denominator);
+    if (approximatelyEqual(numerator / denominator, value, TOLERANCE)) {
+      return denominator === 1 ? String(numerator) : `${numerator}/${denominator}`;
+    }
+  }
+  return String(Number(value.toPrecision(10)));
+}
+
+const parseLine = (original: string, index: number): ParsedLine => {
+  try {
+    const node = parseLatex(original);
+    return { index, original, node, plainMath: serializeMathNode(node) };
+  } catch (error) {
+    if (error instanceof LatexParseError) {
+      return { index, original, parseError: error };
+    }
+    throw error;
+  }
+};
+
+const parseProblemNode = (source: string | undefined): MathNode | null => {
+  if (!source) return null;
+  try {
+    return parseLatex(source);
+  } catch {
+    return null;
+  }
+};
+
+const isConstant = (node: MathNode) => collectSymbols(node).size === 0;
+
+const tryEvaluate = (node: MathNode, scope: Scope = {}): number | null => {
+  try {
+    const value = evaluateMathNode(node, scope);
+    return Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Does every comparison in the relation hold at the given point? */
+const holdsAt = (relation: RelationNode, scope: Scope): boolean | null => {
+  const values = relation.operands.map(operand => tryEvaluate(operand, scope));
+  if (values.some(value => value === null)) return null;
+
+  return relation.operators.every((op, i) => {
+    const left = values[i]!;
+    const right = values[i + 1]!;
+    const equal = approximatelyEqual(left, right, 1e-6);
+    switch (op) {
+      case '=':
+        return equal;
+      case '!=':
+        return !equal;
+      case '<':
+        return left < right && !equal;
+      case '<=':
+        return left < right || equal;
+      case '>':
+        return left > right && !equal;
+      case '>=':
+        return left > right || equal;
+    }
+    return false;
+  });
+};
+
+/** Assignments like "x = 2" or "x = 2, y = 1" (variable on the left, constant on the right) */
+const extractAssignments = (node: MathNode): Record<string, MathNode> => {
+  const items = node.kind === 'sequence' ? node.items : [node];
+  const assignments: Record<string, MathNode> = {};
+
+  items.forEach(item => {
+    if (item.kind !== 'relation' || item.operators.length !== 1 || item.operators[0] !== '=') return;
+    const [left, right] = item.operands;
+    if ((left.kind === 'symbol' || left.kind === 'subscript') && isConstant(right)) {
+      assignments[symbolName(left)] = right;
+    } else if ((right.kind === 'symbol' || right.kind === 'subscript') && isConstant(left)) {
+      assignments[symbolName(right)] = left;
+    }
+  });
+
+  return assignments;
+};
+
+/**
+ * Solve a square linear system. Coefficients are read off numerically, so the
+ * equations may be written in any form; returns null when the system is
+ * non-linear, singular or not square.
+ */
+export function solveLinearSystem(relations: RelationNode[]): Solution | null {
+  const variables = Array.from(
+    relations.reduce((acc, relation) => collectSymbols(relation, acc), new Set<string>())
+  ).sort();
+  if (variables.length === 0 || variables.length !== relations.length) return null;
+
+  const differences: MathNode[] = relations.map(relation => {
+    if (relation.operators.length !== 1 || relation.operators[0] !== '=') return null;
+    return { kind: 'binary', op: '-', left: relation.operands[0], right: relation.operands[1] } as MathNode;
+  }).filter((node): node is MathNode => node !== null);
+  if (differences.length !== relations.length) return null;
+
+  const zero: Scope = Object.fromEntries(variables.map(name => [name, 0]));
+  const rows: number[][] = [];
+
+  for (const difference of differences) {
+    const constant = tryEvaluate(difference, zero);
+    if (constant === null) return null;
+    const coefficients = variables.map(name => {
+      const value = tryEvaluate(difference, { ...zero, [name]: 1 });
+      return value === null ? NaN : value - constant;
+    });
+    if (coefficients.some(Number.isNaN)) return null;
+
+    // Verify linearity at an arbitrary point
+    const probe: Scope = Object.fromEntries(variables.map((name, i) => [name, 1.7 + i * 0.6]));
+    const predicted = coefficients.reduce((sum, c, i) => sum + c * probe[variables[i]], constant);
+    const actual = tryEvaluate(difference, probe);
+    if (actual === null || !approximatelyEqual(actual, predicted, 1e-7)) return null;
+
+    rows.push([...coefficients, -constant]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  const n = variables.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= n; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+
+  return Object.fromEntries(variables.map((name, i) => [name, rows[i][n] / rows[i][i]]));
+}
+
+const countSymbolOccurrences = (node: MathNode, counts: Record<string, number> = {}) => {
+  if (node.kind === 'symbol' || node.kind === 'subscript') {
+    const name = symbolName(node);
+    if (!isMathConstant(name)) counts[name] = (counts[name] ?? 0) + 1;
+    return counts;
+  }
+  switch (node.kind) {
+    case 'binary':
+      countSymbolOccurrences(node.left, counts);
+      countSymbolOccurrences(node.right, counts);
+      break;
+    case 'unary':
+      countSymbolOccurrences(node.operand, counts);
+      break;
+    case 'fraction':
+      countSymbolOccurrences(node.numerator, counts);
+      countSymbolOccurrences(node.denominator, counts);
+      break;
+    case 'function':
+      node.args.forEach(arg => countSymbolOccurrences(arg, counts));
+      break;
+    case 'root':
+      countSymbolOccurrences(node.radicand, counts);
+      break;
+    default:
+      break;
+  }
+  return counts;
+};
+
+/** Is this a number or a fraction of integers, optionally negated? */
+const isNumericResult = (node: MathNode): boolean => {
+  if (node.kind === 'number') return true;
+  if (node.kind === 'unary' && node.op === '-') return isNumericResult(node.operand);
+  const parts =
+    node.kind === 'fraction'
+      ? [node.numerator, node.denominator]
+      : node.kind === 'binary' && node.op === '/'
+      ? [node.left, node.right]
+      : null;
+  return !!parts && parts.every(part => part.kind === 'number' && Number.isInteger(Number(part.value)));
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+const isReducedFraction = (node: MathNode): boolean => {
+  if (node.kind === 'unary') return isReducedFraction(node.operand);
+  const parts =
+    node.kind === 'fraction' ? [node.numerator, node.denominator] : node.kind === 'binary' ? [node.left, node.right] : null;
+  if (!parts) return true;
+  const [numerator, denominator] = parts.map(part => Number((part as { value: string }).value));
+  return denominator !== 1 && gcd(numerator, denominator) === 1;
+};
+
+/** A product or power of non-constant factors, e.g. (x - 4)(x + 4) */
+const isFactoredForm = (node: MathNode): boolean => {
+  if (node.kind === 'unary' && node.op === '-') return isFactoredForm(node.operand);
+  if (node.kind === 'binary' && node.op === '^') return !isConstant(node.left);
+  if (node.kind !== 'binary' || node.op !== '*') return false;
+  const factors: MathNode[] = [];
+  const flatten = (n: MathNode) => {
+    if (n.kind === 'binary' && n.op === '*') {
+      flatten(n.left);
+      flatten(n.right);
+    } else {
+      factors.push(n);
+    }
+  };
+  flatten(node);
+  return factors.filter(factor => !isConstant(factor)).length >= 2 ||
+    factors.some(factor => factor.kind === 'binary' && factor.op === '^' && !isConstant(factor.left));
+};
+
+/** Each variable appears once and no constant sub-expression is left to fold */
+const isSimplifiedForm = (node: MathNode): boolean => {
+  if (Object.values(countSymbolOccurrences(node)).some(count => count > 1)) return false;
+
+  const hasFoldableConstants = (n: MathNode): boolean => {
+    if (n.kind === 'binary') {
+      if (n.op !== '/' && isConstant(n.left) && isConstant(n.right) && n.op !== '^') {
+        return !(n.op === '*' && n.implicit);
+      }
+      if (n.op === '^' && n.left.kind === 'binary' && n.left.op === '^') return true;
+      return hasFoldableConstants(n.left) || hasFoldableConstants(n.right);
+    }
+    if (n.kind === 'unary') return hasFoldableConstants(n.operand);
+    return false;
+  };
+  return !hasFoldableConstants(node);
+};
+
+const lastExpression = (node: MathNode): MathNode =>
+  node.kind === 'relation' ? node.operands[node.operands.length - 1] : node;
+
+const guessExpressionOperation = (previous: MathNode, current: MathNode, problemType: ProblemType): string => {
+  if (problemType === 'arithmetic') return 'evaluate';
+  const isProduct = (n: MathNode) => n.kind === 'binary' && (n.op === '*' || n.op === '^');
+  const isSum = (n: MathNode) => n.kind === 'binary' && (n.op === '+' || n.op === '-');
+  if (isProduct(previous) && isSum(current)) return 'expand';
+  if (isSum(previous) && isProduct(current)) return 'factor';
+  return 'simplify';
+};
+
+const containsGroupedProduct = (node: MathNode): boolean => {
+  switch (node.kind) {
+    case 'binary':
+      if (node.op === '*' && [node.left, node.right].some(side => side.kind === 'binary' && (side.op === '+' || side.op === '-'))) {
+        return true;
+      }
+      return containsGroupedProduct(node.left) || containsGroupedProduct(node.right);
+    case 'unary':
+      return containsGroupedProduct(node.operand);
+    case 'relation':
+      return node.operands.some(containsGroupedProduct);
+    default:
+      return false;
+  }
+};
+
+const guessEquationOperation = (
+  previous: MathNode | null,
+  current: MathNode,
+  factor: number | undefined,
+  systemSymbolCount: number
+): string => {
+  const assignments = extractAssignments(current);
+  if (current.kind === 'sequence' && Object.keys(assignments).length > 0) {
+    return 'state_answer';
+  }
+  if (current.kind === 'relation' && Object.keys(assignments).length === 1) {
+    return isNumericResult(Object.values(assignments)[0]) ? 'solve_for_variable' : 'evaluate';
+  }
+  if (factor === undefined) {
+    const referenceCount = previous ? collectSymbols(previous).size : systemSymbolCount;
+    if (collectSymbols(current).size < referenceCount) {
+      return containsGroupedProduct(current) ? 'substitute' : 'eliminate_variable';
+    }
+    return 'combine_equations';
+  }
+  if (approximatelyEqual(Math.abs(factor), 1, 1e-9)) {
+    return previous && serializeMathNode(current).length < serializeMathNode(previous).length ? 'simplify' : 'rearrange';
+  }
+  // factor is (reference L - R) / (current L - R)
+  return Math.abs(factor) < 1 ? 'multiply_both_sides' : 'divide_both_sides';
+};
+
+const validateSystemLine = (
+  line: ParsedLine & { node: MathNode },
+  previous: ParsedLine | null,
+  solution: Solution | null,
+  systemEquations: RelationNode[]
+): LineVerdict => {
+  const { node } = line;
+  const relations: RelationNode[] =
+    node.kind === 'relation'
+      ? [node]
+      : node.kind === 'sequence'
+      ? node.items.filter((item): item is RelationNode => item.kind === 'relation')
+      : [];
+
+  if (relations.length === 0 || (node.kind === 'sequence' && relations.length !== node.items.length)) {
+    return {
+      status: 'needs_review',
+      feedback: 'Write each step as an equation so it can be checked.',
+      errorCode: 'NOT_AN_EQUATION',
+    };
+  }
+
+  const previousNode = previous?.node ?? null;
+  // Compare with the previous line first, then with the given equations
+  const references = [...(previousNode ? [previousNode] : []), ...systemEquations];
+  let factor: number | undefined;
+  let reference: MathNode | null = previousNode;
+  if (node.kind === 'relation') {
+    for (const candidate of references) {
+      if (candidate.kind !== 'relation') continue;
+      try {
+        const comparison = compareMathNodes(candidate, node);
+        if (comparison.areEquivalent) {
+          factor = comparison.factor;
+          reference = candidate;
+          break;
+        }
+      } catch {
+        // Non-comparable lines simply get no operation guess
+      }
+    }
+  }
+  const systemSymbolCount = systemEquations.reduce((acc, eq) => collectSymbols(eq, acc), new Set<string>()).size;
+  const operation = guessEquationOperation(reference, node, factor, systemSymbolCount);
+
+  if (!solution) {
+    if (factor !== undefined) {
+      return reference === previousNode
+        ? { status: 'valid', feedback: 'This step is equivalent to the previous one.', operation }
+        : { status: 'valid', feedback: 'This is equivalent to one of the given equations.', operation };
+    }
+    return {
+      status: 'needs_review',
+      feedback: 'This step could not be verified offline.',
+      operation,
+      explanation: 'The system could not be solved locally, so only equivalence with earlier equations is checked.',
+    };
+  }
+
+  const failing = relations.find(relation => holdsAt(relation, solution) === false);
+  if (failing) {
+    return {
+      status: 'invalid',
+      feedback: 'This equation is not true for the solution of the system. Check your arithmetic.',
+      operation,
+      errorCode: 'INCONSISTENT_WITH_SYSTEM',
+      explanation: `${serializeMathNode(failing)} does not hold when ${Object.entries(solution)
+        .map(([name, value]) => `${name} = ${formatNumber(value)}`)
+        .join(', ')}.`,
+    };
+  }
+
+  if (relations.some(relation => holdsAt(relation, solution) === null)) {
+    return {
+      status: 'needs_review',
+      feedback: 'This step uses values outside the problem and could not be checked.',
+      operation,
+      errorCode: 'UNKNOWN_VARIABLES',
+    };
+  }
+
+  return { status: 'valid', feedback: 'Correct step.', operation };
+};
+
+const validateExpressionLine = (
+  line: ParsedLine & { node: MathNode },
+  previous: ParsedLine | null,
+  original: MathNode,
+  problemType: ProblemType
+): LineVerdict => {
+  const { node } = line;
+
+  if (node.kind === 'sequence') {
+    return { status: 'needs_review', feedback: 'Write one expression per line.', errorCode: 'MULTIPLE_EXPRESSIONS' };
+  }
+
+  const expressions = node.kind === 'relation' ? node.operands : [node];
+  if (node.kind === 'relation' && node.operators.some(op => op !== '=')) {
+    return { status: 'invalid', feedback: 'Only "=" is expected in this problem.', errorCode: 'UNEXPECTED_RELATION' };
+  }
+
+  const mismatch = expressions.find(expression => {
+    try {
+      return !compareMathNodes(original, expression).areEquivalent;
+    } catch {
+      return true;
+    }
+  });
+
+  const previousExpression = previous?.node ? lastExpression(previous.node) : original;
+  const operation = guessExpressionOperation(previousExpression, lastExpression(node), problemType);
+
+  if (mismatch) {
+    let explanation: string | undefined;
+    try {
+      explanation = compareMathNodes(original, mismatch).proof;
+    } catch (error) {
+      explanation = error instanceof Error ? error.message : undefined;
+    }
+    return {
+      status: 'invalid',
+      feedback: `${serializeMathNode(mismatch)} is not equal to the original expression.`,
+      operation,
+      errorCode: 'NOT_EQUIVALENT',
+      explanation,
+    };
+  }
+
+  return { status: 'valid', feedback: 'Correct: this is equivalent to the original expression.', operation };
+};
+
+const checkExpressionAnswer = (
+  finalNode: MathNode,
+  original: MathNode,
+  problemType: ProblemType
+): NonNullable<BatchValidationOverall['finalAnswer']> => {
+  const answer = lastExpression(finalNode);
+  const student = { answer: serializeMathNode(answer) };
+
+  if (problemType === 'arithmetic') {
+    const expected = tryEvaluate(original);
+    const expectedText = expected === null ? undefined : formatNumber(expected);
+    const expectedRecord = expectedText ? { answer: expectedText } : undefined;
+    if (!isNumericResult(answer)) {
+      return { isCorrect: false, feedback: 'Finish evaluating: the answer should be a single number.', student, expected: expectedRecord };
+    }
+    if (!isReducedFraction(answer)) {
+      return { isCorrect: false, feedback: 'Reduce the fraction to lowest terms.', student, expected: expectedRecord };
+    }
+    const value = tryEvaluate(answer);
+    const isCorrect = value !== null && expected !== null && approximatelyEqual(value, expected, 1e-9);
+    return {
+      isCorrect,
+      feedback: isCorrect ? 'Correct! The expression evaluates to this value.' : 'The final value is not correct.',
+      student,
+      expected: expectedRecord,
+    };
+  }
+
+  let equivalent = false;
+  try {
+    equivalent = compareMathNodes(original, answer).areEquivalent;
+  } catch {
+    equivalent = false;
+  }
+  if (!equivalent) {
+    return { isCorrect: false, feedback: 'The final expression is not equivalent to the original.', student };
+  }
+
+  if (problemType === 'factor' && !isFactoredForm(answer)) {
+    return { isCorrect: false, feedback: 'The expression is equivalent but not yet written as a product of factors.', student };
+  }
+  if (problemType === 'simplify' && !isSimplifiedForm(answer)) {
+    return { isCorrect: false, feedback: 'The expression is equivalent but can still be simplified.', student };
+  }
+
+  return {
+    isCorrect: true,
+    feedback: problemType === 'factor' ? 'Correct! The expression is fully factored.' : 'Correct! The expression is fully simplified.',
+    student,
+  };
+};
+
+const toBatchLine = (line: ParsedLine, verdict: LineVerdict, includeTelemetry: boolean): BatchValidationLine => {
+  const symbols = line.node ? Array.from(collectSymbols(line.node)).sort() : [];
+  return {
+    index: line.index,
+    original: line.original,
+    plainMath: line.plainMath,
+    operation: verdict.operation,
+    status: verdict.status,
+    feedback: verdict.feedback,
+    errorCode: verdict.errorCode,
+    diagnostics: verdict.explanation ? { errorExplanation: verdict.explanation } : undefined,
+    confidence: verdict.status === 'needs_review' ? 0.5 : 0.9,
+    sympy: line.plainMath
+      ? { simplified: line.plainMath, normalized: line.plainMath, symbolsTouched: symbols }
+      : undefined,
+    telemetry: includeTelemetry ? { engine: 'local' } : undefined,
+  };
+};
+
+/**
+ * Validate every line of student work without the API
+ */
+export function validateProblemBatchLocally(
+  problemType: ProblemType,
+  problemData: Record<string, unknown>,
+  studentWork: string[],
+  options: BatchValidationOptions = {}
+): BatchValidationResponse {
+  const startedAt = Date.now();
+  const includeTelemetry = options.includeTelemetry ?? true;
+  const lines = studentWork.map(parseLine);
+
+  const equationSources = Array.isArray(problemData.equations) ? (problemData.equations as string[]) : [];
+  const systemEquations = equationSources
+    .map(parseProblemNode)
+    .filter((node): node is RelationNode => node?.kind === 'relation');
+  const original = parseProblemNode(typeof problemData.expression === 'string' ? problemData.expression : undefined);
+  const isSystem = problemType === 'substitution' || (systemEquations.length > 0 && !original);
+  const solution = isSystem ? solveLinearSystem(systemEquations) : null;
+
+  let previous: ParsedLine | null = null;
+  const batchLines = lines.map(line => {
+    let verdict: LineVerdict;
+    if (!line.node) {
+      verdict = {
+        status: 'needs_review',
+        feedback: 'This line could not be read as math.',
+        errorCode: 'PARSE_ERROR',
+        explanation: line.parseError?.message,
+      };
+    } else if (isSystem) {
+      verdict = validateSystemLine(line as ParsedLine & { node: MathNode }, previous, solution, systemEquations);
+    } else if (original) {
+      verdict = validateExpressionLine(line as ParsedLine & { node: MathNode }, previous, original, problemType);
+    } else {
+      verdict = {
+        status: 'needs_review',
+        feedback: 'The problem statement could not be read, so this line was not checked.',
+        errorCode: 'PROBLEM_UNREADABLE',
+      };
+    }
+    if (line.node) previous = line;
+    return toBatchLine(line, verdict, includeTelemetry);
+  });
+
+  const validSteps = batchLines.filter(line => line.status === 'valid').length;
+  const invalidSteps = batchLines.filter(line => line.status === 'invalid').length;
+  const parsedLines = lines.filter(line => line.node);
+  const finalLine = parsedLines[parsedLines.length - 1];
+
+  let finalAnswer: BatchValidationOverall['finalAnswer'] = null;
+  let sympyCheck: BatchValidationOverall['sympyCheck'];
+  let recommendedNextAction: string | null = null;
+
+  if (isSystem) {
+    // Collect "x = value" lines from the end of the work until every variable is assigned
+    const assigned: Record<string, number> = {};
+    const studentAssignments: Record<string, string> = {};
+    const variables = solution ? Object.keys(solution) : [];
+    for (let i = parsedLines.length - 1; i >= 0; i--) {
+      const assignments = extractAssignments(parsedLines[i].node!);
+      if (Object.keys(assignments).length === 0) break;
+      Object.entries(assignments).forEach(([name, valueNode]) => {
+        if (name in assigned) return;
+        const value = tryEvaluate(valueNode);
+        if (value !== null) {
+          assigned[name] = value;
+          studentAssignments[name] = serializeMathNode(valueNode);
+        }
+      });
+      if (variables.length > 0 && variables.every(name => name in assigned)) break;
+    }
+
+    const expected = solution
+      ? Object.fromEntries(Object.entries(solution).map(([name, value]) => [name, formatNumber(value)]))
+      : undefined;
+    const discrepancies: string[] = [];
+    if (solution) {
+      variables.forEach(name => {
+        if (!(name in assigned)) {
+          discrepancies.push(`No final value given for ${name}`);
+        } else if (!approximatelyEqual(assigned[name], solution[name], 1e-6)) {
+          discrepancies.push(`${name} should be ${formatNumber(solution[name])}, not ${studentAssignments[name]}`);
+        }
+      });
+    }
+
+    const allAssigned = variables.length > 0 && variables.every(name => name in assigned);
+    if (allAssigned) {
+      const isCorrect = discrepancies.length === 0;
+      finalAnswer = {
+        isCorrect,
+        feedback: isCorrect
+          ? 'Correct! Your values satisfy every equation in the system.'
+          : `Not quite: ${discrepancies.join('; ')}.`,
+        student: studentAssignments,
+        expected,
+      };
+    }
+
+    sympyCheck = {
+      isSolved: finalAnswer?.isCorrect === true,
+      studentAssignments,
+      expectedSolution: expected ? [expected] : [],
+      discrepancies,
+    };
+
+    if (!solution) {
+      recommendedNextAction = 'The system could not be solved offline; check your answer when the server is available.';
+    } else if (!allAssigned) {
+      const missing = variables.filter(name => !(name in assigned));
+      recommendedNextAction = `Keep going: solve for ${missing.join(' and ')}.`;
+    }
+  } else if (original && finalLine?.node) {
+    finalAnswer = checkExpressionAnswer(finalLine.node, original, problemType);
+    sympyCheck = {
+      isSolved: finalAnswer.isCorrect === true,
+      studentAssignments: finalAnswer.student,
+      expectedSolution: finalAnswer.expected ? [finalAnswer.expected] : [],
+      discrepancies: finalAnswer.isCorrect ? [] : [finalAnswer.feedback ?? 'Final answer is not correct'],
+    };
+  }
+
+  const firstInvalid = batchLines.find(line => line.status === 'invalid');
+  if (firstInvalid) {
+    recommendedNextAction = `Review line ${(firstInvalid.index ?? 0) + 1} before continuing.`;
+  } else if (finalAnswer && !finalAnswer.isCorrect && !recommendedNextAction) {
+    recommendedNextAction = finalAnswer.feedback ?? null;
+  }
+
+  const overall: BatchValidationOverall = {
+    validSteps,
+    invalidSteps,
+    readyForAnswerCheck: finalAnswer !== null,
+    finished: finalAnswer?.isCorrect === true && invalidSteps === 0,
+    finalAnswer,
+    recommendedNextAction,
+    sympyCheck,
+  };
+
+  return {
+    lines: batchLines,
+    overall,
+    telemetry: includeTelemetry
+      ? { engine: 'local', durationMs: Date.now() - startedAt, solvedSystem: solution !== null }
+      : undefined,
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Clipboard formats for multi-line math
+ *
+ * Pasted text is split into one line per row (newlines, \\ row breaks and
+ * align-style environments), with plain-text math turned into LaTeX. Copying
+ * produces an align* block followed by the plain-text form of each line.
+ */
+
+import { convertAsciiMathToLatex } from 'mathlive';
+import { latexToPlainMath } from './latexToPlainMath';
+
+// Display-math wrappers whose rows become separate lines
+const ENVIRONMENT_PATTERN =
+  /\\(?:begin|end)\{(?:align|aligned|alignat|gather|gathered|eqnarray|split|multline|equation)\*?\}(?:\{\d+\})?/g;
+const DELIMITER_PATTERN = /\$\$|\\\[|\\\]|\$/g;
+// A \\ row break with optional spacing like \\[2pt]; replaced before the \[ \] delimiters, which it contains
+const ROW_BREAK_PATTERN = /\\\\(?:\[[^\]]*\])?/g;
+const TAG_PATTERN = /\\(?:nonumber|notag)\b|\\tag\*?\{[^}]*\}|\\label\{[^}]*\}/g;
+// LaTeX comments (an unescaped % to the end of the line), e.g. the plain-text lines we copy
+const COMMENT_PATTERN = /(^|[^\\])%.*$/gm;
+// Relations that align* lines up on
+const RELATION_PATTERN = /^(?:=|<|>|\\(?:leq?|geq?|neq?|lt|gt|approx|equiv)\b)/;
+
+/** The LaTeX of a single atom is a relation such as =, \le or \approx */
+export const isRelationLatex = (latex: string) => RELATION_PATTERN.test(latex.trim());
+
+/** Plain-text math has no LaTeX commands or groups */
+export const isPlainTextMath = (line: string) => !/[\\{}]/.test(line);
+
+/**
+ * LaTeX for one pasted line; plain-text math like x^2 - 16 or sqrt(x)/2 is converted
+ */
+export function toLatexLine(line: string): string {
+  const trimmed = line.trim();
+  if (!isPlainTextMath(trimmed)) {
+    return trimmed;
+  }
+  try {
+    return convertAsciiMathToLatex(trimmed);
+  } catch {
+    return trimmed;
+  }
+}
+
+/**
+ * Split pasted text into LaTeX lines, dropping comments, empty rows and alignment markers
+ */
+export function splitPastedMath(text: string): string[] {
+  return text
+    .replace(COMMENT_PATTERN, '$1')
+    .replace(ENVIRONMENT_PATTERN, '\n')
+    .replace(ROW_BREAK_PATTERN, '\n')
+    .replace(DELIMITER_PATTERN, '\n')
+    .replace(TAG_PATTERN, '')
+    .split(/\r?\n/)
+    .map(line => line.replace(/&/g, ' ').replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .map(toLatexLine);
+}
+
+/**
+ * Insert the align* column marker before the line's first top-level relation.
+ * Continuation lines that start with a relation get the marker up front.
+ */
+export function alignAtRelation(line: string): string {
+  let depth = 0;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '{') depth++;
+    else if (char === '}') depth--;
+    else if (depth === 0) {
+      if (RELATION_PATTERN.test(line.slice(i))) {
+        return `${line.slice(0, i).trimEnd()} &${line.slice(i)}`.trimStart();
+      }
+    }
+  }
+  return line;
+}
+
+/**
+ * Lines as an align* environment, aligned on their relations
+ */
+export function formatAlignBlock(lines: string[]): string {
+  const rows = lines.filter(line => line.trim().length > 0).map(alignAtRelation);
+  return ['\\begin{align*}', rows.map(row => `  ${row}`).join(' \\\\\n'), '\\end{align*}'].join('\n');
+}
+
+/**
+ * Plain-text version of each line, keeping the LaTeX for lines that don't parse
+ */
+export function toPlainTextLines(lines: string[]): string[] {
+  return lines
+    .filter(line => line.trim().length > 0)
+    .map(line => {
+      try {
+        return latexToPlainMath(line);
+      } catch {
+        return line;
+      }
+    });
+}
+
+/**
+ * Clipboard text for a block of lines: the align* block, then the plain-text
+ * lines as LaTeX comments so the whole payload still compiles
+ */
+export function formatLinesForClipboard(lines: string[]): string {
+  const plainText = toPlainTextLines(lines).map(line => `% ${line}`);
+  return [formatAlignBlock(lines), ...plainText].join('\n');
+}
@@ -0,0 +1,173 @@
+/**
+ * Numeric evaluation of parsed math expressions
+ *
+ * Used by the offline validators to compare expressions by plugging in
+ * sample values instead of manipulating them symbolically.
+ */
+
+import type { MathNode } from './latexParser';
+import { serializeMathNode } from './latexToPlainMath';
+
+export type Scope = Record<string, number>;
+
+/**
+ * Raised for constructs that have no single numeric value (±, relations, lists)
+ */
+export class EvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvaluationError';
+  }
+}
+
+const CONSTANTS: Scope = {
+  pi: Math.PI,
+  // Euler's number, so e^{x} and \exp(x) agree
+  e: Math.E,
+  oo: Infinity,
+};
+
+/** Whether a symbol names a constant such as pi or e rather than a variable */
+export const isMathConstant = (name: string) => Object.hasOwn(CONSTANTS, name);
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  cot: x => 1 / Math.tan(x),
+  sec: x => 1 / Math.cos(x),
+  csc: x => 1 / Math.sin(x),
+  arcsin: Math.asin,
+  arccos: Math.acos,
+  arctan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  exp: Math.exp,
+  ln: Math.log,
+  // Matches SymPy: log(x) is the natural log, log(x, b) uses base b
+  log: (x, base) => (base === undefined ? Math.log(x) : Math.log(x) / Math.log(base)),
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  min: Math.min,
+  max: Math.max,
+};
+
+/** Name a variable is known by, e.g. x_1 for x_{1} */
+export const symbolName = (node: MathNode): string =>
+  node.kind === 'symbol' ? node.name : serializeMathNode(node);
+
+/**
+ * Collect the free variables of an expression (constants like pi excluded)
+ */
+export function collectSymbols(node: MathNode, into: Set<string> = new Set()): Set<string> {
+  switch (node.kind) {
+    case 'symbol':
+      if (!isMathConstant(node.name)) into.add(node.name);
+      break;
+    case 'subscript':
+      into.add(symbolName(node));
+      break;
+    case 'binary':
+      collectSymbols(node.left, into);
+      collectSymbols(node.right, into);
+      break;
+    case 'unary':
+      collectSymbols(node.operand, into);
+      break;
+    case 'function':
+      node.args.forEach(arg => collectSymbols(arg, into));
+      break;
+    case 'fraction':
+      collectSymbols(node.numerator, into);
+      collectSymbols(node.denominator, into);
+      break;
+    case 'root':
+      collectSymbols(node.radicand, into);
+      if (node.index) collectSymbols(node.index, into);
+      break;
+    case 'relation':
+      node.operands.forEach(operand => collectSymbols(operand, into));
+      break;
+    case 'sequence':
+      node.items.forEach(item => collectSymbols(item, into));
+      break;
+    default:
+      break;
+  }
+  return into;
+}
+
+/**
+ * Evaluate an expression with the given variable values.
+ * Returns NaN outside the expression's domain (division by zero, sqrt(-1)).
+ * @throws EvaluationError for unbound variables or non-numeric constructs
+ */
+export function evaluateMathNode(node: MathNode, scope: Scope = {}): number {
+  switch (node.kind) {
+    case 'number':
+      return Number(node.value);
+
+    case 'symbol':
+    case 'subscript': {
+      const name = symbolName(node);
+      if (Object.hasOwn(scope, name)) return scope[name];
+      if (isMathConstant(name)) return CONSTANTS[name];
+      throw new EvaluationError(`No value for variable ${name}`);
+    }
+
+    case 'fraction':
+      return evaluateMathNode(node.numerator, scope) / evaluateMathNode(node.denominator, scope);
+
+    case 'root': {
+      const radicand = evaluateMathNode(node.radicand, scope);
+      if (!node.index) return Math.sqrt(radicand);
+      const index = evaluateMathNode(node.index, scope);
+      // Odd roots of negative numbers are real: root(-8, 3) = -2
+      if (radicand < 0 && Number.isInteger(index) && index % 2 === 1) {
+        return -Math.pow(-radicand, 1 / index);
+      }
+      return Math.pow(radicand, 1 / index);
+    }
+
+    case 'function': {
+      const fn = Object.hasOwn(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+      if (!fn) throw new EvaluationError(`Unknown function ${node.name}`);
+      return fn(...node.args.map(arg => evaluateMathNode(arg, scope)));
+    }
+
+    case 'unary':
+      if (node.op === '-') return -evaluateMathNode(node.operand, scope);
+      if (node.op === '+') return evaluateMathNode(node.operand, scope);
+      throw new EvaluationError(`Cannot evaluate ${node.op}: it has two values`);
+
+    case 'binary': {
+      if (node.op === '±' || node.op === '∓') {
+        throw new EvaluationError(`Cannot evaluate ${node.op}: it has two values`);
+      }
+      const left = evaluateMathNode(node.left, scope);
+      const right = evaluateMathNode(node.right, scope);
+      switch (node.op) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return left / right;
+        case '^':
+          return Math.pow(left, right);
+      }
+      break;
+    }
+
+    case 'relation':
+      throw new EvaluationError('Cannot evaluate an equation or inequality as a number');
+
+    case 'sequence':
+      throw new EvaluationError('Cannot evaluate a list as a number');
+  }
+
+  throw new EvaluationError('Unsupported expression');
+}
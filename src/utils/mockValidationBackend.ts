@@ -0,0 +1,307 @@
+/**
+ * In-memory ValidationBackend
+ *
+ * Answers every call locally: validation goes through the in-browser engines
+ * and problems live in a Map. Used for tests, demos and VITE_VALIDATION_BACKEND=mock.
+ */
+
+import { ConflictError, NotFoundError, ValidationError } from './apiErrors';
+import { LatexParseError, parseLatex } from './latexParser';
+import { serializeMathNode } from './latexToPlainMath';
+import { checkEquivalenceLocally, compareMathNodes } from './localEquivalence';
+import { formatNumber, validateProblemBatchLocally } from './localStepValidator';
+import { collectSymbols, evaluateMathNode } from './mathEvaluator';
+import type {
+  AnswerValidationResponse,
+  CalculateResponse,
+  HintResponse,
+  ParseResponse,
+  ProblemListResponse,
+  ProblemPayload,
+  ProblemRecord,
+  ProblemType,
+  StepValidationResponse,
+  ValidationBackend,
+  ValidationResponse,
+} from './validationApi';
+
+export interface MockValidationBackendOptions {
+  /** Problems available from the start */
+  problems?: ProblemPayload[];
+}
+
+const HINTS: Record<string, string[]> = {
+  substitution: [
+    'Pick the equation that is already solved for one variable.',
+    'Replace that variable in the other equation with its expression.',
+    'Solve the resulting one-variable equation, then substitute back.',
+  ],
+  factor: [
+    'Look for a pattern like a² - b².',
+    'Write each term as a perfect square.',
+    'Use a² - b² = (a - b)(a + b).',
+  ],
+  simplify: [
+    'Look for like terms or matching bases.',
+    'Apply the exponent rules or distribute first.',
+    'Combine like terms until each variable appears once.',
+  ],
+  arithmetic: [
+    'Remember the order of operations.',
+    'Work inside parentheses first, then multiplication and division.',
+    'For fractions, rewrite them over a common denominator.',
+  ],
+};
+
+const HINT_LEVELS: HintResponse['level'][] = ['gentle', 'moderate', 'strong'];
+
+const toRecord = (payload: ProblemPayload, existing?: ProblemRecord): ProblemRecord => {
+  const now = new Date().toISOString();
+  return {
+    ...payload,
+    problemData: {
+      title: payload.title,
+      description: payload.description,
+      equations: payload.equations,
+      expression: payload.expression,
+      metadata: payload.metadata,
+    },
+    created_at: existing?.created_at ?? now,
+    updated_at: now,
+  };
+};
+
+const paginate = (items: ProblemRecord[], page: number, pageSize: number): ProblemListResponse => {
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  return {
+    items: items.slice((page - 1) * pageSize, page * pageSize),
+    total_count: items.length,
+    page,
+    page_size: pageSize,
+    total_pages: totalPages,
+    has_next: page < totalPages,
+    has_previous: page > 1,
+  };
+};
+
+/**
+ * Create an isolated mock backend; each call gets its own problem store
+ */
+export function createMockValidationBackend(options: MockValidationBackendOptions = {}): ValidationBackend {
+  const problems = new Map<string, ProblemRecord>();
+  options.problems?.forEach(payload => problems.set(payload.problem_code, toRecord(payload)));
+
+  const sortedProblems = () =>
+    Array.from(problems.values()).sort((a, b) => a.problem_code.localeCompare(b.problem_code));
+
+  const requireProblem = (problemCode: string) => {
+    const problem = problems.get(problemCode);
+    if (!problem) {
+      throw new NotFoundError(`Problem "${problemCode}" not found`, { status: 404 });
+    }
+    return problem;
+  };
+
+  const backend: ValidationBackend = {
+    async validateLine(problemType, problemData, currentLine, lineIndex, previousLines): Promise<ValidationResponse> {
+      const result = validateProblemBatchLocally(problemType as ProblemType, problemData, [
+        ...previousLines,
+        currentLine,
+      ]);
+      const line = result.lines[result.lines.length - 1];
+      return {
+        isValid: line.status !== 'invalid',
+        isCorrect: line.status === 'valid',
+        feedback: line.feedback ? `Line ${lineIndex + 1}: ${line.feedback}` : undefined,
+        hint: null,
+        errors: line.errorCode ? [line.errorCode] : [],
+        warnings: line.status === 'needs_review' ? [line.feedback ?? 'Needs review'] : [],
+      };
+    },
+
+    async validateStep(_problemType, previousExpression, currentExpression, operation): Promise<StepValidationResponse> {
+      try {
+        const comparison = compareMathNodes(parseLatex(previousExpression), parseLatex(currentExpression));
+        return {
+          isValid: true,
+          isCorrect: comparison.areEquivalent,
+          feedback: comparison.areEquivalent
+            ? `The step${operation ? ` (${operation})` : ''} keeps the expression equivalent.`
+            : 'This step changes the value of the expression.',
+          explanation: comparison.proof,
+        };
+      } catch (error) {
+        return {
+          isValid: false,
+          isCorrect: false,
+          feedback: 'This step could not be read as math.',
+          errors: [error instanceof Error ? error.message : String(error)],
+        };
+      }
+    },
+
+    async checkEquivalence(expression1, expression2) {
+      return { ...checkEquivalenceLocally(expression1, expression2), mode: 'local' };
+    },
+
+    async validateProblem(problemType, problemData, studentWork, currentLineIndex) {
+      const result = validateProblemBatchLocally(problemType as ProblemType, problemData, studentWork);
+      const line = result.lines[currentLineIndex];
+      return {
+        lineValidation: {
+          lineIndex: currentLineIndex,
+          isValid: line ? line.status !== 'invalid' : false,
+          isCorrect: line ? line.status === 'valid' : false,
+          feedback: line?.feedback,
+          nextExpectedStep: result.overall?.recommendedNextAction ?? undefined,
+        },
+        overallProgress: {
+          stepsCompleted: result.overall?.validSteps ?? 0,
+          totalSteps: result.lines.length,
+          onTrack: (result.overall?.invalidSteps ?? 0) === 0,
+        },
+      };
+    },
+
+    async validateProblemBatch(problemType, problemData, studentWork, batchOptions, requestOptions) {
+      requestOptions?.signal?.throwIfAborted();
+      return {
+        ...validateProblemBatchLocally(problemType as ProblemType, problemData, studentWork, batchOptions),
+        mode: 'local',
+      };
+    },
+
+    async validateAnswer(problemType, problemData, studentAnswer): Promise<AnswerValidationResponse> {
+      const entries = Object.entries(studentAnswer);
+      const answerLine =
+        entries.length === 1 && entries[0][0] === 'answer'
+          ? entries[0][1]
+          : entries.map(([name, value]) => `${name} = ${value}`).join(', ');
+      const result = validateProblemBatchLocally(problemType as ProblemType, problemData, [answerLine]);
+      const finalAnswer = result.overall?.finalAnswer;
+      return {
+        isCorrect: finalAnswer?.isCorrect ?? false,
+        expectedAnswer: finalAnswer?.expected,
+        feedback: finalAnswer?.feedback ?? 'The answer could not be checked.',
+        verification: result.overall?.sympyCheck?.discrepancies?.join('; ') || undefined,
+      };
+    },
+
+    async getHint(problemType, _currentLine, previousLines, stuckFor): Promise<HintResponse> {
+      const hints = HINTS[problemType] ?? HINTS.substitution;
+      const levelIndex = Math.min(
+        HINT_LEVELS.length - 1,
+        Math.floor((stuckFor ?? 0) / 60) + (previousLines.length > 3 ? 1 : 0)
+      );
+      return {
+        hint: hints[levelIndex],
+        level: HINT_LEVELS[levelIndex],
+        nextStep: hints[Math.min(levelIndex + 1, hints.length - 1)],
+      };
+    },
+
+    async parseExpression(expression): Promise<ParseResponse> {
+      try {
+        const parsed = serializeMathNode(parseLatex(expression));
+        return { parsed, normalized: parsed, latex: expression, isValid: true };
+      } catch (error) {
+        if (error instanceof LatexParseError) {
+          return { parsed: '', isValid: false };
+        }
+        throw error;
+      }
+    },
+
+    async calculateExpression(expression, calculationType = 'simplify', variables): Promise<CalculateResponse> {
+      const base = { calculation_type: calculationType, original_expression: expression };
+      try {
+        const node = parseLatex(expression);
+        const missing = Array.from(collectSymbols(node)).filter(name => !(variables && name in variables));
+        if (missing.length > 0) {
+          return {
+            ...base,
+            success: false,
+            result: '',
+            error_message: `Symbolic ${calculationType} is not available offline (free variables: ${missing.join(', ')})`,
+          };
+        }
+        const result = formatNumber(evaluateMathNode(node, variables ?? {}));
+        return { ...base, success: true, result, latex_result: result };
+      } catch (error) {
+        return {
+          ...base,
+          success: false,
+          result: '',
+          error_message: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+
+    async createProblem(payload) {
+      if (!payload.problem_code?.trim()) {
+        throw new ValidationError('Invalid problem payload', { problem_code: 'field required' }, { status: 422 });
+      }
+      if (problems.has(payload.problem_code)) {
+        throw new ConflictError(`Problem "${payload.problem_code}" already exists`, { status: 409 });
+      }
+      const record = toRecord(payload);
+      problems.set(payload.problem_code, record);
+      return record;
+    },
+
+    async updateProblem(problemCode, payload) {
+      const existing = requireProblem(problemCode);
+      const current: ProblemPayload = {
+        problem_code: existing.problem_code,
+        type: existing.type,
+        title: existing.title,
+        description: existing.description,
+        equations: existing.equations,
+        expression: existing.expression,
+        difficulty: existing.difficulty,
+        tags: existing.tags,
+        skills: existing.skills,
+        gradeLevel: existing.gradeLevel,
+        metadata: existing.metadata,
+      };
+      // As over JSON: undefined leaves a field unchanged, null clears it
+      const { difficulty, gradeLevel, ...changes } = payload;
+      const record = toRecord(
+        {
+          ...current,
+          ...changes,
+          problem_code: problemCode,
+          difficulty: difficulty === undefined ? current.difficulty : difficulty ?? undefined,
+          gradeLevel: gradeLevel === undefined ? current.gradeLevel : gradeLevel ?? undefined,
+        },
+        existing
+      );
+      problems.set(problemCode, record);
+      return record;
+    },
+
+    async deleteProblem(problemCode) {
+      requireProblem(problemCode);
+      problems.delete(problemCode);
+      return { success: true };
+    },
+
+    async getProblem(problemCode) {
+      return requireProblem(problemCode);
+    },
+
+    async listProblems(page = 1, pageSize = 20) {
+      return paginate(sortedProblems(), page, pageSize);
+    },
+
+    async listProblemsByType(type, page = 1, pageSize = 20) {
+      return paginate(
+        sortedProblems().filter(problem => problem.type === type),
+        page,
+        pageSize
+      );
+    },
+  };
+
+  return backend;
+}
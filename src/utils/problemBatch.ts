@@ -0,0 +1,159 @@
+/**
+ * Batch actions over a selection of problems in ProblemBrowser
+ *
+ * The Problems API has no bulk endpoints, so a batch runs one request per
+ * problem, in order, and reports which problems it could not change.
+ */
+
+import { ConflictError, NotFoundError, ValidationError } from './apiErrors';
+import { parseLabelList } from './problemFilters';
+import { toProblemPayload } from './problemTransfer';
+import type { ProblemRecord, ProblemType, ValidationBackend } from './validationApi';
+
+export type TagChangeMode = 'add' | 'remove' | 'replace';
+
+export interface BatchFailure {
+  problemCode: string;
+  message: string;
+}
+
+export interface BatchOutcome {
+  /** Records returned by the API, for actions that return one */
+  updated: ProblemRecord[];
+  /** Codes the action went through for */
+  succeeded: string[];
+  failed: BatchFailure[];
+}
+
+/** Reported after each problem, with how many are done so far */
+export type BatchProgress = (done: number, total: number) => void;
+
+/** How long deleted problems can be restored from the local snapshot */
+export const UNDO_WINDOW_MS = 30_000;
+
+/**
+ * Tags after applying a batch retag. Labels are comma-separated input; removal
+ * ignores case so "Unit-3" also removes "unit-3".
+ */
+export function changeTags(current: string[] | undefined, mode: TagChangeMode, labelsText: string): string[] {
+  const labels = parseLabelList(labelsText);
+  const existing = current ?? [];
+  switch (mode) {
+    case 'add':
+      return Array.from(new Set([...existing, ...labels]));
+    case 'remove': {
+      const removed = new Set(labels.map(label => label.toLowerCase()));
+      return existing.filter(tag => !removed.has(tag.toLowerCase()));
+    }
+    default:
+      return labels;
+  }
+}
+
+const describeFailure = (error: unknown) => {
+  if (error instanceof ValidationError && Object.keys(error.fieldErrors).length > 0) {
+    return Object.entries(error.fieldErrors)
+      .map(([field, message]) => `${field}: ${message}`)
+      .join('; ');
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * Run an action for each problem in turn; a failure is recorded and the batch carries on
+ */
+async function runBatch(
+  records: ProblemRecord[],
+  action: (record: ProblemRecord) => Promise<ProblemRecord | null>,
+  onProgress?: BatchProgress
+): Promise<BatchOutcome> {
+  const outcome: BatchOutcome = { updated: [], succeeded: [], failed: [] };
+  for (const [index, record] of records.entries()) {
+    try {
+      const updated = await action(record);
+      if (updated) outcome.updated.push(updated);
+      outcome.succeeded.push(record.problem_code);
+    } catch (error) {
+      console.error(`Batch action failed for ${record.problem_code}`, error);
+      outcome.failed.push({ problemCode: record.problem_code, message: describeFailure(error) });
+    }
+    onProgress?.(index + 1, records.length);
+  }
+  return outcome;
+}
+
+export function deleteProblems(
+  backend: Pick<ValidationBackend, 'deleteProblem'>,
+  records: ProblemRecord[],
+  onProgress?: BatchProgress
+): Promise<BatchOutcome> {
+  return runBatch(
+    records,
+    async record => {
+      try {
+        await backend.deleteProblem(record.problem_code);
+      } catch (error) {
+        // Already gone on the server, which is what was asked for
+        if (!(error instanceof NotFoundError)) throw error;
+      }
+      return null;
+    },
+    onProgress
+  );
+}
+
+export function retagProblems(
+  backend: Pick<ValidationBackend, 'updateProblem'>,
+  records: ProblemRecord[],
+  mode: TagChangeMode,
+  labelsText: string,
+  onProgress?: BatchProgress
+): Promise<BatchOutcome> {
+  return runBatch(
+    records,
+    record => backend.updateProblem(record.problem_code, { tags: changeTags(record.tags, mode, labelsText) }),
+    onProgress
+  );
+}
+
+export function changeProblemTypes(
+  backend: Pick<ValidationBackend, 'updateProblem'>,
+  records: ProblemRecord[],
+  type: ProblemType,
+  onProgress?: BatchProgress
+): Promise<BatchOutcome> {
+  return runBatch(records, record => backend.updateProblem(record.problem_code, { type }), onProgress);
+}
+
+/**
+ * Re-create deleted problems from the records held before deleting them.
+ * Server-assigned fields such as created_at are not restored.
+ */
+export function restoreProblems(
+  backend: Pick<ValidationBackend, 'createProblem'>,
+  records: ProblemRecord[],
+  onProgress?: BatchProgress
+): Promise<BatchOutcome> {
+  return runBatch(
+    records,
+    async record => {
+      try {
+        return await backend.createProblem(toProblemPayload(record));
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          throw new Error('A problem with this code has been created since.', { cause: error });
+        }
+        throw error;
+      }
+    },
+    onProgress
+  );
+}
+
+/**
+ * One-line summary of the problems a batch could not change
+ */
+export const describeBatchFailures = (verb: string, failed: BatchFailure[]) =>
+  `Could not ${verb} ${failed.length} ${failed.length === 1 ? 'problem' : 'problems'}: ${failed
+    .map(failure => `${failure.problemCode} (${failure.message})`)
+    .join('; ')}`;
@@ -0,0 +1,346 @@
+/**
+ * Client-side searching, filtering and sorting of problems, and the URL form
+ * of a ProblemBrowser query
+ *
+ * The Problems API only filters by a single type, so views that narrow on
+ * anything else load every problem and do the rest here.
+ */
+
+import type {
+  ProblemDifficulty,
+  ProblemRecord,
+  ProblemType,
+  RequestOptions,
+  ValidationBackend,
+} from './validationApi';
+
+export const PROBLEM_DIFFICULTIES: ProblemDifficulty[] = ['easy', 'medium', 'hard'];
+
+const PROBLEM_TYPES: ProblemType[] = ['substitution', 'simplify', 'factor', 'arithmetic'];
+
+export const PAGE_SIZES = [10, 20, 50];
+
+export type ProblemSortKey =
+  | 'default'
+  | 'code-asc'
+  | 'code-desc'
+  | 'title-asc'
+  | 'title-desc'
+  | 'updated-desc'
+  | 'updated-asc'
+  | 'difficulty-asc'
+  | 'difficulty-desc'
+  | 'grade-asc'
+  | 'grade-desc';
+
+const SORT_KEYS: ProblemSortKey[] = [
+  'default',
+  'code-asc',
+  'code-desc',
+  'title-asc',
+  'title-desc',
+  'updated-desc',
+  'updated-asc',
+  'difficulty-asc',
+  'difficulty-desc',
+  'grade-asc',
+  'grade-desc',
+];
+
+export type ProblemDateField = 'created' | 'updated';
+
+export interface ProblemFilters {
+  /** Words that must all appear in the code, title, description or math */
+  search: string;
+  /** Empty for every type */
+  types: ProblemType[];
+  difficulty: ProblemDifficulty | 'all';
+  /** Matched against tags and skills, case-insensitively */
+  tag: string;
+  gradeLevel: number | null;
+  dateField: ProblemDateField;
+  /** Inclusive day bounds as yyyy-mm-dd, empty when open */
+  dateFrom: string;
+  dateTo: string;
+}
+
+export const EMPTY_PROBLEM_FILTERS: ProblemFilters = {
+  search: '',
+  types: [],
+  difficulty: 'all',
+  tag: '',
+  gradeLevel: null,
+  dateField: 'created',
+  dateFrom: '',
+  dateTo: '',
+};
+
+export interface ProblemQuery {
+  filters: ProblemFilters;
+  sort: ProblemSortKey;
+  page: number;
+  pageSize: number;
+}
+
+export const DEFAULT_PROBLEM_QUERY: ProblemQuery = {
+  filters: EMPTY_PROBLEM_FILTERS,
+  sort: 'default',
+  page: 1,
+  pageSize: PAGE_SIZES[0],
+};
+
+// Query-string names, kept short so shared links stay readable
+const PARAMS = {
+  search: 'q',
+  type: 'type',
+  difficulty: 'difficulty',
+  tag: 'tag',
+  grade: 'grade',
+  dateField: 'date',
+  from: 'from',
+  to: 'to',
+  sort: 'sort',
+  pageSize: 'size',
+  page: 'page',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const PAGE_SIZE = 100;
+
+/**
+ * Difficulty as a rank (0 = easy), or null when the problem does not say.
+ * Problems saved before difficulty was a field may carry it in metadata,
+ * as a level name or a 1-based number.
+ */
+export function problemDifficulty(problem: ProblemRecord): number | null {
+  const difficulty =
+    problem.difficulty ?? problem.metadata?.difficulty ?? problem.problemData?.metadata?.difficulty;
+  if (typeof difficulty === 'number' && Number.isFinite(difficulty)) {
+    return Math.max(0, Math.round(difficulty) - 1);
+  }
+  if (typeof difficulty === 'string') {
+    const rank = PROBLEM_DIFFICULTIES.indexOf(difficulty.trim().toLowerCase() as ProblemDifficulty);
+    return rank === -1 ? null : rank;
+  }
+  return null;
+}
+
+/**
+ * Split comma-separated input into trimmed, de-duplicated labels
+ */
+export function parseLabelList(text: string): string[] {
+  const labels = text
+    .split(',')
+    .map(label => label.trim())
+    .filter(Boolean);
+  return Array.from(new Set(labels));
+}
+
+export const formatLabelList = (labels?: string[]) => (labels ?? []).join(', ');
+
+/**
+ * Whether the query needs more than one page of the API's own listing
+ */
+export const needsClientQuery = ({ filters, sort }: ProblemQuery) =>
+  sort !== 'default' ||
+  filters.search.trim() !== '' ||
+  filters.types.length > 1 ||
+  filters.difficulty !== 'all' ||
+  filters.tag.trim() !== '' ||
+  filters.gradeLevel !== null ||
+  filters.dateFrom !== '' ||
+  filters.dateTo !== '';
+
+const searchableText = (problem: ProblemRecord) => {
+  const data = problem.problemData || {};
+  return [
+    problem.problem_code,
+    problem.title,
+    data.title,
+    problem.description,
+    data.description,
+    ...(problem.equations ?? []),
+    ...(data.equations ?? []),
+    problem.expression,
+    data.expression,
+  ]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+};
+
+// Epoch milliseconds of a yyyy-mm-dd day bound in local time
+const dayBound = (day: string, endOfDay: boolean) =>
+  new Date(`${day}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime();
+
+export function matchesProblemFilters(problem: ProblemRecord, filters: ProblemFilters): boolean {
+  if (filters.types.length > 0 && !filters.types.includes(problem.type)) {
+    return false;
+  }
+  if (filters.difficulty !== 'all' && problemDifficulty(problem) !== PROBLEM_DIFFICULTIES.indexOf(filters.difficulty)) {
+    return false;
+  }
+  if (filters.gradeLevel !== null && problem.gradeLevel !== filters.gradeLevel) {
+    return false;
+  }
+
+  const tag = filters.tag.trim().toLowerCase();
+  if (tag) {
+    const labels = [...(problem.tags ?? []), ...(problem.skills ?? [])];
+    if (!labels.some(label => label.toLowerCase().includes(tag))) {
+      return false;
+    }
+  }
+
+  if (filters.dateFrom || filters.dateTo) {
+    const stamp = filters.dateField === 'created' ? problem.created_at : problem.updated_at;
+    const time = stamp ? Date.parse(stamp) : NaN;
+    if (Number.isNaN(time)) {
+      return false;
+    }
+    if (filters.dateFrom && time < dayBound(filters.dateFrom, false)) return false;
+    if (filters.dateTo && time > dayBound(filters.dateTo, true)) return false;
+  }
+
+  const terms = filters.search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length > 0) {
+    const text = searchableText(problem);
+    return terms.every(term => text.includes(term));
+  }
+  return true;
+}
+
+const sortValue = (problem: ProblemRecord, field: string): string | number | null => {
+  switch (field) {
+    case 'code':
+      return problem.problem_code;
+    case 'title':
+      return (problem.title ?? problem.problemData?.title ?? '').toLowerCase() || null;
+    case 'updated': {
+      const time = Date.parse(problem.updated_at ?? problem.created_at ?? '');
+      return Number.isNaN(time) ? null : time;
+    }
+    case 'difficulty':
+      return problemDifficulty(problem);
+    default:
+      return problem.gradeLevel ?? null;
+  }
+};
+
+/**
+ * Sorted copy of problems; problems missing the sort field go last in either direction
+ */
+export function sortProblems(problems: ProblemRecord[], sortKey: ProblemSortKey): ProblemRecord[] {
+  if (sortKey === 'default') {
+    return problems;
+  }
+  const [field, direction] = sortKey.split('-');
+  const sign = direction === 'desc' ? -1 : 1;
+  return [...problems].sort((a, b) => {
+    const valueA = sortValue(a, field);
+    const valueB = sortValue(b, field);
+    if (valueA === null || valueB === null) {
+      return valueA === valueB ? 0 : valueA === null ? 1 : -1;
+    }
+    const order =
+      typeof valueA === 'number' && typeof valueB === 'number'
+        ? valueA - valueB
+        : String(valueA).localeCompare(String(valueB), undefined, { numeric: true });
+    return order * sign;
+  });
+}
+
+/**
+ * The problems matching a query's filters, in its order, before paging
+ */
+export const queryProblems = (problems: ProblemRecord[], { filters, sort }: ProblemQuery) =>
+  sortProblems(
+    problems.filter(problem => matchesProblemFilters(problem, filters)),
+    sort
+  );
+
+/**
+ * Every problem, or every problem of one type, fetched page by page until the
+ * API reports no more (or sends an empty page, so a wrong has_next cannot loop forever)
+ */
+export async function listAllProblems(
+  backend: Pick<ValidationBackend, 'listProblems' | 'listProblemsByType'>,
+  type: ProblemType | 'all',
+  requestOptions?: RequestOptions
+): Promise<ProblemRecord[]> {
+  const problems: ProblemRecord[] = [];
+  for (let page = 1; ; page++) {
+    const response =
+      type === 'all'
+        ? await backend.listProblems(page, PAGE_SIZE, requestOptions)
+        : await backend.listProblemsByType(type, page, PAGE_SIZE, requestOptions);
+    problems.push(...response.items);
+    if (!response.has_next || response.items.length === 0) break;
+  }
+  return problems;
+}
+
+const readPositiveInt = (value: string | null) => {
+  const number = Number(value);
+  return value && Number.isInteger(number) && number > 0 ? number : null;
+};
+
+/**
+ * Read a query from the URL, ignoring values that do not parse
+ */
+export function readProblemQuery(params: URLSearchParams): ProblemQuery {
+  const types = params.getAll(PARAMS.type).filter((type): type is ProblemType =>
+    PROBLEM_TYPES.includes(type as ProblemType)
+  );
+  const difficulty = params.get(PARAMS.difficulty);
+  const grade = params.get(PARAMS.grade);
+  const gradeLevel = grade !== null && /^\d+$/.test(grade) ? Number(grade) : null;
+  const day = (name: string) => {
+    const value = params.get(name) ?? '';
+    return DATE_PATTERN.test(value) ? value : '';
+  };
+  const sort = params.get(PARAMS.sort);
+  const pageSize = readPositiveInt(params.get(PARAMS.pageSize));
+
+  return {
+    filters: {
+      search: params.get(PARAMS.search) ?? '',
+      types: Array.from(new Set(types)),
+      difficulty: PROBLEM_DIFFICULTIES.includes(difficulty as ProblemDifficulty)
+        ? (difficulty as ProblemDifficulty)
+        : 'all',
+      tag: params.get(PARAMS.tag) ?? '',
+      gradeLevel,
+      dateField: params.get(PARAMS.dateField) === 'updated' ? 'updated' : 'created',
+      dateFrom: day(PARAMS.from),
+      dateTo: day(PARAMS.to),
+    },
+    sort: SORT_KEYS.includes(sort as ProblemSortKey) ? (sort as ProblemSortKey) : 'default',
+    page: readPositiveInt(params.get(PARAMS.page)) ?? 1,
+    pageSize: pageSize && PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_PROBLEM_QUERY.pageSize,
+  };
+}
+
+/**
+ * Copy of params with the query written into it. Defaults are left out, and
+ * parameters that are not part of the query (e.g. ?backend=mock) are kept.
+ */
+export function writeProblemQuery(params: URLSearchParams, query: ProblemQuery): URLSearchParams {
+  const next = new URLSearchParams(params);
+  Object.values(PARAMS).forEach(name => next.delete(name));
+
+  const { filters } = query;
+  if (filters.search.trim()) next.set(PARAMS.search, filters.search);
+  filters.types.forEach(type => next.append(PARAMS.type, type));
+  if (filters.difficulty !== 'all') next.set(PARAMS.difficulty, filters.difficulty);
+  if (filters.tag.trim()) next.set(PARAMS.tag, filters.tag);
+  if (filters.gradeLevel !== null) next.set(PARAMS.grade, String(filters.gradeLevel));
+  if (filters.dateField !== 'created') next.set(PARAMS.dateField, filters.dateField);
+  if (filters.dateFrom) next.set(PARAMS.from, filters.dateFrom);
+  if (filters.dateTo) next.set(PARAMS.to, filters.dateTo);
+  if (query.sort !== 'default') next.set(PARAMS.sort, query.sort);
+  if (query.pageSize !== DEFAULT_PROBLEM_QUERY.pageSize) next.set(PARAMS.pageSize, String(query.pageSize));
+  if (query.page > 1) next.set(PARAMS.page, String(query.page));
+  return next;
+}
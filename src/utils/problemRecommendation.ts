@@ -0,0 +1,90 @@
+/**
+ * Picking the problem to offer after one is solved
+ *
+ * The next problem has the same type as the solved one and has not been
+ * solved in this browser yet. Problems at the same difficulty come first, then
+ * those one level harder, then those without a difficulty, and only then any
+ * other unsolved problem of the type (easier, or more than one level harder).
+ * When the solved problem has no difficulty, any unsolved problem will do.
+ */
+
+import { listAttempts } from './attemptHistoryStore';
+import { PROBLEM_DIFFICULTIES, listAllProblems, problemDifficulty } from './problemFilters';
+import type {
+  ProblemDifficulty,
+  ProblemRecord,
+  ProblemType,
+  RequestOptions,
+  ValidationBackend,
+} from './validationApi';
+
+export interface NextProblemCriteria {
+  /** The problem just solved, never offered again */
+  currentCode?: string;
+  /** Rank of the problem just solved, see problemDifficulty */
+  difficulty: number | null;
+  /** Problems already solved */
+  solvedCodes: Set<string>;
+}
+
+/**
+ * Best candidate among problems of the solved problem's type, or null when every one is solved
+ */
+export function pickNextProblem(candidates: ProblemRecord[], criteria: NextProblemCriteria): ProblemRecord | null {
+  const unsolved = candidates.filter(
+    problem => problem.problem_code !== criteria.currentCode && !criteria.solvedCodes.has(problem.problem_code)
+  );
+  if (criteria.difficulty === null) {
+    return unsolved[0] ?? null;
+  }
+  const atLevel = (rank: number) => unsolved.find(problem => problemDifficulty(problem) === rank);
+  // Anything unsolved is still better than claiming every problem is done
+  return (
+    atLevel(criteria.difficulty) ??
+    atLevel(criteria.difficulty + 1) ??
+    unsolved.find(problem => problemDifficulty(problem) === null) ??
+    unsolved[0] ??
+    null
+  );
+}
+
+/** Codes of problems solved in an attempt logged in this browser */
+export async function loadSolvedProblemCodes(): Promise<Set<string>> {
+  const attempts = await listAttempts();
+  return new Set(
+    attempts.flatMap(attempt => (attempt.solvedAt !== null && attempt.problemCode ? [attempt.problemCode] : []))
+  );
+}
+
+/** The problem just solved */
+export interface SolvedProblem {
+  type: ProblemType;
+  /** Missing for pre-generated and inline problems */
+  problemCode?: string;
+  /** Used when the problem is not among those the API lists */
+  difficulty?: ProblemDifficulty;
+}
+
+/**
+ * Look through problems of the solved problem's type for the next one to offer
+ */
+export async function findNextProblem(
+  backend: Pick<ValidationBackend, 'listProblems' | 'listProblemsByType'>,
+  { type, problemCode: currentCode, difficulty }: SolvedProblem,
+  requestOptions?: RequestOptions
+): Promise<ProblemRecord | null> {
+  const solvedCodes = await loadSolvedProblemCodes().catch(error => {
+    console.warn('Could not read solved problems, recommending from all of them:', error);
+    return new Set<string>();
+  });
+
+  const candidates = await listAllProblems(backend, type, requestOptions);
+
+  const current = candidates.find(problem => problem.problem_code === currentCode);
+  const fallbackRank = difficulty ? PROBLEM_DIFFICULTIES.indexOf(difficulty) : -1;
+  return pickNextProblem(candidates, {
+    currentCode,
+    difficulty: current ? problemDifficulty(current) : fallbackRank === -1 ? null : fallbackRank,
+    solvedCodes,
+  });
+}
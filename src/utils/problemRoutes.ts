@@ -0,0 +1,81 @@
+/**
+ * Shareable URLs for opening a problem
+ *
+ * Problems stored in the API open at /problem/:problemCode and are loaded with
+ * getProblem. Pre-generated and ad-hoc problems have no code, so their content
+ * is encoded in the query string of /problem-inline instead.
+ */
+
+import { PROBLEM_DIFFICULTIES } from './problemFilters';
+import type { ProblemDifficulty, ProblemRecord, ProblemType } from './validationApi';
+
+export interface ProblemData {
+  type: ProblemType;
+  title?: string;
+  description?: string;
+  equations?: string[];
+  expression?: string;
+  difficulty?: ProblemDifficulty;
+}
+
+const PROBLEM_TYPES: ProblemType[] = ['substitution', 'simplify', 'factor', 'arithmetic'];
+
+const isProblemType = (value: string | null): value is ProblemType =>
+  PROBLEM_TYPES.includes(value as ProblemType);
+
+/**
+ * The fields the problem pages need, preferring top-level record fields over problemData
+ */
+export function toProblemData(problem: ProblemRecord): ProblemData {
+  const data = problem.problemData || {};
+  return {
+    type: problem.type,
+    title: problem.title ?? data.title,
+    description: problem.description ?? data.description,
+    equations: data.equations ?? problem.equations,
+    expression: data.expression ?? problem.expression,
+    difficulty: problem.difficulty,
+  };
+}
+
+export const problemPath = (problemCode: string) => `/problem/${encodeURIComponent(problemCode)}`;
+
+/**
+ * /problem-inline URL carrying the whole problem; each equation is a separate `eq` parameter
+ */
+export function inlineProblemPath(problem: ProblemData): string {
+  const params = new URLSearchParams({ type: problem.type });
+  if (problem.title) params.set('title', problem.title);
+  if (problem.description) params.set('description', problem.description);
+  problem.equations?.forEach(equation => params.append('eq', equation));
+  if (problem.expression) params.set('expr', problem.expression);
+  if (problem.difficulty) params.set('difficulty', problem.difficulty);
+  return `/problem-inline?${params.toString()}`;
+}
+
+/**
+ * Read a problem from /problem-inline query parameters. Returns null when the
+ * type is unknown or there is nothing to solve.
+ */
+export function parseInlineProblem(params: URLSearchParams): ProblemData | null {
+  const type = params.get('type');
+  if (!isProblemType(type)) {
+    return null;
+  }
+
+  const equations = params.getAll('eq').map(equation => equation.trim()).filter(Boolean);
+  const expression = params.get('expr')?.trim();
+  const difficulty = PROBLEM_DIFFICULTIES.find(level => level === params.get('difficulty'));
+  if (equations.length === 0 && !expression) {
+    return null;
+  }
+
+  return {
+    type,
+    title: params.get('title') ?? undefined,
+    description: params.get('description') ?? undefined,
+    ...(equations.length > 0 ? { equations } : {}),
+    ...(expression ? { expression } : {}),
+    ...(difficulty ? { difficulty } : {}),
+  };
+}
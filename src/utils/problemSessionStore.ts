@@ -0,0 +1,64 @@
+/**
+ * IndexedDB persistence for in-progress problem sessions
+ *
+ * Each session is stored under a key derived from the problem: its problem
+ * code when it comes from the problems API, otherwise a hash of its content
+ * (pre-generated and ad-hoc problems have no code).
+ */
+
+import { SESSION_STORE, withStore } from './localDatabase';
+
+export interface StoredProblemSession<T> {
+  key: string;
+  data: T;
+  /** Epoch milliseconds of the last save */
+  savedAt: number;
+}
+
+/** The parts of a problem that identify it when there is no problem code */
+export interface ProblemIdentity {
+  type: string;
+  equations?: string[];
+  expression?: string;
+}
+
+// FNV-1a: short, stable and good enough to tell problems apart
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Storage key for a problem: its code when known, otherwise a hash of the math
+ * that defines it, so editing a title or description keeps the saved work
+ */
+export function getProblemSessionKey(problem: ProblemIdentity, problemCode?: string): string {
+  if (problemCode) {
+    return `code:${problemCode}`;
+  }
+  const content = JSON.stringify([problem.type, problem.equations ?? [], problem.expression ?? '']);
+  return `hash:${hashString(content)}`;
+}
+
+/**
+ * The session saved under key, or null when there is none
+ */
+export async function loadProblemSession<T>(key: string): Promise<StoredProblemSession<T> | null> {
+  const stored = await withStore<StoredProblemSession<T> | undefined>(SESSION_STORE, 'readonly', store =>
+    store.get(key)
+  );
+  return stored ?? null;
+}
+
+export async function saveProblemSession<T>(key: string, data: T): Promise<void> {
+  const session: StoredProblemSession<T> = { key, data, savedAt: Date.now() };
+  await withStore(SESSION_STORE, 'readwrite', store => store.put(session));
+}
+
+export async function deleteProblemSession(key: string): Promise<void> {
+  await withStore(SESSION_STORE, 'readwrite', store => store.delete(key));
+}
@@ -0,0 +1,357 @@
+/**
+ * Bulk import and export of problems as JSON or CSV
+ *
+ * JSON is an array of ProblemPayload objects. CSV has one problem per row
+ * under a header naming the columns (any order, unknown columns ignored);
+ * list columns separate their entries with ";" and metadata holds JSON. A ";"
+ * right after a backslash is LaTeX spacing (\;), not a separator; lists that
+ * would not split back into the same entries are written as a JSON array.
+ */
+
+import { LatexParseError, parseLatex } from './latexParser';
+import { PROBLEM_DIFFICULTIES } from './problemFilters';
+import type { ProblemDifficulty, ProblemPayload, ProblemRecord, ProblemType } from './validationApi';
+
+export type ProblemFileFormat = 'json' | 'csv';
+
+export interface ImportRow {
+  /** 1-based position in the file: the array index for JSON, the line for CSV */
+  line: number;
+  /** Null when the row cannot be read at all */
+  payload: ProblemPayload | null;
+  errors: string[];
+}
+
+const PROBLEM_TYPES: ProblemType[] = ['substitution', 'simplify', 'factor', 'arithmetic'];
+
+const CSV_COLUMNS = [
+  'problem_code',
+  'type',
+  'title',
+  'description',
+  'equations',
+  'expression',
+  'difficulty',
+  'tags',
+  'skills',
+  'gradeLevel',
+  'metadata',
+];
+
+const LIST_SEPARATOR = ';';
+// Skips MathLive's \; thick space inside equations
+const LIST_SEPARATOR_PATTERN = /(?<!\\);/;
+
+const isEquationType = (type: ProblemType) => type === 'substitution';
+
+export interface CsvRecord {
+  /** 1-based line the record starts on; a quoted line break makes a record span several lines */
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Split CSV text into records of fields. Handles quoted fields with embedded
+ * commas, quotes ("") and line breaks, and both LF and CRLF line endings.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const rows: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+  }
+  return rows;
+}
+
+const escapeCsvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * The payload for re-creating a stored problem: server fields dropped and
+ * problemData folded into the top-level fields
+ */
+export function toProblemPayload(record: ProblemRecord): ProblemPayload {
+  const data = record.problemData || {};
+  return {
+    problem_code: record.problem_code,
+    type: record.type,
+    title: record.title ?? data.title,
+    description: record.description ?? data.description,
+    equations: data.equations ?? record.equations,
+    expression: data.expression ?? record.expression,
+    difficulty: record.difficulty,
+    tags: record.tags,
+    skills: record.skills,
+    gradeLevel: record.gradeLevel,
+    metadata: record.metadata ?? data.metadata,
+  };
+}
+
+const splitList = (value: string) =>
+  value
+    .split(LIST_SEPARATOR_PATTERN)
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+/**
+ * A list cell, checked to read back as the same entries; when it would not
+ * (e.g. an entry with a bare ";" or a trailing backslash) it is a JSON array
+ */
+const formatList = (entries: string[] = []) => {
+  const joined = entries.join(`${LIST_SEPARATOR} `);
+  const readBack = splitList(joined);
+  const roundTrips = readBack.length === entries.length && readBack.every((entry, index) => entry === entries[index]);
+  return roundTrips ? joined : JSON.stringify(entries);
+};
+
+export function problemsToJson(records: ProblemRecord[]): string {
+  return JSON.stringify(records.map(toProblemPayload), null, 2);
+}
+
+export function problemsToCsv(records: ProblemRecord[]): string {
+  const rows = records.map(record => {
+    const payload = toProblemPayload(record);
+    return [
+      payload.problem_code,
+      payload.type,
+      payload.title ?? '',
+      payload.description ?? '',
+      formatList(payload.equations),
+      payload.expression ?? '',
+      payload.difficulty ?? '',
+      formatList(payload.tags),
+      formatList(payload.skills),
+      payload.gradeLevel === undefined ? '' : String(payload.gradeLevel),
+      payload.metadata ? JSON.stringify(payload.metadata) : '',
+    ];
+  });
+  return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+const readTextList = (value: unknown, field: string, errors: string[]): string[] | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'string' && value.trim().startsWith('[')) {
+    try {
+      return readTextList(JSON.parse(value), field, errors);
+    } catch {
+      errors.push(`${field} is not a valid JSON list.`);
+      return undefined;
+    }
+  }
+  if (typeof value === 'string') return splitList(value);
+  if (Array.isArray(value) && value.every(entry => typeof entry === 'string')) {
+    const entries = value.map(entry => entry.trim()).filter(Boolean);
+    return entries.length > 0 ? entries : undefined;
+  }
+  errors.push(`${field} must be a list of text.`);
+  return undefined;
+};
+
+/**
+ * Build a payload from loosely typed input, collecting what is wrong with it
+ */
+const readPayload = (raw: Record<string, unknown>, errors: string[]): ProblemPayload | null => {
+  const rawCode = raw.problem_code ?? raw.problemCode ?? raw.code;
+  // JSON files may hold numeric codes such as 101
+  const problemCode =
+    typeof rawCode === 'number' && Number.isFinite(rawCode) ? String(rawCode) : optionalText(rawCode);
+  if (!problemCode) {
+    errors.push(
+      rawCode === undefined || rawCode === null || typeof rawCode === 'string'
+        ? 'problem_code is required.'
+        : 'problem_code must be text.'
+    );
+  }
+
+  const type = optionalText(raw.type)?.toLowerCase();
+  const knownType = PROBLEM_TYPES.find(candidate => candidate === type);
+  if (!knownType) {
+    errors.push(type ? `Unknown type "${type}".` : 'type is required.');
+  }
+
+  const difficulty = optionalText(raw.difficulty)?.toLowerCase();
+  if (difficulty && !PROBLEM_DIFFICULTIES.includes(difficulty as ProblemDifficulty)) {
+    errors.push(`Unknown difficulty "${difficulty}".`);
+  }
+
+  const rawGrade = raw.gradeLevel ?? raw.grade_level;
+  let gradeLevel: number | undefined;
+  if (rawGrade !== undefined && rawGrade !== null && rawGrade !== '') {
+    gradeLevel = Number(rawGrade);
+    if (!Number.isInteger(gradeLevel) || gradeLevel < 0) {
+      errors.push(`Grade level "${rawGrade}" is not a whole number.`);
+    }
+  }
+
+  let metadata: Record<string, unknown> | undefined;
+  let rawMetadata = raw.metadata;
+  if (typeof rawMetadata === 'string') {
+    try {
+      rawMetadata = rawMetadata.trim() ? JSON.parse(rawMetadata) : undefined;
+    } catch {
+      errors.push('metadata is not valid JSON.');
+      rawMetadata = undefined;
+    }
+  }
+  if (isPlainObject(rawMetadata)) {
+    metadata = rawMetadata;
+  } else if (rawMetadata !== undefined && rawMetadata !== null) {
+    errors.push('metadata must be a JSON object.');
+  }
+
+  const equations = readTextList(raw.equations, 'equations', errors);
+  const tags = readTextList(raw.tags, 'tags', errors);
+  const skills = readTextList(raw.skills, 'skills', errors);
+  const expression = optionalText(raw.expression);
+  if (knownType && isEquationType(knownType) && !equations?.length) {
+    errors.push('At least one equation is required.');
+  }
+  if (knownType && !isEquationType(knownType) && !expression) {
+    errors.push('An expression is required.');
+  }
+  [...(equations ?? []), ...(expression ? [expression] : [])].forEach(math => {
+    try {
+      parseLatex(math);
+    } catch (error) {
+      if (!(error instanceof LatexParseError)) throw error;
+      errors.push(`Cannot parse "${math}": ${error.message}.`);
+    }
+  });
+
+  if (!problemCode || !knownType) {
+    return null;
+  }
+  return {
+    problem_code: problemCode,
+    type: knownType,
+    title: optionalText(raw.title),
+    description: optionalText(raw.description),
+    equations: isEquationType(knownType) ? equations : undefined,
+    expression: isEquationType(knownType) ? undefined : expression,
+    difficulty: difficulty as ProblemDifficulty | undefined,
+    tags,
+    skills,
+    gradeLevel,
+    metadata,
+  };
+};
+
+const readJsonRows = (text: string): ImportRow[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('A JSON import must be an array of problems.');
+  }
+  return parsed.map((item, index) => {
+    const errors: string[] = [];
+    if (!isPlainObject(item)) {
+      return { line: index + 1, payload: null, errors: ['Each entry must be an object.'] };
+    }
+    const payload = readPayload(item, errors);
+    return { line: index + 1, payload, errors };
+  });
+};
+
+const readCsvRows = (text: string): ImportRow[] => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header?.cells ?? []).map(name => name.trim());
+  if (!columns.includes('problem_code') || !columns.includes('type')) {
+    throw new Error('The CSV header must include at least the problem_code and type columns.');
+  }
+  return rows.flatMap(({ line, cells }): ImportRow[] => {
+    if (cells.every(cell => cell.trim() === '')) return [];
+    const raw = Object.fromEntries(columns.map((name, column) => [name, cells[column] ?? '']));
+    const errors: string[] = [];
+    // Physical line numbers, counting the header, so they match what a text editor shows
+    return [{ line, payload: readPayload(raw, errors), errors }];
+  });
+};
+
+export const detectProblemFileFormat = (text: string, fileName = ''): ProblemFileFormat =>
+  /\.csv$/i.test(fileName) || (!/\.json$/i.test(fileName) && !/^\s*[[{]/.test(text)) ? 'csv' : 'json';
+
+/**
+ * Read every row of an import file and check it, including for problem codes
+ * repeated within the file or already taken by existingCodes. Throws when the
+ * file as a whole cannot be read.
+ */
+export function parseProblemImport(
+  text: string,
+  format: ProblemFileFormat,
+  existingCodes: Set<string> = new Set()
+): ImportRow[] {
+  const rows = format === 'json' ? readJsonRows(text) : readCsvRows(text);
+
+  const firstLine = new Map<string, number>();
+  rows.forEach(row => {
+    const code = row.payload?.problem_code;
+    if (!code) return;
+    const earlier = firstLine.get(code);
+    if (earlier !== undefined) {
+      row.errors.push(`Duplicate problem_code "${code}" (also on ${format === 'json' ? 'item' : 'line'} ${earlier}).`);
+    } else {
+      firstLine.set(code, row.line);
+      if (existingCodes.has(code)) {
+        row.errors.push(`A problem with the code "${code}" already exists.`);
+      }
+    }
+  });
+  return rows;
+}
+
+/**
+ * Offer text to the user as a file download
+ */
+export function downloadTextFile(fileName: string, text: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,503 @@
+/**
+ * Runtime schemas for API responses
+ *
+ * Each schema reads an untrusted JSON body and returns the canonical shape
+ * declared in validationApi.ts: known field aliases (snake_case, lineIndex,
+ * diagnostics.explanation, ...) are folded into one name, and anything else
+ * unexpected is reported as contract drift instead of leaking into the UI.
+ */
+
+import { reportContractDrift } from './contractDrift';
+import type {
+  AnswerValidationResponse,
+  BatchValidationLine,
+  BatchValidationOverall,
+  BatchValidationResponse,
+  CalculateResponse,
+  EquivalenceResponse,
+  HintResponse,
+  LineDiagnostics,
+  ParseResponse,
+  ProblemDifficulty,
+  ProblemListResponse,
+  ProblemRecord,
+  ProblemType,
+  ProblemValidationResponse,
+  StepValidationResponse,
+  SympyCheck,
+  ValidationLineStatus,
+  ValidationResponse,
+} from './validationApi';
+
+export interface SchemaContext {
+  endpoint: string;
+  report: (path: string, message: string) => void;
+}
+
+export type ResponseSchema<T> = (raw: unknown, context: SchemaContext) => T;
+
+type JsonObject = Record<string, unknown>;
+
+const PROBLEM_TYPES: ProblemType[] = ['substitution', 'simplify', 'factor', 'arithmetic'];
+const PROBLEM_DIFFICULTIES: ProblemDifficulty[] = ['easy', 'medium', 'hard'];
+const HINT_LEVELS: HintResponse['level'][] = ['gentle', 'moderate', 'strong'];
+
+// Every spelling of a line status the API has been seen to send
+const LINE_STATUS_ALIASES: Record<string, ValidationLineStatus> = {
+  valid: 'valid',
+  correct: 'valid',
+  ok: 'valid',
+  invalid: 'invalid',
+  incorrect: 'invalid',
+  error: 'invalid',
+  needs_review: 'needs_review',
+  'needs-review': 'needs_review',
+  needsreview: 'needs_review',
+  review: 'needs_review',
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : `a ${typeof value}`;
+
+const join = (path: string, name: string) => (path ? `${path}.${name}` : name);
+
+/** Value of the first name present; the canonical name comes first, aliases after */
+const pick = (source: JsonObject, names: string[]): unknown =>
+  names.map(name => source[name]).find(value => value !== undefined);
+
+const readObject = (value: unknown, path: string, context: SchemaContext): JsonObject => {
+  if (isObject(value)) return value;
+  context.report(path || '(body)', `expected an object, got ${describe(value)}`);
+  return {};
+};
+
+const readString = (
+  source: JsonObject,
+  names: string[],
+  path: string,
+  context: SchemaContext,
+  required = false
+): string | undefined => {
+  const value = pick(source, names);
+  const fieldPath = join(path, names[0]);
+  if (value === undefined || value === null) {
+    if (required) context.report(fieldPath, 'missing');
+    return undefined;
+  }
+  if (typeof value === 'string') return value;
+  context.report(fieldPath, `expected a string, got ${describe(value)}`);
+  return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+};
+
+const readNumber = (
+  source: JsonObject,
+  names: string[],
+  path: string,
+  context: SchemaContext,
+  required = false
+): number | undefined => {
+  const value = pick(source, names);
+  const fieldPath = join(path, names[0]);
+  if (value === undefined || value === null) {
+    if (required) context.report(fieldPath, 'missing');
+    return undefined;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  const parsed = typeof value === 'string' ? Number(value) : NaN;
+  context.report(fieldPath, `expected a number, got ${describe(value)}`);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const readBoolean = (
+  source: JsonObject,
+  names: string[],
+  path: string,
+  context: SchemaContext,
+  required = false
+): boolean | undefined => {
+  const value = pick(source, names);
+  const fieldPath = join(path, names[0]);
+  if (value === undefined || value === null) {
+    if (required) context.report(fieldPath, 'missing');
+    return undefined;
+  }
+  if (typeof value === 'boolean') return value;
+  context.report(fieldPath, `expected a boolean, got ${describe(value)}`);
+  return Boolean(value);
+};
+
+const readStringArray = (
+  source: JsonObject,
+  names: string[],
+  path: string,
+  context: SchemaContext
+): string[] | undefined => {
+  const value = pick(source, names);
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value)) return value.map(String);
+  context.report(join(path, names[0]), `expected a list, got ${describe(value)}`);
+  return undefined;
+};
+
+const readRecord = (
+  source: JsonObject,
+  names: string[],
+  path: string,
+  context: SchemaContext
+): JsonObject | undefined => {
+  const value = pick(source, names);
+  if (value === undefined || value === null) return undefined;
+  return readObject(value, join(path, names[0]), context);
+};
+
+const toStringRecord = (value: unknown, path: string, context: SchemaContext): Record<string, string> =>
+  Object.fromEntries(Object.entries(readObject(value, path, context)).map(([key, entry]) => [key, String(entry)]));
+
+const readStringRecord = (
+  source: JsonObject,
+  names: string[],
+  path: string,
+  context: SchemaContext
+): Record<string, string> | undefined => {
+  const value = pick(source, names);
+  return value === undefined || value === null ? undefined : toStringRecord(value, join(path, names[0]), context);
+};
+
+/**
+ * Run a schema and send its drift reports to the console and the dev overlay
+ */
+export function parseResponse<T>(schema: ResponseSchema<T>, raw: unknown, endpoint: string): T {
+  return schema(raw, {
+    endpoint,
+    report: (path, message) => reportContractDrift(endpoint, path, message),
+  });
+}
+
+export const validationResponseSchema: ResponseSchema<ValidationResponse> = (raw, context) => {
+  const body = readObject(raw, '', context);
+  return {
+    isValid: readBoolean(body, ['isValid', 'is_valid'], '', context, true) ?? false,
+    isCorrect: readBoolean(body, ['isCorrect', 'is_correct'], '', context, true) ?? false,
+    feedback: readString(body, ['feedback'], '', context),
+    hint: readString(body, ['hint'], '', context) ?? null,
+    errors: readStringArray(body, ['errors'], '', context),
+    warnings: readStringArray(body, ['warnings'], '', context),
+  };
+};
+
+export const stepValidationResponseSchema: ResponseSchema<StepValidationResponse> = (raw, context) => {
+  const body = readObject(raw, '', context);
+  return {
+    ...validationResponseSchema(body, context),
+    explanation: readString(body, ['explanation'], '', context),
+    alternativeSteps: readStringArray(body, ['alternativeSteps', 'alternative_steps'], '', context),
+  };
+};
+
+export const problemValidationResponseSchema: ResponseSchema<ProblemValidationResponse> = (raw, context) => {
+  const body = readObject(raw, '', context);
+  const line = readObject(pick(body, ['lineValidation', 'line_validation']), 'lineValidation', context);
+  const progress = readObject(pick(body, ['overallProgress', 'overall_progress']), 'overallProgress', context);
+  return {
+    lineValidation: {
+      lineIndex: readNumber(line, ['lineIndex', 'line_index', 'index'], 'lineValidation', context, true) ?? 0,
+      isValid: readBoolean(line, ['isValid', 'is_valid'], 'lineValidation', context, true) ?? false,
+      isCorrect: readBoolean(line, ['isCorrect', 'is_correct'], 'lineValidation', context, true) ?? false,
+      feedback: readString(line, ['feedback'], 'lineValidation', context),
+      nextExpectedStep: readString(line, ['nextExpectedStep', 'next_expected_step'], 'lineValidation', context),
+    },
+    overallProgress: {
+      stepsCompleted: readNumber(progress, ['stepsCompleted', 'steps_completed'], 'overallProgress', context) ?? 0,
+      totalSteps: readNumber(progress, ['totalSteps', 'total_steps'], 'overallProgress', context) ?? 0,
+      onTrack: readBoolean(progress, ['onTrack', 'on_track'], 'overallProgress', context) ?? false,
+    },
+    hints: readStringArray(body, ['hints'], '', context),
+  };
+};
+
+const readLineStatus = (line: JsonObject, path: string, context: SchemaContext): ValidationLineStatus => {
+  const status = readString(line, ['status'], path, context, true);
+  const canonical = status && LINE_STATUS_ALIASES[status.trim().toLowerCase()];
+  if (canonical) return canonical;
+  if (status !== undefined) {
+    context.report(join(path, 'status'), `unknown status "${status}", treated as needs_review`);
+  }
+  return 'needs_review';
+};
+
+const readDiagnostics = (line: JsonObject, path: string, context: SchemaContext): LineDiagnostics | undefined => {
+  const raw = readRecord(line, ['diagnostics'], path, context);
+  if (!raw) return undefined;
+  const diagnosticsPath = join(path, 'diagnostics');
+  return {
+    ...raw,
+    errorExplanation: readString(raw, ['errorExplanation', 'error_explanation', 'explanation'], diagnosticsPath, context),
+    alternative: readString(raw, ['alternative', 'alternativeExplanation', 'alternative_explanation'], diagnosticsPath, context),
+  };
+};
+
+const readLine = (
+  raw: unknown,
+  position: number,
+  studentWork: string[],
+  context: SchemaContext
+): BatchValidationLine => {
+  const path = `lines[${position}]`;
+  const line = readObject(raw, path, context);
+
+  let index = readNumber(line, ['index', 'lineIndex', 'line_index'], path, context) ?? position;
+  if (!Number.isInteger(index) || index < 0) {
+    context.report(join(path, 'index'), `invalid index ${index}, using position ${position}`);
+    index = position;
+  }
+
+  const sympy = readRecord(line, ['sympy'], path, context);
+  const llm = readRecord(line, ['llm'], path, context);
+  const sympyPath = join(path, 'sympy');
+  const llmPath = join(path, 'llm');
+
+  return {
+    index,
+    original: readString(line, ['original'], path, context, true) ?? studentWork[index] ?? '',
+    plainMath: readString(line, ['plainMath', 'plain_math'], path, context),
+    operation: readString(line, ['operation'], path, context),
+    status: readLineStatus(line, path, context),
+    feedback: readString(line, ['feedback'], path, context),
+    errorCode: readString(line, ['errorCode', 'error_code'], path, context),
+    diagnostics: readDiagnostics(line, path, context),
+    telemetry: readRecord(line, ['telemetry'], path, context),
+    confidence: readNumber(line, ['confidence'], path, context),
+    sympy: sympy && {
+      simplified: readString(sympy, ['simplified'], sympyPath, context),
+      normalized: readString(sympy, ['normalized'], sympyPath, context),
+      symbolsTouched: readStringArray(sympy, ['symbolsTouched', 'symbols_touched'], sympyPath, context),
+    },
+    llm: llm && {
+      summary: readString(llm, ['summary'], llmPath, context),
+      nextStepHint: readString(llm, ['nextStepHint', 'next_step_hint'], llmPath, context),
+    },
+  };
+};
+
+const readSympyCheck = (overall: JsonObject, context: SchemaContext): SympyCheck | undefined => {
+  const check = readRecord(overall, ['sympyCheck', 'sympy_check'], 'overall', context);
+  if (!check) return undefined;
+  const path = 'overall.sympyCheck';
+  const expected = pick(check, ['expectedSolution', 'expected_solution']);
+  // A single solution may arrive unwrapped
+  const solutions = expected === undefined || expected === null ? undefined : Array.isArray(expected) ? expected : [expected];
+  return {
+    isSolved: readBoolean(check, ['isSolved', 'is_solved'], path, context),
+    studentAssignments: readStringRecord(check, ['studentAssignments', 'student_assignments'], path, context),
+    expectedSolution: solutions?.map((solution, i) => toStringRecord(solution, `${path}.expectedSolution[${i}]`, context)),
+    discrepancies: readStringArray(check, ['discrepancies'], path, context),
+  };
+};
+
+const readOverall = (body: JsonObject, context: SchemaContext): BatchValidationOverall | undefined => {
+  const overall = readRecord(body, ['overall'], '', context);
+  if (!overall) return undefined;
+
+  const rawFinalAnswer = pick(overall, ['finalAnswer', 'final_answer']);
+  const finalAnswer =
+    rawFinalAnswer === null || rawFinalAnswer === undefined
+      ? rawFinalAnswer
+      : readObject(rawFinalAnswer, 'overall.finalAnswer', context);
+
+  return {
+    validSteps: readNumber(overall, ['validSteps', 'valid_steps'], 'overall', context),
+    invalidSteps: readNumber(overall, ['invalidSteps', 'invalid_steps'], 'overall', context),
+    readyForAnswerCheck: readBoolean(overall, ['readyForAnswerCheck', 'ready_for_answer_check'], 'overall', context),
+    finished: readBoolean(overall, ['finished'], 'overall', context),
+    finalAnswer: finalAnswer && {
+      isCorrect: readBoolean(finalAnswer, ['isCorrect', 'is_correct'], 'overall.finalAnswer', context),
+      feedback: readString(finalAnswer, ['feedback'], 'overall.finalAnswer', context),
+      student: readStringRecord(finalAnswer, ['student'], 'overall.finalAnswer', context),
+      expected: readStringRecord(finalAnswer, ['expected'], 'overall.finalAnswer', context),
+    },
+    recommendedNextAction:
+      readString(overall, ['recommendedNextAction', 'recommended_next_action'], 'overall', context) ?? null,
+    sympyCheck: readSympyCheck(overall, context),
+  };
+};
+
+/**
+ * Batch responses get one line per submitted line, sorted by index. Lines the
+ * API skipped come back as needs_review placeholders; extra lines are dropped.
+ */
+export const batchValidationResponseSchema =
+  (studentWork: string[]): ResponseSchema<BatchValidationResponse> =>
+  (raw, context) => {
+    const body = readObject(raw, '', context);
+    const rawLines = pick(body, ['lines']);
+    if (!Array.isArray(rawLines)) {
+      context.report('lines', rawLines === undefined ? 'missing' : `expected a list, got ${describe(rawLines)}`);
+    }
+
+    const byIndex = new Map<number, BatchValidationLine>();
+    (Array.isArray(rawLines) ? rawLines : []).forEach((rawLine, position) => {
+      const line = readLine(rawLine, position, studentWork, context);
+      if (line.index >= studentWork.length) {
+        context.report(`lines[${position}]`, `index ${line.index} is past the ${studentWork.length} submitted lines`);
+      } else if (byIndex.has(line.index)) {
+        context.report(`lines[${position}]`, `duplicate verdict for line ${line.index}`);
+      } else {
+        byIndex.set(line.index, line);
+      }
+    });
+
+    const lines = studentWork.map((original, index) => {
+      const line = byIndex.get(index);
+      if (line) return line;
+      context.report(`lines[${index}]`, 'missing verdict for a submitted line');
+      return {
+        index,
+        original,
+        status: 'needs_review' as const,
+        feedback: 'The validator did not return a result for this line.',
+      };
+    });
+
+    return {
+      lines,
+      overall: readOverall(body, context),
+      telemetry: readRecord(body, ['telemetry'], '', context),
+      chat_response: readString(body, ['chat_response', 'chatResponse'], '', context),
+    };
+  };
+
+export const equivalenceResponseSchema: ResponseSchema<EquivalenceResponse> = (raw, context) => {
+  const body = readObject(raw, '', context);
+  return {
+    areEquivalent: readBoolean(body, ['areEquivalent', 'are_equivalent', 'equivalent'], '', context, true) ?? false,
+    simplified1: readString(body, ['simplified1'], '', context),
+    simplified2: readString(body, ['simplified2'], '', context),
+    proof: readString(body, ['proof'], '', context),
+  };
+};
+
+export const parseResponseSchema: ResponseSchema<ParseResponse> = (raw, context) => {
+  const body = readObject(raw, '', context);
+  return {
+    parsed: readString(body, ['parsed'], '', context, true) ?? '',
+    normalized: readString(body, ['normalized'], '', context),
+    latex: readString(body, ['latex'], '', context),
+    isValid: readBoolean(body, ['isValid', 'is_valid'], '', context, true) ?? false,
+  };
+};
+
+export const hintResponseSchema: ResponseSchema<HintResponse> = (raw, context) => {
+  const body = readObject(raw, '', context);
+  const level = readString(body, ['level'], '', context, true);
+  const knownLevel = HINT_LEVELS.find(candidate => candidate === level);
+  if (level !== undefined && !knownLevel) {
+    context.report('level', `unknown hint level "${level}", treated as gentle`);
+  }
+  return {
+    hint: readString(body, ['hint'], '', context, true) ?? '',
+    level: knownLevel ?? 'gentle',
+    nextStep: readString(body, ['nextStep', 'next_step'], '', context),
+  };
+};
+
+export const answerValidationResponseSchema: ResponseSchema<AnswerValidationResponse> = (raw, context) => {
+  const body = readObject(raw, '', context);
+  return {
+    isCorrect: readBoolean(body, ['isCorrect', 'is_correct'], '', context, true) ?? false,
+    expectedAnswer: readStringRecord(body, ['expectedAnswer', 'expected_answer'], '', context),
+    feedback: readString(body, ['feedback'], '', context),
+    verification: readString(body, ['verification'], '', context),
+  };
+};
+
+export const calculateResponseSchema: ResponseSchema<CalculateResponse> = (raw, context) => {
+  const body = readObject(raw, '', context);
+  return {
+    success: readBoolean(body, ['success'], '', context, true) ?? false,
+    result: readString(body, ['result'], '', context) ?? '',
+    latex_result: readString(body, ['latex_result', 'latexResult'], '', context),
+    calculation_type: readString(body, ['calculation_type', 'calculationType'], '', context) ?? '',
+    original_expression: readString(body, ['original_expression', 'originalExpression'], '', context) ?? '',
+    error_message: readString(body, ['error_message', 'errorMessage'], '', context) ?? null,
+    metadata: readRecord(body, ['metadata'], '', context),
+  };
+};
+
+const readProblemRecord = (raw: unknown, path: string, context: SchemaContext): ProblemRecord => {
+  const problem = readObject(raw, path, context);
+  const type = readString(problem, ['type'], path, context, true);
+  const knownType = PROBLEM_TYPES.find(candidate => candidate === type);
+  if (type !== undefined && !knownType) {
+    context.report(join(path, 'type'), `unknown problem type "${type}"`);
+  }
+
+  const difficulty = readString(problem, ['difficulty'], path, context);
+  const knownDifficulty = PROBLEM_DIFFICULTIES.find(candidate => candidate === difficulty?.toLowerCase());
+  if (difficulty !== undefined && !knownDifficulty) {
+    context.report(join(path, 'difficulty'), `unknown difficulty "${difficulty}"`);
+  }
+
+  const data = readRecord(problem, ['problemData', 'problem_data'], path, context);
+  const dataPath = join(path, 'problemData');
+
+  return {
+    problem_code: readString(problem, ['problem_code', 'problemCode', 'code'], path, context, true) ?? '',
+    // Keep unknown types as sent so they can still be listed and edited
+    type: knownType ?? ((type ?? 'substitution') as ProblemType),
+    title: readString(problem, ['title'], path, context),
+    description: readString(problem, ['description'], path, context),
+    equations: readStringArray(problem, ['equations'], path, context),
+    expression: readString(problem, ['expression'], path, context),
+    difficulty: knownDifficulty,
+    tags: readStringArray(problem, ['tags'], path, context),
+    skills: readStringArray(problem, ['skills'], path, context),
+    gradeLevel: readNumber(problem, ['gradeLevel', 'grade_level'], path, context),
+    metadata: readRecord(problem, ['metadata'], path, context),
+    problemData: data && {
+      title: readString(data, ['title'], dataPath, context),
+      description: readString(data, ['description'], dataPath, context),
+      equations: readStringArray(data, ['equations'], dataPath, context),
+      expression: readString(data, ['expression'], dataPath, context),
+      metadata: readRecord(data, ['metadata'], dataPath, context),
+    },
+    created_at: readString(problem, ['created_at', 'createdAt'], path, context),
+    updated_at: readString(problem, ['updated_at', 'updatedAt'], path, context),
+  };
+};
+
+export const problemRecordSchema: ResponseSchema<ProblemRecord> = (raw, context) =>
+  readProblemRecord(raw, '', context);
+
+export const problemListResponseSchema: ResponseSchema<ProblemListResponse> = (raw, context) => {
+  const body = readObject(raw, '', context);
+  const rawItems = pick(body, ['items']);
+  if (!Array.isArray(rawItems)) {
+    context.report('items', rawItems === undefined ? 'missing' : `expected a list, got ${describe(rawItems)}`);
+  }
+  const items = (Array.isArray(rawItems) ? rawItems : []).map((item, i) =>
+    readProblemRecord(item, `items[${i}]`, context)
+  );
+
+  const page = readNumber(body, ['page'], '', context) ?? 1;
+  const pageSize = readNumber(body, ['page_size', 'pageSize'], '', context) ?? Math.max(items.length, 1);
+  const totalCount = readNumber(body, ['total_count', 'totalCount', 'total'], '', context) ?? items.length;
+  const totalPages =
+    readNumber(body, ['total_pages', 'totalPages'], '', context) ?? Math.max(1, Math.ceil(totalCount / pageSize));
+
+  return {
+    items,
+    total_count: totalCount,
+    page,
+    page_size: pageSize,
+    total_pages: totalPages,
+    has_next: readBoolean(body, ['has_next', 'hasNext'], '', context) ?? page < totalPages,
+    has_previous: readBoolean(body, ['has_previous', 'hasPrevious'], '', context) ?? page > 1,
+  };
+};
+
+export const deleteResponseSchema: ResponseSchema<{ success: boolean }> = (raw, context) => ({
+  success: readBoolean(readObject(raw, '', context), ['success'], '', context) ?? true,
+});
@@ -0,0 +1,103 @@
+/**
+ * Autosave and restore of a problem page's state
+ *
+ * Loads the session saved for a problem key when the page opens, hands it to
+ * onRestore, then saves the page's data to IndexedDB shortly after every
+ * change (and when the page is left). Nothing is written before the saved
+ * session was read, so opening a page never overwrites earlier work.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { deleteProblemSession, loadProblemSession, saveProblemSession } from './problemSessionStore';
+
+// Typing pauses longer than this write the session
+const SAVE_DELAY_MS = 500;
+
+export interface UseProblemSessionOptions<T> {
+  /** Storage key, see getProblemSessionKey() */
+  key: string;
+  /** Everything to persist; must be structured-cloneable */
+  data: T;
+  /** False while the page holds nothing worth keeping, e.g. before the first edit (default: true) */
+  shouldSave?: boolean;
+  onRestore: (data: T) => void;
+}
+
+interface LoadedSession {
+  key: string;
+  /** False when IndexedDB could not be opened; the page then works without autosave */
+  isAvailable: boolean;
+  /** When the restored session was last saved, null when there was none */
+  restoredAt: Date | null;
+}
+
+export function useProblemSession<T>({ key, data, shouldSave = true, onRestore }: UseProblemSessionOptions<T>) {
+  const [loaded, setLoaded] = useState<LoadedSession | null>(null);
+  const onRestoreRef = useRef(onRestore);
+  // Save waiting for the typing pause, flushed early when the page goes away
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  const isLoaded = loaded?.key === key;
+  const isAvailable = isLoaded && loaded.isAvailable;
+
+  useEffect(() => {
+    onRestoreRef.current = onRestore;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadProblemSession<T>(key)
+      .then(stored => {
+        if (cancelled) return;
+        if (stored) {
+          onRestoreRef.current(stored.data);
+        }
+        setLoaded({ key, isAvailable: true, restoredAt: stored ? new Date(stored.savedAt) : null });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.warn('Could not restore the saved session:', error);
+        setLoaded({ key, isAvailable: false, restoredAt: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  useEffect(() => {
+    if (!isAvailable || !shouldSave) return;
+    const save = () => {
+      pendingSaveRef.current = null;
+      saveProblemSession(key, data).catch(error => console.warn('Could not save the session:', error));
+    };
+    pendingSaveRef.current = save;
+    const timer = setTimeout(save, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [key, data, shouldSave, isAvailable]);
+
+  useEffect(() => {
+    const flush = () => pendingSaveRef.current?.();
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, []);
+
+  /** Forget the saved session; the page resets its own state */
+  const clear = useCallback(async () => {
+    pendingSaveRef.current = null;
+    setLoaded(current => (current?.key === key ? { ...current, restoredAt: null } : current));
+    try {
+      await deleteProblemSession(key);
+    } catch (error) {
+      console.warn('Could not clear the saved session:', error);
+    }
+  }, [key]);
+
+  return {
+    isRestoring: !isLoaded,
+    isAvailable,
+    restoredAt: isLoaded ? loaded.restoredAt : null,
+    clear,
+  };
+}
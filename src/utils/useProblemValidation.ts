@@ -0,0 +1,453 @@
+/**
+ * Validation state machine shared by the problem pages
+ *
+ * Owns the student's work and step annotations, batch validation (with cancellation of stale runs),
+ * per-line feedback, progress, the solution check, the final-answer verdict,
+ * hints and completion detection. Pages only render the state and decide what
+ * to do with an outcome (chat messages, navigation, ...).
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  isAbortError,
+  type BatchValidationLine,
+  type BatchValidationOptions,
+  type BatchValidationOverall,
+  type BatchValidationResponse,
+  type HintResponse,
+  type LineDiagnostics,
+  type SympyCheck,
+  type ValidationLineStatus,
+} from './validationApi';
+import { useValidationBackend } from './validationBackend';
+import { extractStudentAnswer, getProblemVariables } from './answerExtraction';
+import type { AnnotatedLine } from './lineOperations';
+
+export interface LineFeedback {
+  isValid: boolean;
+  isCorrect: boolean;
+  feedback?: string;
+  nextExpectedStep?: string;
+  status?: ValidationLineStatus;
+  operation?: string;
+  errorCode?: string;
+  errorExplanation?: string;
+  alternativeExplanation?: string;
+  diagnostics?: LineDiagnostics;
+  hint?: string | null;
+  confidence?: number | null;
+  sympySimplified?: string;
+  sympyNormalized?: string;
+}
+
+export interface ValidationProgress {
+  stepsCompleted: number;
+  totalSteps: number;
+  onTrack: boolean;
+}
+
+export interface SolutionCheck {
+  isSolved: boolean;
+  discrepancies: string[];
+  recommendedAction: string | null;
+}
+
+export interface AnswerCheck {
+  isCorrect: boolean | null;
+  feedback: string | null;
+}
+
+export interface ValidationProblem {
+  type: string;
+  equations?: string[];
+  expression?: string;
+}
+
+export interface ProblemValidationOutcome {
+  result: BatchValidationResponse;
+  /** The work that was validated, blank lines included */
+  work: string[];
+  notes: string[];
+  /** Keyed by line index in the work, blank lines included */
+  lineFeedback: Map<number, LineFeedback>;
+  progress: ValidationProgress | null;
+  solutionCheck: SolutionCheck | null;
+  answer: AnswerCheck;
+  /** overall.finished, or the fallback answer check passed */
+  isSolved: boolean;
+}
+
+/** The work and its latest verdicts, e.g. to save a session and restore it later */
+export interface ValidationSnapshot {
+  work: string[];
+  notes: string[];
+  lineFeedback: Map<number, LineFeedback>;
+  overallProgress: ValidationProgress | null;
+  solutionCheck: SolutionCheck | null;
+  answerFeedback: string | null;
+  isAnswerCorrect: boolean | null;
+  isSolved: boolean;
+}
+
+const EMPTY_SNAPSHOT: ValidationSnapshot = {
+  work: [''],
+  notes: [],
+  lineFeedback: new Map(),
+  overallProgress: null,
+  solutionCheck: null,
+  answerFeedback: null,
+  isAnswerCorrect: null,
+  isSolved: false,
+};
+
+export interface UseProblemValidationOptions {
+  problem: ValidationProblem;
+  /** Rewrite each non-empty line before it is sent, e.g. to normalize LaTeX */
+  prepareLine?: (line: string) => string;
+  batchOptions?: BatchValidationOptions;
+  /** Which overall verdict drives the answer banner when both are present (default: sympyCheck) */
+  answerPriority?: 'sympyCheck' | 'finalAnswer';
+  /**
+   * Build a studentAnswer from the work, checked with validateAnswer when the
+   * batch response has no finalAnswer. Return null when there is no answer yet.
+   * Defaults to the trailing `var = value` assignments for the problem's variables.
+   */
+  extractAnswer?: (lines: string[]) => Record<string, string> | null;
+  /** Called after every completed (not cancelled) validation run */
+  onValidated?: (outcome: ProblemValidationOutcome) => void;
+  /** Called after onValidated when the run shows the problem is solved */
+  onSolved?: (outcome: ProblemValidationOutcome) => void;
+  /** Called when the batch request fails */
+  onError?: (error: unknown) => void;
+}
+
+const DEFAULT_BATCH_OPTIONS: BatchValidationOptions = {
+  includeTelemetry: true,
+  requestHints: false,
+  llmAnalysis: 'summary',
+};
+
+const HINT_ERROR = 'Unable to generate hint at this time. Please try again.';
+
+export const toLineFeedback = (line: BatchValidationLine): LineFeedback => ({
+  isValid: line.status !== 'invalid',
+  isCorrect: line.status === 'valid',
+  feedback: line.feedback || line.llm?.summary,
+  nextExpectedStep: line.llm?.nextStepHint,
+  status: line.status,
+  operation: line.operation,
+  errorCode: line.errorCode,
+  errorExplanation: line.diagnostics?.errorExplanation,
+  alternativeExplanation: line.diagnostics?.alternative || line.llm?.summary,
+  diagnostics: line.diagnostics,
+  hint: line.llm?.nextStepHint || null,
+  confidence: line.confidence ?? null,
+  sympySimplified: line.sympy?.simplified,
+  sympyNormalized: line.sympy?.normalized,
+});
+
+/**
+ * Feedback per line, with sympyCheck discrepancies appended to the flagged
+ * lines whose LLM summary mentions them. workIndices maps each submitted
+ * line back to its position in the work.
+ */
+const buildLineFeedback = (lines: BatchValidationLine[], workIndices: number[], sympyCheck?: SympyCheck) => {
+  const feedbackEntries = new Map<number, LineFeedback>();
+  lines.forEach(line => feedbackEntries.set(line.index, toLineFeedback(line)));
+
+  const discrepancies = sympyCheck?.discrepancies;
+  if (sympyCheck && !sympyCheck.isSolved && discrepancies && discrepancies.length > 0) {
+    lines.forEach(line => {
+      const existingFeedback = feedbackEntries.get(line.index);
+      const llmSummary = line.llm?.summary;
+      if (
+        !existingFeedback ||
+        (line.status !== 'needs_review' && line.status !== 'invalid') ||
+        !llmSummary ||
+        !discrepancies.some(d => llmSummary.toLowerCase().includes(d.toLowerCase().substring(0, 20)))
+      ) {
+        return;
+      }
+      feedbackEntries.set(line.index, {
+        ...existingFeedback,
+        feedback: existingFeedback.feedback
+          ? `${existingFeedback.feedback} (${discrepancies.join('; ')})`
+          : discrepancies.join('; '),
+        errorCode: existingFeedback.errorCode || line.errorCode,
+        errorExplanation: existingFeedback.errorExplanation || line.diagnostics?.errorExplanation,
+        alternativeExplanation:
+          existingFeedback.alternativeExplanation || line.diagnostics?.alternative || llmSummary,
+      });
+    });
+  }
+
+  return new Map(
+    Array.from(feedbackEntries.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([index, feedback]): [number, LineFeedback] => [workIndices[index] ?? index, feedback])
+  );
+};
+
+const answerFromSympyCheck = (sympyCheck: SympyCheck): AnswerCheck => {
+  if (sympyCheck.isSolved) {
+    return { isCorrect: true, feedback: 'Perfect! Your solution is correct and complete.' };
+  }
+  if (sympyCheck.discrepancies && sympyCheck.discrepancies.length > 0) {
+    return { isCorrect: false, feedback: `Solution incomplete: ${sympyCheck.discrepancies.join('. ')}` };
+  }
+  return { isCorrect: null, feedback: null };
+};
+
+const summarizeAnswer = (
+  overall: BatchValidationOverall | undefined,
+  priority: 'sympyCheck' | 'finalAnswer'
+): AnswerCheck => {
+  const fromFinalAnswer = overall?.finalAnswer
+    ? { isCorrect: overall.finalAnswer.isCorrect ?? null, feedback: overall.finalAnswer.feedback ?? null }
+    : null;
+  const fromSympyCheck = overall?.sympyCheck ? answerFromSympyCheck(overall.sympyCheck) : null;
+  const answer =
+    priority === 'finalAnswer' ? fromFinalAnswer ?? fromSympyCheck : fromSympyCheck ?? fromFinalAnswer;
+  return answer ?? { isCorrect: null, feedback: null };
+};
+
+export function useProblemValidation(options: UseProblemValidationOptions) {
+  const { validateProblemBatch, validateAnswer, getHint } = useValidationBackend();
+  const { problem, prepareLine } = options;
+  const extractAnswer =
+    options.extractAnswer ?? ((lines: string[]) => extractStudentAnswer(lines, getProblemVariables(problem)));
+
+  const [work, setWork] = useState<string[]>(['']);
+  const [notes, setNotes] = useState<string[]>([]);
+  const [lineFeedback, setLineFeedback] = useState<Map<number, LineFeedback>>(new Map());
+  const [overallProgress, setOverallProgress] = useState<ValidationProgress | null>(null);
+  const [solutionCheck, setSolutionCheck] = useState<SolutionCheck | null>(null);
+  const [answerFeedback, setAnswerFeedback] = useState<string | null>(null);
+  const [isAnswerCorrect, setIsAnswerCorrect] = useState<boolean | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isSolved, setIsSolved] = useState(false);
+  const [hint, setHint] = useState<string | null>(null);
+  const [hintLevel, setHintLevel] = useState<HintResponse['level'] | null>(null);
+  // In-flight batch validation; a new run aborts it so stale results never land
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const preparedLines = work
+    .filter(line => line.trim().length > 0)
+    .map(line => (prepareLine ? prepareLine(line) : line));
+
+  const problemData: Record<string, string | string[]> = {};
+  if (problem.equations) {
+    problemData.equations = problem.equations;
+  }
+  if (problem.expression) {
+    problemData.expression = problem.expression;
+  }
+
+  const clearResults = () => {
+    setLineFeedback(new Map());
+    setOverallProgress(null);
+    setSolutionCheck(null);
+    setAnswerFeedback(null);
+    setIsAnswerCorrect(null);
+    setIsSolved(false);
+  };
+
+  const clearHint = () => {
+    setHint(null);
+    setHintLevel(null);
+  };
+
+  /** Takes the editor's onChange arguments; lines carries the step annotations when given */
+  const updateWork = (newWork: string[], lines?: AnnotatedLine[]) => {
+    setWork(newWork);
+    if (lines) {
+      setNotes(lines.map(line => line.note));
+    }
+    clearHint();
+    clearResults();
+  };
+
+  const snapshot = useMemo<ValidationSnapshot>(
+    () => ({ work, notes, lineFeedback, overallProgress, solutionCheck, answerFeedback, isAnswerCorrect, isSolved }),
+    [work, notes, lineFeedback, overallProgress, solutionCheck, answerFeedback, isAnswerCorrect, isSolved]
+  );
+
+  /** Replace the work and verdicts, cancelling any validation in flight */
+  const restore = (saved: ValidationSnapshot) => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsValidating(false);
+    setWork(saved.work.length > 0 ? saved.work : EMPTY_SNAPSHOT.work);
+    setNotes(saved.notes);
+    setLineFeedback(saved.lineFeedback);
+    setOverallProgress(saved.overallProgress);
+    setSolutionCheck(saved.solutionCheck);
+    setAnswerFeedback(saved.answerFeedback);
+    setIsAnswerCorrect(saved.isAnswerCorrect);
+    setIsSolved(saved.isSolved);
+    clearHint();
+  };
+
+  /** Start over with an empty editor */
+  const reset = () => restore(EMPTY_SNAPSHOT);
+
+  /**
+   * Validate every non-empty line. Resolves to null when there is no work,
+   * the run was superseded by a newer one, or the request failed.
+   */
+  const validateAll = async (): Promise<ProblemValidationOutcome | null> => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+
+    const lines = preparedLines;
+    const workIndices = work.flatMap((line, index) => (line.trim().length > 0 ? [index] : []));
+    const operations = workIndices.map(index => notes[index]?.trim() ?? '');
+    if (lines.length === 0) {
+      clearResults();
+      setIsValidating(false);
+      return null;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsValidating(true);
+    setAnswerFeedback(null);
+    setIsAnswerCorrect(null);
+
+    try {
+      const result = await validateProblemBatch(
+        problem.type,
+        problemData,
+        lines,
+        { ...DEFAULT_BATCH_OPTIONS, ...options.batchOptions, operations },
+        { signal: controller.signal }
+      );
+      // The signal only covers the request itself; a newer run may have started while the response was read
+      if (controller.signal.aborted) {
+        return null;
+      }
+
+      const { overall } = result;
+      const responseLines = result.lines ?? [];
+      const progress: ValidationProgress | null = overall
+        ? {
+            stepsCompleted: overall.validSteps ?? responseLines.filter(line => line.status === 'valid').length,
+            totalSteps: responseLines.length || lines.length,
+            onTrack: (overall.invalidSteps ?? 0) === 0,
+          }
+        : null;
+      const currentSolutionCheck: SolutionCheck | null = overall?.sympyCheck
+        ? {
+            isSolved: overall.sympyCheck.isSolved ?? false,
+            discrepancies: overall.sympyCheck.discrepancies ?? [],
+            recommendedAction: overall.recommendedNextAction ?? null,
+          }
+        : null;
+
+      let answer = summarizeAnswer(overall, options.answerPriority ?? 'sympyCheck');
+      let answerCheckPassed = false;
+
+      // Without a finalAnswer verdict, check whatever answer the work ends with
+      const studentAnswer = overall?.finalAnswer ? null : extractAnswer(lines);
+      if (studentAnswer) {
+        try {
+          const answerResult = await validateAnswer(problem.type, problemData, studentAnswer, undefined, {
+            signal: controller.signal,
+          });
+          answer = { isCorrect: answerResult.isCorrect, feedback: answerResult.feedback || null };
+          answerCheckPassed = answerResult.isCorrect;
+        } catch (error) {
+          if (isAbortError(error)) {
+            return null;
+          }
+          console.error('Answer validation error:', error);
+        }
+      }
+
+      const outcome: ProblemValidationOutcome = {
+        result,
+        work,
+        notes,
+        lineFeedback: buildLineFeedback(responseLines, workIndices, overall?.sympyCheck),
+        progress,
+        solutionCheck: currentSolutionCheck,
+        answer,
+        isSolved: overall?.finished === true || answerCheckPassed,
+      };
+
+      setLineFeedback(outcome.lineFeedback);
+      setOverallProgress(progress);
+      setSolutionCheck(currentSolutionCheck);
+      setAnswerFeedback(answer.feedback);
+      setIsAnswerCorrect(answer.isCorrect);
+      setIsSolved(outcome.isSolved);
+
+      options.onValidated?.(outcome);
+      if (outcome.isSolved) {
+        options.onSolved?.(outcome);
+      }
+      return outcome;
+    } catch (error) {
+      if (isAbortError(error)) {
+        return null;
+      }
+      console.error('Validation error:', error);
+      setLineFeedback(new Map());
+      setOverallProgress(null);
+      setSolutionCheck(null);
+      options.onError?.(error);
+      return null;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsValidating(false);
+      }
+    }
+  };
+
+  /**
+   * Ask for a hint on the last line. Resolves to null when there is no work or
+   * the request failed (hint then holds an error message).
+   */
+  const requestHint = async (): Promise<HintResponse | null> => {
+    const lines = preparedLines;
+    if (lines.length === 0) {
+      return null;
+    }
+
+    try {
+      const hintResult = await getHint(problem.type, lines[lines.length - 1], lines.slice(0, -1));
+      setHint(hintResult.hint);
+      setHintLevel(hintResult.level);
+      return hintResult;
+    } catch (error) {
+      console.error('Error getting hint:', error);
+      setHint(HINT_ERROR);
+      return null;
+    }
+  };
+
+  return {
+    work,
+    notes,
+    updateWork,
+    hasWork: preparedLines.length > 0,
+    lineFeedback,
+    overallProgress,
+    solutionCheck,
+    answerFeedback,
+    isAnswerCorrect,
+    isValidating,
+    isSolved,
+    hint,
+    hintLevel,
+    validateAll,
+    requestHint,
+    clearHint,
+    snapshot,
+    restore,
+    reset,
+  };
+}
@@ -5,14 +5,144 @@
  * API is running on port 8000
  */
 
+import { ApiError, createApiError, toRequestError } from './apiErrors';
+import { checkEquivalenceLocally } from './localEquivalence';
+import { validateProblemBatchLocally } from './localStepValidator';
+import {
+  answerValidationResponseSchema,
+  batchValidationResponseSchema,
+  calculateResponseSchema,
+  deleteResponseSchema,
+  equivalenceResponseSchema,
+  hintResponseSchema,
+  parseResponse,
+  parseResponseSchema,
+  problemListResponseSchema,
+  problemRecordSchema,
+  problemValidationResponseSchema,
+  stepValidationResponseSchema,
+  validationResponseSchema,
+  type ResponseSchema,
+} from './responseSchemas';
+
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000';
 
+// After a network failure, skip the API for a while instead of waiting on every call
+const UNREACHABLE_RETRY_MS = 30_000;
+let apiUnreachableUntil = 0;
+
+const isApiReachable = () => Date.now() >= apiUnreachableUntil;
+
+const markApiUnreachable = () => {
+  apiUnreachableUntil = Date.now() + UNREACHABLE_RETRY_MS;
+};
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+// Batch validation may run an LLM pass over every line
+const BATCH_TIMEOUT_MS = 60_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Per-call request controls, accepted as the last argument of every API function
+ */
+export interface RequestOptions {
+  /** Cancels the request; the call then rejects with the signal's reason (an AbortError by default) */
+  signal?: AbortSignal;
+  /** Reject with a TimeoutError after this many milliseconds (default: 15s, 60s for batch validation) */
+  timeoutMs?: number;
+  /** Extra attempts after a network error, timeout or 5xx; only idempotent calls retry (default: 2) */
+  retries?: number;
+}
+
+interface RequestPolicy {
+  idempotent?: boolean;
+  timeoutMs?: number;
+}
+
+/**
+ * True when a call rejected because its AbortSignal fired, not because the request failed
+ */
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const abortReason = (signal: AbortSignal) =>
+  signal.reason ?? new DOMException('The request was aborted', 'AbortError');
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const fetchWithTimeout = async (url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(abortReason(signal!));
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(
+    () => controller.abort(new DOMException(`Request timed out after ${timeoutMs} ms`, 'TimeoutError')),
+    timeoutMs
+  );
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * fetch with cancellation, a timeout and, for idempotent calls, exponential-backoff retries.
+ * Rejects with NetworkError/TimeoutError, or the abort reason when the caller's signal fired.
+ */
+const apiFetch = async (
+  url: string,
+  init: RequestInit = {},
+  options: RequestOptions = {},
+  policy: RequestPolicy = {}
+): Promise<Response> => {
+  const timeoutMs = options.timeoutMs ?? policy.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = policy.idempotent ? options.retries ?? DEFAULT_RETRIES : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetchWithTimeout(url, init, timeoutMs, options.signal);
+      if (attempt >= retries || !RETRYABLE_STATUSES.has(response.status)) {
+        return response;
+      }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      if (attempt >= retries) {
+        throw toRequestError(error);
+      }
+    }
+    await delay(RETRY_BASE_DELAY_MS * 2 ** attempt, options.signal);
+  }
+};
+
 export type ProblemType =
   | 'substitution'
   | 'simplify'
   | 'factor'
   | 'arithmetic';
 
+export type ProblemDifficulty = 'easy' | 'medium' | 'hard';
+
 export interface ProblemPayload {
   problem_code: string;
   type: ProblemType;
@@ -20,9 +150,25 @@ export interface ProblemPayload {
   description?: string;
   equations?: string[];
   expression?: string;
+  difficulty?: ProblemDifficulty;
+  /** Free-form labels for organizing the problem bank, e.g. "unit-3" */
+  tags?: string[];
+  /** Skills the problem practices, e.g. "difference of squares" */
+  skills?: string[];
+  /** School grade the problem targets */
+  gradeLevel?: number;
   metadata?: Record<string, any>;
 }
 
+/**
+ * Changes for updateProblem: fields left out stay as they are, and difficulty
+ * or gradeLevel set to null is cleared
+ */
+export type ProblemUpdate = Partial<Omit<ProblemPayload, 'difficulty' | 'gradeLevel'>> & {
+  difficulty?: ProblemDifficulty | null;
+  gradeLevel?: number | null;
+};
+
 export interface ProblemRecord extends ProblemPayload {
   problemData?: {
     title?: string;
@@ -75,24 +221,42 @@ export interface ProblemValidationResponse {
   hints?: string[];
 }
 
-export type ValidationLineStatus = 'valid' | 'needs_review' | 'invalid' | (string & {});
+/** Which engine produced a verdict: the SymPy API or the in-browser fallback */
+export type VerdictMode = 'remote' | 'local';
+
+export type ValidationLineStatus = 'valid' | 'needs_review' | 'invalid';
 
 export interface BatchValidationOptions {
   includeTelemetry?: boolean;
   requestHints?: boolean;
   llmAnalysis?: 'none' | 'summary' | 'per_line';
+  /**
+   * The operation the student claims for each line of studentWork ('' when none),
+   * sent next to it so the backend can check the claim
+   */
+  operations?: string[];
+}
+
+/**
+ * Extra detail about a line verdict; responseSchemas folds the API's
+ * `explanation`/`alternativeExplanation` spellings into these two fields
+ */
+export interface LineDiagnostics {
+  errorExplanation?: string;
+  alternative?: string;
+  [key: string]: unknown;
 }
 
 export interface BatchValidationLine {
-  index?: number;
-  lineIndex?: number;
+  /** Position of the line in the submitted studentWork */
+  index: number;
   original: string;
   plainMath?: string;
   operation?: string;
   status: ValidationLineStatus;
   feedback?: string;
   errorCode?: string;
-  diagnostics?: Record<string, any>;
+  diagnostics?: LineDiagnostics;
   telemetry?: Record<string, any>;
   confidence?: number;
   sympy?: {
@@ -133,6 +297,7 @@ export interface BatchValidationResponse {
   overall?: BatchValidationOverall;
   telemetry?: Record<string, any>;
   chat_response?: string;
+  mode?: VerdictMode;
 }
 
 export interface EquivalenceResponse {
@@ -140,6 +305,7 @@ export interface EquivalenceResponse {
   simplified1?: string;
   simplified2?: string;
   proof?: string;
+  mode?: VerdictMode;
 }
 
 export interface ParseResponse {
@@ -172,6 +338,28 @@ export interface CalculateResponse {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Everything the UI needs from a validation service. Components get the
+ * active implementation from useValidationBackend() instead of calling fetch.
+ */
+export interface ValidationBackend {
+  validateLine: typeof validateLine;
+  validateStep: typeof validateStep;
+  checkEquivalence: typeof checkEquivalence;
+  validateProblem: typeof validateProblem;
+  validateProblemBatch: typeof validateProblemBatch;
+  validateAnswer: typeof validateAnswer;
+  getHint: typeof getHint;
+  parseExpression: typeof parseExpression;
+  calculateExpression: typeof calculateExpression;
+  createProblem: typeof createProblem;
+  updateProblem: typeof updateProblem;
+  deleteProblem: typeof deleteProblem;
+  getProblem: typeof getProblem;
+  listProblems: typeof listProblems;
+  listProblemsByType: typeof listProblemsByType;
+}
+
 /**
  * Validate a single line of student work
  */
@@ -181,9 +369,10 @@ export async function validateLine(
   currentLine: string,
   lineIndex: number,
   previousLines: string[],
-  context?: Record<string, any>
+  context?: Record<string, any>,
+  requestOptions?: RequestOptions
 ): Promise<ValidationResponse> {
-  const response = await fetch(`${API_BASE_URL}/api/validate/line`, {
+  const response = await apiFetch(`${API_BASE_URL}/api/validate/line`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -196,14 +385,13 @@ export async function validateLine(
       previousLines,
       context: context || {},
     }),
-  });
+  }, requestOptions);
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-    throw new Error(error.error?.message || `Validation failed: ${response.statusText}`);
+    throw await createApiError(response, 'Validation failed');
   }
 
-  return response.json();
+  return parseResponse(validationResponseSchema, await response.json(), 'POST /api/validate/line');
 }
 
 /**
@@ -214,9 +402,10 @@ export async function validateStep(
   previousExpression: string,
   currentExpression: string,
   operation?: string,
-  lineIndex?: number
+  lineIndex?: number,
+  requestOptions?: RequestOptions
 ): Promise<StepValidationResponse> {
-  const response = await fetch(`${API_BASE_URL}/api/validate/step`, {
+  const response = await apiFetch(`${API_BASE_URL}/api/validate/step`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -228,42 +417,69 @@ export async function validateStep(
       operation,
       lineIndex,
     }),
-  });
+  }, requestOptions);
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-    throw new Error(error.error?.message || `Step validation failed: ${response.statusText}`);
+    throw await createApiError(response, 'Step validation failed');
   }
 
-  return response.json();
+  return parseResponse(stepValidationResponseSchema, await response.json(), 'POST /api/validate/step');
 }
 
 /**
  * Check if two expressions are equivalent
+ *
+ * Falls back to the local numeric checker when the API cannot be reached, answers
+ * with a server error (5xx), or was recently unreachable. A rejected request (4xx)
+ * throws as usual. `mode` on the result says which one answered.
  */
 export async function checkEquivalence(
   expression1: string,
   expression2: string,
-  simplify: boolean = true
+  simplify: boolean = true,
+  requestOptions?: RequestOptions
 ): Promise<EquivalenceResponse> {
-  const response = await fetch(`${API_BASE_URL}/api/validate/equivalence`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      expression1,
-      expression2,
-      simplify,
-    }),
+  const checkLocally = (): EquivalenceResponse => ({
+    ...checkEquivalenceLocally(expression1, expression2),
+    mode: 'local',
   });
 
+  if (!isApiReachable()) {
+    return checkLocally();
+  }
+
+  let response: Response;
+  try {
+    response = await apiFetch(`${API_BASE_URL}/api/validate/equivalence`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        expression1,
+        expression2,
+        simplify,
+      }),
+    }, requestOptions, { idempotent: true });
+  } catch (error) {
+    if (requestOptions?.signal?.aborted) {
+      throw error;
+    }
+    console.warn('Equivalence API unreachable, using local checker:', error);
+    markApiUnreachable();
+    return checkLocally();
+  }
+
+  if (response.status >= 500) {
+    console.warn(`Equivalence check failed (${response.status}), using local checker`);
+    return checkLocally();
+  }
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-    throw new Error(error.error?.message || `Equivalence check failed: ${response.statusText}`);
+    throw await createApiError(response, 'Equivalence check failed');
   }
 
-  return response.json();
+  const result = parseResponse(equivalenceResponseSchema, await response.json(), 'POST /api/validate/equivalence');
+  return { ...result, mode: 'remote' };
 }
 
 /**
@@ -273,9 +489,10 @@ export async function validateProblem(
   problemType: string,
   problemData: Record<string, any>,
   studentWork: string[],
-  currentLineIndex: number
+  currentLineIndex: number,
+  requestOptions?: RequestOptions
 ): Promise<ProblemValidationResponse> {
-  const response = await fetch(`${API_BASE_URL}/api/validate/problem/${problemType}`, {
+  const response = await apiFetch(`${API_BASE_URL}/api/validate/problem/${problemType}`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -285,54 +502,93 @@ export async function validateProblem(
       studentWork,
       currentLineIndex,
     }),
-  });
+  }, requestOptions);
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-    throw new Error(error.error?.message || `Problem validation failed: ${response.statusText}`);
+    throw await createApiError(response, 'Problem validation failed');
   }
 
-  return response.json();
+  return parseResponse(
+    problemValidationResponseSchema,
+    await response.json(),
+    `POST /api/validate/problem/${problemType}`
+  );
 }
 
 /**
  * Validate an entire set of student work lines in one request
+ *
+ * Falls back to the in-browser validator when the API cannot be reached, answers
+ * with a server error (5xx), or was recently unreachable. A rejected request (4xx)
+ * throws as usual. `mode` on the result says which one answered.
  */
 export async function validateProblemBatch(
   problemType: string,
   problemData: Record<string, any>,
   studentWork: string[],
-  options?: BatchValidationOptions
+  options?: BatchValidationOptions,
+  requestOptions?: RequestOptions
 ): Promise<BatchValidationResponse> {
   const defaultOptions: BatchValidationOptions = {
     includeTelemetry: true,
     requestHints: false,
     llmAnalysis: 'summary',
   };
+  const { operations, ...resolvedOptions } = {
+    ...defaultOptions,
+    ...(options || {}),
+  };
+
+  const validateLocally = (): BatchValidationResponse => ({
+    ...validateProblemBatchLocally(problemType as ProblemType, problemData, studentWork, resolvedOptions),
+    mode: 'local',
+  });
+
+  if (!isApiReachable()) {
+    return validateLocally();
+  }
 
   const payload: Record<string, any> = {
     problemData,
     studentWork,
-    options: {
-      ...defaultOptions,
-      ...(options || {}),
-    },
+    options: resolvedOptions,
   };
+  if (operations?.some(operation => operation.trim().length > 0)) {
+    payload.operations = operations;
+  }
 
-  const response = await fetch(`${API_BASE_URL}/api/validate/problem/${problemType}/batch`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(payload),
-  });
+  let response: Response;
+  try {
+    response = await apiFetch(`${API_BASE_URL}/api/validate/problem/${problemType}/batch`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    }, requestOptions, { timeoutMs: BATCH_TIMEOUT_MS });
+  } catch (error) {
+    if (requestOptions?.signal?.aborted) {
+      throw error;
+    }
+    console.warn('Batch validation API unreachable, using local validator:', error);
+    markApiUnreachable();
+    return validateLocally();
+  }
 
+  if (response.status >= 500) {
+    console.warn(`Problem batch validation failed (${response.status}), using local validator`);
+    return validateLocally();
+  }
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-    throw new Error(error.error?.message || `Problem batch validation failed: ${response.statusText}`);
+    throw await createApiError(response, 'Problem batch validation failed');
   }
 
-  return response.json();
+  const result = parseResponse(
+    batchValidationResponseSchema(studentWork),
+    await response.json(),
+    `POST /api/validate/problem/${problemType}/batch`
+  );
+  return { ...result, mode: 'remote' };
 }
 
 /**
@@ -342,9 +598,10 @@ export async function validateAnswer(
   problemType: string,
   problemData: Record<string, any>,
   studentAnswer: Record<string, string>,
-  tolerance: number = 0.001
+  tolerance: number = 0.001,
+  requestOptions?: RequestOptions
 ): Promise<AnswerValidationResponse> {
-  const response = await fetch(`${API_BASE_URL}/api/validate/answer`, {
+  const response = await apiFetch(`${API_BASE_URL}/api/validate/answer`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -355,14 +612,13 @@ export async function validateAnswer(
       studentAnswer,
       tolerance,
     }),
-  });
+  }, requestOptions);
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-    throw new Error(error.error?.message || `Answer validation failed: ${response.statusText}`);
+    throw await createApiError(response, 'Answer validation failed');
   }
 
-  return response.json();
+  return parseResponse(answerValidationResponseSchema, await response.json(), 'POST /api/validate/answer');
 }
 
 /**
@@ -372,9 +628,10 @@ export async function getHint(
   problemType: string,
   currentLine: string,
   previousLines: string[],
-  stuckFor?: number
+  stuckFor?: number,
+  requestOptions?: RequestOptions
 ): Promise<HintResponse> {
-  const response = await fetch(`${API_BASE_URL}/api/hints`, {
+  const response = await apiFetch(`${API_BASE_URL}/api/hints`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -385,14 +642,13 @@ export async function getHint(
       previousLines,
       stuckFor,
     }),
-  });
+  }, requestOptions);
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-    throw new Error(error.error?.message || `Hint generation failed: ${response.statusText}`);
+    throw await createApiError(response, 'Hint generation failed');
   }
 
-  return response.json();
+  return parseResponse(hintResponseSchema, await response.json(), 'POST /api/hints');
 }
 
 /**
@@ -400,9 +656,10 @@ export async function getHint(
  */
 export async function parseExpression(
   expression: string,
-  normalize: boolean = true
+  normalize: boolean = true,
+  requestOptions?: RequestOptions
 ): Promise<ParseResponse> {
-  const response = await fetch(`${API_BASE_URL}/api/validate/parse`, {
+  const response = await apiFetch(`${API_BASE_URL}/api/validate/parse`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -411,14 +668,13 @@ export async function parseExpression(
       expression,
       normalize,
     }),
-  });
+  }, requestOptions, { idempotent: true });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-    throw new Error(error.error?.message || `Expression parsing failed: ${response.statusText}`);
+    throw await createApiError(response, 'Expression parsing failed');
   }
 
-  return response.json();
+  return parseResponse(parseResponseSchema, await response.json(), 'POST /api/validate/parse');
 }
 
 /**
@@ -429,9 +685,10 @@ export async function calculateExpression(
   calculationType: 'simplify' | 'evaluate' | 'expand' | 'factor' = 'simplify',
   variables?: Record<string, number>,
   precision: number = 15,
-  latexOutput: boolean = true
+  latexOutput: boolean = true,
+  requestOptions?: RequestOptions
 ): Promise<CalculateResponse> {
-  const response = await fetch(`${API_BASE_URL}/math-calculator/calculate`, {
+  const response = await apiFetch(`${API_BASE_URL}/math-calculator/calculate`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -443,14 +700,13 @@ export async function calculateExpression(
       precision,
       latex_output: latexOutput,
     }),
-  });
+  }, requestOptions);
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-    throw new Error(error.error?.message || `Calculation failed: ${response.statusText}`);
+    throw await createApiError(response, 'Calculation failed');
   }
 
-  return response.json();
+  return parseResponse(calculateResponseSchema, await response.json(), 'POST /math-calculator/calculate');
 }
 
 /**
@@ -458,79 +714,124 @@ export async function calculateExpression(
  */
 const buildProblemUrl = (path: string) => `${API_BASE_URL}${path}`;
 
-const asJson = async (response: Response) => {
+const asJson = async <T>(response: Response, schema: ResponseSchema<T>, endpoint: string): Promise<T> => {
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-    throw new Error(error.error?.message || `Request failed: ${response.statusText}`);
+    throw await createApiError(response, 'Request failed');
   }
 
   // Some endpoints (e.g., DELETE) may return 204/empty body
   const text = await response.text().catch(() => '');
   if (!text || text.trim().length === 0) {
-    return { success: true };
+    return parseResponse(schema, { success: true }, endpoint);
   }
 
+  let body: unknown;
   try {
-    return JSON.parse(text);
+    body = JSON.parse(text);
   } catch (err) {
-    throw new Error('Invalid JSON response');
+    throw new ApiError('Invalid JSON response', { status: response.status, body: text, cause: err });
   }
+  return parseResponse(schema, body, endpoint);
 };
 
-export async function createProblem(payload: ProblemPayload): Promise<ProblemRecord> {
-  const response = await fetch(buildProblemUrl('/problems'), {
+export async function createProblem(
+  payload: ProblemPayload,
+  requestOptions?: RequestOptions
+): Promise<ProblemRecord> {
+  const response = await apiFetch(buildProblemUrl('/problems'), {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
     body: JSON.stringify(payload),
-  });
-  return asJson(response);
+  }, requestOptions);
+  return asJson(response, problemRecordSchema, 'POST /problems');
 }
 
 export async function updateProblem(
   problemCode: string,
-  payload: Partial<ProblemPayload>
+  payload: ProblemUpdate,
+  requestOptions?: RequestOptions
 ): Promise<ProblemRecord> {
-  const response = await fetch(buildProblemUrl(`/problems/${encodeURIComponent(problemCode)}`), {
+  const response = await apiFetch(buildProblemUrl(`/problems/${encodeURIComponent(problemCode)}`), {
     method: 'PATCH',
     headers: {
       'Content-Type': 'application/json',
     },
     body: JSON.stringify(payload),
-  });
-  return asJson(response);
+  }, requestOptions);
+  return asJson(response, problemRecordSchema, 'PATCH /problems/{code}');
 }
 
-export async function deleteProblem(problemCode: string): Promise<{ success: boolean }> {
-  const response = await fetch(buildProblemUrl(`/problems/${encodeURIComponent(problemCode)}`), {
+export async function deleteProblem(
+  problemCode: string,
+  requestOptions?: RequestOptions
+): Promise<{ success: boolean }> {
+  const response = await apiFetch(buildProblemUrl(`/problems/${encodeURIComponent(problemCode)}`), {
     method: 'DELETE',
-  });
-  return asJson(response);
+  }, requestOptions);
+  return asJson(response, deleteResponseSchema, 'DELETE /problems/{code}');
 }
 
-export async function getProblem(problemCode: string): Promise<ProblemRecord> {
-  const response = await fetch(buildProblemUrl(`/problems/${encodeURIComponent(problemCode)}`));
-  return asJson(response);
+export async function getProblem(
+  problemCode: string,
+  requestOptions?: RequestOptions
+): Promise<ProblemRecord> {
+  const response = await apiFetch(
+    buildProblemUrl(`/problems/${encodeURIComponent(problemCode)}`),
+    {},
+    requestOptions,
+    { idempotent: true }
+  );
+  return asJson(response, problemRecordSchema, 'GET /problems/{code}');
 }
 
 export async function listProblems(
   page: number = 1,
-  pageSize: number = 20
+  pageSize: number = 20,
+  requestOptions?: RequestOptions
 ): Promise<ProblemListResponse> {
-  const response = await fetch(
-    buildProblemUrl(`/problems?page=${page}&page_size=${pageSize}`)
+  const response = await apiFetch(
+    buildProblemUrl(`/problems?page=${page}&page_size=${pageSize}`),
+    {},
+    requestOptions,
+    { idempotent: true }
   );
-  return asJson(response);
+  return asJson(response, problemListResponseSchema, 'GET /problems');
 }
 
 export async function listProblemsByType(
   type: ProblemType,
   page: number = 1,
-  pageSize: number = 20
+  pageSize: number = 20,
+  requestOptions?: RequestOptions
 ): Promise<ProblemListResponse> {
-  const response = await fetch(
-    buildProblemUrl(`/problems/type/${encodeURIComponent(type)}?page=${page}&page_size=${pageSize}`)
+  const response = await apiFetch(
+    buildProblemUrl(`/problems/type/${encodeURIComponent(type)}?page=${page}&page_size=${pageSize}`),
+    {},
+    requestOptions,
+    { idempotent: true }
   );
-  return asJson(response);
+  return asJson(response, problemListResponseSchema, 'GET /problems/type/{type}');
 }
+
+/**
+ * The FastAPI service at VITE_API_BASE_URL
+ */
+export const httpValidationBackend: ValidationBackend = {
+  validateLine,
+  validateStep,
+  checkEquivalence,
+  validateProblem,
+  validateProblemBatch,
+  validateAnswer,
+  getHint,
+  parseExpression,
+  calculateExpression,
+  createProblem,
+  updateProblem,
+  deleteProblem,
+  getProblem,
+  listProblems,
+  listProblemsByType,
+};
@@ -0,0 +1,38 @@
+/**
+ * Selection of the ValidationBackend used by the app
+ *
+ * main.tsx and whiteboard.tsx create one at startup and provide it through
+ * ValidationBackendContext; components read it with useValidationBackend().
+ */
+
+import { createContext, useContext } from 'react';
+import { createMockValidationBackend } from './mockValidationBackend';
+import { httpValidationBackend, type ValidationBackend } from './validationApi';
+
+export type ValidationBackendKind = 'http' | 'mock';
+
+const isBackendKind = (value: unknown): value is ValidationBackendKind =>
+  value === 'http' || value === 'mock';
+
+/**
+ * Which backend to use: a ?backend=mock|http query parameter wins over
+ * VITE_VALIDATION_BACKEND, and HTTP is the default.
+ */
+export function resolveValidationBackendKind(search: string = window.location.search): ValidationBackendKind {
+  const fromQuery = new URLSearchParams(search).get('backend');
+  if (isBackendKind(fromQuery)) {
+    return fromQuery;
+  }
+  const fromEnv = import.meta.env.VITE_VALIDATION_BACKEND;
+  return isBackendKind(fromEnv) ? fromEnv : 'http';
+}
+
+export function createValidationBackend(
+  kind: ValidationBackendKind = resolveValidationBackendKind()
+): ValidationBackend {
+  return kind === 'mock' ? createMockValidationBackend() : httpValidationBackend;
+}
+
+export const ValidationBackendContext = createContext<ValidationBackend>(httpValidationBackend);
+
+export const useValidationBackend = () => useContext(ValidationBackendContext);
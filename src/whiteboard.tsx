@@ -2,10 +2,17 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import MathWhiteboard from './components/MathWhiteboard'
+import ContractDriftOverlay from './components/ContractDriftOverlay'
+import { ValidationBackendContext, createValidationBackend } from './utils/validationBackend'
+
+const validationBackend = createValidationBackend()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <MathWhiteboard />
+    <ValidationBackendContext.Provider value={validationBackend}>
+      <MathWhiteboard />
+      {import.meta.env.DEV && <ContractDriftOverlay />}
+    </ValidationBackendContext.Provider>
   </StrictMode>,
 )
 